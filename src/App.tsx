@@ -10,6 +10,8 @@ import Configuration from "@/pages/Configuration";
 import Compare from "@/pages/Compare";
 import Summary from "@/pages/Summary";
 import ConfigManagement from "@/pages/ConfigManagement";
+import Trends from "@/pages/Trends";
+import AuditLog from "@/pages/AuditLog";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -25,6 +27,8 @@ const App = () => (
             <Route path="/" element={<Layout><Configuration /></Layout>} />
             <Route path="/compare" element={<Layout><Compare /></Layout>} />
             <Route path="/summary" element={<Layout><Summary /></Layout>} />
+            <Route path="/trends" element={<Layout><Trends /></Layout>} />
+            <Route path="/audit" element={<Layout><AuditLog /></Layout>} />
             <Route path="/config-management" element={<Layout><ConfigManagement /></Layout>} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
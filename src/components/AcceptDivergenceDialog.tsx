@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { useAppDispatch } from '@/hooks/useRedux';
+import { acceptDivergence, ComparisonResult } from '@/store/slices/comparisonSlice';
+import { getDivergingInstances } from '@/utils/acceptedDivergences';
+import { ShieldCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface AcceptDivergenceDialogProps {
+  sessionId: string;
+  comparisonType: string;
+  result: ComparisonResult;
+  baseInstanceId?: string | null;
+  getInstanceName: (id: string) => string;
+}
+
+const AcceptDivergenceDialog: React.FC<AcceptDivergenceDialogProps> = ({
+  sessionId,
+  comparisonType,
+  result,
+  baseInstanceId,
+  getInstanceName,
+}) => {
+  const dispatch = useAppDispatch();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [author, setAuthor] = useState('');
+  const [expiresOn, setExpiresOn] = useState('');
+
+  const divergingInstances = getDivergingInstances(result, baseInstanceId || undefined);
+
+  const handleAccept = () => {
+    if (!reason.trim() || !author.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Please provide a reason and an author",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    dispatch(acceptDivergence({
+      sessionId,
+      divergence: {
+        comparisonType,
+        resultType: result.type,
+        path: result.path,
+        instanceIds: divergingInstances,
+        reason: reason.trim(),
+        author: author.trim(),
+        // Valid through the end of the chosen day
+        ...(expiresOn ? { expiresAt: new Date(`${expiresOn}T23:59:59`).toISOString() } : {}),
+      },
+    }));
+
+    toast({
+      title: "Divergence Accepted",
+      description: `${result.path} will be classified as accepted in later comparisons`,
+    });
+    setOpen(false);
+    setReason('');
+    setExpiresOn('');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <ShieldCheck className="h-4 w-4 mr-2" />
+          Accept Divergence
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Accept Divergence</DialogTitle>
+          <DialogDescription>
+            Mark this difference as intentional for{' '}
+            {divergingInstances.map(getInstanceName).join(', ') || 'these instances'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <code className="block text-sm font-mono bg-muted px-2 py-1 rounded truncate">{result.path}</code>
+          <div>
+            <Label htmlFor="divergence-reason">Reason *</Label>
+            <Textarea
+              id="divergence-reason"
+              placeholder="e.g., Staging points at the sandbox payment gateway"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="divergence-author">Author *</Label>
+              <Input
+                id="divergence-author"
+                value={author}
+                onChange={(e) => setAuthor(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="divergence-expiry">Expires On</Label>
+              <Input
+                id="divergence-expiry"
+                type="date"
+                value={expiresOn}
+                onChange={(e) => setExpiresOn(e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleAccept}>
+            Accept
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AcceptDivergenceDialog;
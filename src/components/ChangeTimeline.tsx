@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ChangeLogEntry, TemporalComparison } from '@/store/slices/comparisonSlice';
+import { truncateValue } from '@/utils/jsonHelpers';
+import { Clock, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface ChangeTimelineProps {
+  temporal: TemporalComparison;
+  instanceName: string;
+}
+
+const typeLabels: Partial<Record<ChangeLogEntry['type'], string>> = {
+  added: 'Added',
+  deleted: 'Removed',
+  edited: 'Edited',
+  moved: 'Moved',
+};
+
+const typeBadgeClasses: Partial<Record<ChangeLogEntry['type'], string>> = {
+  added: 'border-success text-success',
+  deleted: 'border-destructive text-destructive',
+  edited: 'border-warning text-warning',
+  moved: 'border-primary text-primary',
+};
+
+const ChangeTimeline: React.FC<ChangeTimelineProps> = ({ temporal, instanceName }) => {
+  // Newest step first, expanded by default
+  const steps = temporal.snapshots.slice(1).map((to, index) => ({
+    from: temporal.snapshots[index],
+    to,
+    entries: temporal.changeLog.filter(entry => entry.toSnapshotId === to.id),
+  })).reverse();
+  const [collapsedSteps, setCollapsedSteps] = useState<Set<string>>(new Set());
+
+  const toggleStep = (snapshotId: string) => {
+    const next = new Set(collapsedSteps);
+    if (next.has(snapshotId)) {
+      next.delete(snapshotId);
+    } else {
+      next.add(snapshotId);
+    }
+    setCollapsedSteps(next);
+  };
+
+  const countByType = (entries: ChangeLogEntry[], type: ChangeLogEntry['type']) =>
+    entries.filter(entry => entry.type === type).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Clock className="h-5 w-5 text-primary" />
+          <span>Change Timeline</span>
+        </CardTitle>
+        <CardDescription>
+          {temporal.changeLog.length} change(s) in {instanceName} across {temporal.snapshots.length} snapshots
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="relative space-y-4 border-l-2 border-muted pl-6">
+          {steps.map(step => {
+            const isCollapsed = collapsedSteps.has(step.to.id);
+            return (
+              <div key={step.to.id} className="relative">
+                <div className="absolute -left-[31px] top-1 h-4 w-4 rounded-full border-2 border-primary bg-background" />
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-sm">{new Date(step.to.timestamp).toLocaleString()}</p>
+                    <p className="text-xs text-muted-foreground">
+                      since {new Date(step.from.timestamp).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {step.entries.length === 0 ? (
+                      <Badge variant="secondary" className="text-xs">No changes</Badge>
+                    ) : (
+                      (['added', 'deleted', 'edited', 'moved'] as const)
+                        .filter(type => countByType(step.entries, type) > 0)
+                        .map(type => (
+                          <Badge key={type} variant="outline" className={`text-xs ${typeBadgeClasses[type]}`}>
+                            {countByType(step.entries, type)} {typeLabels[type].toLowerCase()}
+                          </Badge>
+                        ))
+                    )}
+                    {step.entries.length > 0 && (
+                      <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => toggleStep(step.to.id)}>
+                        {isCollapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {!isCollapsed && step.entries.length > 0 && (
+                  <div className="mt-2 space-y-1">
+                    {step.entries.map(entry => (
+                      <div key={`${entry.toSnapshotId}-${entry.path}`} className="flex items-center space-x-2 rounded bg-muted/30 px-2 py-1 text-xs">
+                        <Badge variant="outline" className={`text-xs ${typeBadgeClasses[entry.type] || ''}`}>
+                          {typeLabels[entry.type] || entry.type}
+                        </Badge>
+                        <span className="font-mono truncate flex-1" title={entry.path}>{entry.path}</span>
+                        {entry.type === 'edited' && (
+                          <span className="text-muted-foreground truncate max-w-[40%]">
+                            {truncateValue(entry.before, 30)} → {truncateValue(entry.after, 30)}
+                          </span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ChangeTimeline;
@@ -0,0 +1,141 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useAppSelector } from '@/hooks/useRedux';
+import { FetchState, FetchStatus } from '@/store/slices/instancesSlice';
+import { Activity, CheckCircle, XCircle, Loader2, Circle, GitCompare } from 'lucide-react';
+
+interface FetchStatusGridProps {
+  instanceIds: string[];
+  comparisonTypes: { value: string; label: string }[];
+  currentComparisonType: string;
+  comparableIds: string[]; // Selected instances with data of the current type to compare
+  onCompareAnyway: () => void;
+  disabled?: boolean;
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const formatDuration = (ms: number) => (ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+const statusIcons: Record<FetchStatus, React.ReactNode> = {
+  idle: <Circle className="h-4 w-4 text-muted-foreground" />,
+  loading: <Loader2 className="h-4 w-4 animate-spin text-primary" />,
+  succeeded: <CheckCircle className="h-4 w-4 text-success" />,
+  failed: <XCircle className="h-4 w-4 text-destructive" />,
+};
+
+const FetchStatusGrid: React.FC<FetchStatusGridProps> = ({
+  instanceIds,
+  comparisonTypes,
+  currentComparisonType,
+  comparableIds,
+  onCompareAnyway,
+  disabled,
+}) => {
+  const { instances, fetchStates } = useAppSelector((state) => state.instances);
+
+  // The current type, then every other type fetched from one of the instances
+  const fetchedTypes = new Set(instanceIds.flatMap(id => Object.keys(fetchStates[id] || {})));
+  const types = comparisonTypes.filter(t => t.value === currentComparisonType || fetchedTypes.has(t.value));
+  const failedIds = instanceIds.filter(id => fetchStates[id]?.[currentComparisonType]?.status === 'failed');
+  const unavailableCount = instanceIds.length - comparableIds.length;
+
+  // Nothing to report until a fetch starts or an instance lacks data to compare
+  if (fetchedTypes.size === 0 && unavailableCount === 0) return null;
+
+  const renderCell = (fetchState: FetchState | undefined) => {
+    const status = fetchState?.status || 'idle';
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center space-x-2">
+          {statusIcons[status]}
+          <span className="capitalize">{status}</span>
+        </div>
+        {(fetchState?.durationMs !== undefined || fetchState?.bytes !== undefined) && (
+          <p className="text-xs text-muted-foreground">
+            {fetchState.durationMs !== undefined && formatDuration(fetchState.durationMs)}
+            {fetchState.bytes !== undefined && ` • ${formatSize(fetchState.bytes)}`}
+            {fetchState.attempts && fetchState.attempts > 1 ? ` • ${fetchState.attempts} attempts` : ''}
+          </p>
+        )}
+        {status === 'failed' && fetchState?.error && (
+          <p className="max-w-xs break-words text-xs text-destructive" title={fetchState.error}>
+            {fetchState.error.length > 160 ? `${fetchState.error.slice(0, 160)}...` : fetchState.error}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Activity className="h-5 w-5 text-primary" />
+          <span>Fetch Status</span>
+        </CardTitle>
+        <CardDescription>
+          Latest fetch from each selected instance, by comparison type
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left">
+                <th className="py-2 pr-4 font-medium">Instance</th>
+                {types.map(type => (
+                  <th key={type.value} className="py-2 pr-4 font-medium">
+                    {type.label}
+                    {type.value === currentComparisonType && (
+                      <Badge variant="outline" className="ml-2 text-xs">Current</Badge>
+                    )}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {instanceIds.map(id => (
+                <tr key={id} className="border-b align-top last:border-0">
+                  <td className="py-2 pr-4 font-medium">{instances.find(i => i.id === id)?.name || id}</td>
+                  {types.map(type => (
+                    <td key={type.value} className="py-2 pr-4">
+                      {renderCell(fetchStates[id]?.[type.value])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Compare Anyway */}
+        {unavailableCount > 0 && (
+          <div className="flex items-center justify-between rounded-md border border-warning/30 bg-warning/5 p-3 text-sm">
+            <span>
+              {unavailableCount} instance(s) have no data of this type to compare
+              {failedIds.length > 0 ? ` (${failedIds.length} failed to fetch).` : '.'}
+              {comparableIds.length >= 2
+                ? ` ${comparableIds.length} instance(s) can still be compared.`
+                : ' At least 2 instances with data are needed to compare.'}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onCompareAnyway}
+              disabled={disabled || comparableIds.length < 2}
+            >
+              <GitCompare className="mr-2 h-4 w-4" />
+              Compare Anyway
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FetchStatusGrid;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { FieldDiff } from '@/store/slices/comparisonSlice';
+import { truncateValue } from '@/utils/jsonHelpers';
+
+interface FieldDiffTableProps {
+  fieldDiffs: FieldDiff[];
+  instanceIds: string[];
+  baseInstanceId?: string | null;
+  getInstanceName: (id: string) => string;
+  selectedFields?: string[]; // Fields picked for a cherry-pick migration
+  onFieldSelectionChange?: (field: string, checked: boolean) => void; // Shows the pick column when set
+}
+
+const FieldDiffTable: React.FC<FieldDiffTableProps> = ({
+  fieldDiffs,
+  instanceIds,
+  baseInstanceId,
+  getInstanceName,
+  selectedFields = [],
+  onFieldSelectionChange,
+}) => {
+  return (
+    <div className="overflow-x-auto rounded border">
+      <table className="w-full text-xs">
+        <thead className="bg-muted/50">
+          <tr>
+            {onFieldSelectionChange && (
+              <th className="px-2 py-1 text-left font-medium text-muted-foreground w-16">Migrate</th>
+            )}
+            <th className="px-2 py-1 text-left font-medium text-muted-foreground">Field</th>
+            {instanceIds.map(id => (
+              <th key={id} className={`px-2 py-1 text-left font-medium ${id === baseInstanceId ? 'text-primary' : 'text-muted-foreground'}`}>
+                {getInstanceName(id)}
+                {id === baseInstanceId && ' (Base)'}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {fieldDiffs.map(diff => (
+            <tr key={diff.field} className="border-t">
+              {onFieldSelectionChange && (
+                <td className="px-2 py-1">
+                  <Checkbox
+                    checked={selectedFields.includes(diff.field)}
+                    onCheckedChange={(checked) => onFieldSelectionChange(diff.field, checked as boolean)}
+                    aria-label={`Migrate ${diff.field}`}
+                  />
+                </td>
+              )}
+              <td className="px-2 py-1 font-mono">{diff.field}</td>
+              {instanceIds.map(id => {
+                const isDifferent = diff.differingInstances.includes(id);
+                return (
+                  <td key={id} className="px-2 py-1">
+                    {id in diff.values ? (
+                      <code className={`px-1 rounded ${isDifferent ? 'bg-warning/20 text-foreground' : 'bg-muted'}`}>
+                        {diff.values[id] === undefined ? 'undefined' : truncateValue(diff.values[id], 60)}
+                      </code>
+                    ) : (
+                      <span className="text-destructive">MISSING</span>
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default FieldDiffTable;
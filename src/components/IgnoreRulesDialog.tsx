@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { useAppDispatch, useAppSelector } from '@/hooks/useRedux';
+import { addIgnoreRule, updateIgnoreRule, deleteIgnoreRule } from '@/store/slices/comparisonSlice';
+import { IGNORE_RULE_KINDS, IgnoreRuleKind } from '@/utils/ignoreRules';
+import { EyeOff, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface IgnoreRulesDialogProps {
+  comparisonTypes: { value: string; label: string }[];
+  defaultComparisonType: string;
+}
+
+const IgnoreRulesDialog: React.FC<IgnoreRulesDialogProps> = ({ comparisonTypes, defaultComparisonType }) => {
+  const dispatch = useAppDispatch();
+  const { ignoreRules } = useAppSelector((state) => state.comparison);
+  const { toast } = useToast();
+
+  const [newRule, setNewRule] = useState({
+    name: '',
+    comparisonType: defaultComparisonType,
+    kind: 'path' as IgnoreRuleKind,
+    pattern: '',
+  });
+
+  const getTypeLabel = (value: string) =>
+    value === '*' ? 'All types' : comparisonTypes.find(t => t.value === value)?.label || value;
+
+  const handleAddRule = () => {
+    if (!newRule.name || !newRule.pattern) {
+      toast({
+        title: "Validation Error",
+        description: "Please provide a rule name and pattern",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (newRule.kind === 'regex' || newRule.kind === 'value') {
+      try {
+        new RegExp(newRule.pattern);
+      } catch (error) {
+        toast({
+          title: "Invalid Pattern",
+          description: "The pattern is not a valid regular expression",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    dispatch(addIgnoreRule({ ...newRule, enabled: true }));
+    setNewRule({ ...newRule, name: '', pattern: '' });
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <EyeOff className="h-4 w-4 mr-2" />
+          Ignore Rules
+          {ignoreRules.length > 0 && (
+            <Badge variant="secondary" className="ml-2 text-xs">{ignoreRules.length}</Badge>
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Ignore Rules</DialogTitle>
+          <DialogDescription>
+            Differences matching an enabled rule are suppressed when a comparison runs
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {ignoreRules.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No ignore rules defined</p>
+          ) : (
+            ignoreRules.map((rule) => (
+              <div key={rule.id} className="flex items-center space-x-3 rounded-lg border p-3">
+                <Switch
+                  checked={rule.enabled}
+                  onCheckedChange={(checked) => dispatch(updateIgnoreRule({ ...rule, enabled: checked }))}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-sm">{rule.name}</span>
+                    <Badge variant="outline" className="text-xs">{getTypeLabel(rule.comparisonType)}</Badge>
+                    <Badge variant="secondary" className="text-xs">
+                      {IGNORE_RULE_KINDS.find(k => k.value === rule.kind)?.label}
+                    </Badge>
+                  </div>
+                  <code className="text-xs text-muted-foreground truncate block">{rule.pattern}</code>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => dispatch(deleteIgnoreRule(rule.id))}
+                  className="text-destructive hover:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="space-y-4 border-t pt-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="ignore-rule-name">Name *</Label>
+              <Input
+                id="ignore-rule-name"
+                placeholder="e.g., Hostnames"
+                value={newRule.name}
+                onChange={(e) => setNewRule({ ...newRule, name: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Comparison Type</Label>
+              <Select value={newRule.comparisonType} onValueChange={(value) => setNewRule({ ...newRule, comparisonType: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="*">All types</SelectItem>
+                  {comparisonTypes.map(type => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <Label>Rule Kind</Label>
+              <Select value={newRule.kind} onValueChange={(value) => setNewRule({ ...newRule, kind: value as IgnoreRuleKind })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {IGNORE_RULE_KINDS.map(kind => (
+                    <SelectItem key={kind.value} value={kind.value}>{kind.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="col-span-2">
+              <Label htmlFor="ignore-rule-pattern">Pattern *</Label>
+              <Input
+                id="ignore-rule-pattern"
+                className="font-mono"
+                value={newRule.pattern}
+                onChange={(e) => setNewRule({ ...newRule, pattern: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                {IGNORE_RULE_KINDS.find(k => k.value === newRule.kind)?.hint}
+              </p>
+            </div>
+          </div>
+          <Button type="button" variant="outline" size="sm" onClick={handleAddRule}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default IgnoreRulesDialog;
@@ -0,0 +1,133 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Instance, InstanceAuth, InstanceAuthMode, InstanceSecretField } from '@/store/slices/instancesSlice';
+import { AUTH_MODE_LABELS, DEFAULT_API_KEY_HEADER } from '@/utils/instanceAuth';
+
+export type EnteredSecrets = Partial<Record<InstanceSecretField, string>>;
+
+interface InstanceAuthFieldsProps {
+  idPrefix: string; // Keeps input ids unique when the fields appear twice on a page
+  auth: InstanceAuth;
+  secretIds?: Instance['secretIds']; // Credentials already in the vault; never shown
+  secrets: EnteredSecrets; // Values entered in this form, stored on save
+  vaultUnlocked: boolean;
+  onChange: (value: { auth: InstanceAuth; secrets: EnteredSecrets }) => void;
+}
+
+const InstanceAuthFields: React.FC<InstanceAuthFieldsProps> = ({ idPrefix, auth, secretIds, secrets, vaultUnlocked, onChange }) => {
+  const setAuth = (patch: Partial<InstanceAuth>) => onChange({ auth: { ...auth, ...patch }, secrets });
+
+  // Write-only: a stored secret is only ever replaced
+  const renderSecretInput = (field: InstanceSecretField, id: string, placeholder: string) => (
+    <Input
+      id={id}
+      type="password"
+      autoComplete="new-password"
+      placeholder={!vaultUnlocked
+        ? 'Unlock the vault to enter credentials'
+        : secretIds?.[field] ? 'Stored in vault; type to replace' : placeholder}
+      disabled={!vaultUnlocked}
+      value={secrets[field] || ''}
+      onChange={(e) => onChange({ auth, secrets: { ...secrets, [field]: e.target.value } })}
+      className="mt-1"
+    />
+  );
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label htmlFor={`${idPrefix}-auth-mode`}>Authentication</Label>
+        <Select value={auth.mode} onValueChange={(value) => setAuth({ mode: value as InstanceAuthMode })}>
+          <SelectTrigger id={`${idPrefix}-auth-mode`} className="mt-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(AUTH_MODE_LABELS) as InstanceAuthMode[]).map(mode => (
+              <SelectItem key={mode} value={mode}>{AUTH_MODE_LABELS[mode]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {auth.mode === 'headerKey' && (
+        <div>
+          <Label htmlFor={`${idPrefix}-header-name`}>Header Name</Label>
+          <Input
+            id={`${idPrefix}-header-name`}
+            placeholder={DEFAULT_API_KEY_HEADER}
+            value={auth.headerName || ''}
+            onChange={(e) => setAuth({ headerName: e.target.value })}
+            className="mt-1"
+          />
+        </div>
+      )}
+
+      {(auth.mode === 'queryKey' || auth.mode === 'headerKey' || auth.mode === 'bearer') && (
+        <div>
+          <Label htmlFor={`${idPrefix}-authKey`}>{auth.mode === 'bearer' ? 'Bearer Token' : 'Authentication Key'}</Label>
+          {renderSecretInput('authKey', `${idPrefix}-authKey`, auth.mode === 'bearer' ? 'Access token' : 'API key')}
+        </div>
+      )}
+
+      {auth.mode === 'basic' && (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <div>
+            <Label htmlFor={`${idPrefix}-username`}>Username</Label>
+            <Input
+              id={`${idPrefix}-username`}
+              value={auth.username || ''}
+              onChange={(e) => setAuth({ username: e.target.value })}
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor={`${idPrefix}-password`}>Password</Label>
+            {renderSecretInput('password', `${idPrefix}-password`, 'Password')}
+          </div>
+        </div>
+      )}
+
+      {auth.mode === 'oauth2' && (
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <div className="md:col-span-2">
+            <Label htmlFor={`${idPrefix}-token-url`}>Token URL</Label>
+            <Input
+              id={`${idPrefix}-token-url`}
+              placeholder="https://auth.example.com/oauth2/token"
+              value={auth.tokenUrl || ''}
+              onChange={(e) => setAuth({ tokenUrl: e.target.value })}
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor={`${idPrefix}-client-id`}>Client ID</Label>
+            <Input
+              id={`${idPrefix}-client-id`}
+              value={auth.clientId || ''}
+              onChange={(e) => setAuth({ clientId: e.target.value })}
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor={`${idPrefix}-client-secret`}>Client Secret</Label>
+            {renderSecretInput('clientSecret', `${idPrefix}-client-secret`, 'Client secret')}
+          </div>
+          <div className="md:col-span-2">
+            <Label htmlFor={`${idPrefix}-scope`}>Scope (Optional)</Label>
+            <Input
+              id={`${idPrefix}-scope`}
+              placeholder="e.g., config.read config.write"
+              value={auth.scope || ''}
+              onChange={(e) => setAuth({ scope: e.target.value })}
+              className="mt-1"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InstanceAuthFields;
@@ -2,7 +2,7 @@ import React from 'react';
 import { useLocation, NavLink } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Settings, GitCompare, BarChart3, Database } from 'lucide-react';
+import { Settings, GitCompare, BarChart3, LineChart, ScrollText, Database } from 'lucide-react';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -15,6 +15,8 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
     { name: 'Configuration', href: '/', icon: Settings },
     { name: 'Compare', href: '/compare', icon: GitCompare },
     { name: 'Summary', href: '/summary', icon: BarChart3 },
+    { name: 'Trends', href: '/trends', icon: LineChart },
+    { name: 'Audit Log', href: '/audit', icon: ScrollText },
     // { name: 'Config Management', href: '/config-management', icon: Database },
   ];
 
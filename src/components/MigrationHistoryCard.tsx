@@ -0,0 +1,158 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useAppDispatch, useAppSelector } from '@/hooks/useRedux';
+import { canRollBack, getFailedItems, rollbackMigration, MigrationRecord } from '@/store/slices/migrationsSlice';
+import { useToast } from '@/hooks/use-toast';
+import { History, Undo2, ArrowRight, AlertTriangle } from 'lucide-react';
+
+interface MigrationHistoryCardProps {
+  instanceIds?: string[]; // Only show migrations touching these instances
+  limit?: number;
+}
+
+const statusLabels: Record<MigrationRecord['status'], string> = {
+  succeeded: 'Succeeded',
+  partial: 'Partially saved',
+  failed: 'Failed',
+};
+
+const MigrationHistoryCard: React.FC<MigrationHistoryCardProps> = ({ instanceIds, limit = 20 }) => {
+  const dispatch = useAppDispatch();
+  const { records, rollingBack } = useAppSelector((state) => state.migrations);
+  const { instances } = useAppSelector((state) => state.instances);
+  const { toast } = useToast();
+
+  const getInstanceName = (id: string) => instances.find(i => i.id === id)?.name || 'Unknown Instance';
+
+  const visibleRecords = records
+    .filter(record => !instanceIds || instanceIds.includes(record.targetInstanceId) || instanceIds.includes(record.sourceInstanceId))
+    .slice()
+    .reverse()
+    .slice(0, limit);
+
+  const handleRollback = async (record: MigrationRecord) => {
+    const result = await dispatch(rollbackMigration(record.id));
+    if (rollbackMigration.fulfilled.match(result) && result.payload.rollback.status === 'succeeded') {
+      toast({
+        title: "Rollback Successful",
+        description: `${result.payload.rollback.itemCount} ${record.itemLabel} restored on ${getInstanceName(record.targetInstanceId)}`,
+      });
+    } else {
+      toast({
+        title: "Rollback Failed",
+        description: rollbackMigration.fulfilled.match(result)
+          ? result.payload.rollback.error
+          : result.error.message || 'Failed to roll back migration',
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (visibleRecords.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <History className="h-5 w-5 text-primary" />
+          <span>Migration History</span>
+        </CardTitle>
+        <CardDescription>
+          Each migration keeps a backup of the target's previous values that can be posted back
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {visibleRecords.map(record => (
+          <div key={record.id} className="flex items-center justify-between rounded-lg border p-3">
+            <div className="space-y-1 min-w-0">
+              <div className="flex items-center space-x-2 text-sm">
+                <Badge variant={record.kind === 'rollback' ? 'secondary' : 'outline'} className="text-xs">
+                  {record.kind === 'rollback' ? 'Rollback' : 'Migration'}
+                </Badge>
+                {record.sourceInstanceId && (
+                  <>
+                    <span className="font-medium">{getInstanceName(record.sourceInstanceId)}</span>
+                    <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                  </>
+                )}
+                <span className="font-medium">{getInstanceName(record.targetInstanceId)}</span>
+                <span className="text-muted-foreground">• {record.itemCount} {record.itemLabel}</span>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {new Date(record.timestamp).toLocaleString()}
+                {record.backup && ` • backup from fetch at ${new Date(record.backup.capturedAt).toLocaleString()}`}
+                {record.kind === 'migration' && !record.backup && ' • no backup, target data was not fetched'}
+              </p>
+              {record.error && <p className="text-xs text-destructive">{record.error}</p>}
+              {getFailedItems(record).length > 0 && (
+                <ul className="text-xs text-muted-foreground space-y-0.5">
+                  {getFailedItems(record).slice(0, 5).map(item => (
+                    <li key={item.itemId}>
+                      <span className="font-mono">{item.itemId}</span>: {item.error}
+                    </li>
+                  ))}
+                  {getFailedItems(record).length > 5 && <li>+{getFailedItems(record).length - 5} more</li>}
+                </ul>
+              )}
+              {record.backup && record.backup.createdItems.length > 0 && !record.rolledBackBy && (
+                <p className="flex items-center text-xs text-warning">
+                  <AlertTriangle className="h-3 w-3 mr-1 shrink-0" />
+                  {record.backup.createdItems.length} item(s) were new on the target and stay after a rollback
+                </p>
+              )}
+            </div>
+            <div className="flex items-center space-x-2 shrink-0">
+              <Badge
+                variant={record.status === 'failed' ? 'destructive' : record.status === 'partial' ? 'outline' : 'default'}
+                className={`text-xs ${record.status === 'partial' ? 'border-warning text-warning' : ''}`}
+              >
+                {statusLabels[record.status]}
+              </Badge>
+              {record.rolledBackBy && <Badge variant="secondary" className="text-xs">Rolled back</Badge>}
+              {canRollBack(record) && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" size="sm" disabled={!!rollingBack}>
+                      <Undo2 className="h-4 w-4 mr-1" />
+                      {rollingBack === record.id ? 'Rolling back...' : 'Rollback'}
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Roll back this migration?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        The {record.backup.itemCount} captured value(s) will be posted back to {getInstanceName(record.targetInstanceId)} through {record.endpoint}.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <pre className="text-xs bg-muted/30 p-3 rounded border overflow-auto max-h-48">
+                      {JSON.stringify(record.backup.body, null, 2)}
+                    </pre>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => handleRollback(record)}>Roll Back</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MigrationHistoryCard;
@@ -0,0 +1,299 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ComparisonResult } from '@/store/slices/comparisonSlice';
+import { AFTER_KEY, BEFORE_KEY, CODE_TABLE_STRATEGIES, CodeTableMergeStrategy, MigrationItemResult } from '@/utils/migration';
+import { truncateValue } from '@/utils/jsonHelpers';
+import { AlertTriangle, Save, RotateCcw, CheckCircle2, XCircle, Loader2, Clock } from 'lucide-react';
+
+// One target of a previewed migration
+export interface MigrationPreviewTarget {
+  instanceId: string;
+  name: string;
+  body?: unknown; // Request body for this target; absent when it is skipped
+  itemCount: number;
+  skippedReason?: string; // Why nothing is posted to this target
+  capturedAt?: string; // When the target data the dry run used was fetched
+  changes: ComparisonResult[]; // Target before vs after, keyed by BEFORE_KEY / AFTER_KEY
+}
+
+// Outcome of posting to one target
+export interface MigrationTargetStatus {
+  state: 'pending' | 'running' | 'succeeded' | 'partial' | 'failed'; // Partial: some items were saved
+  error?: string;
+  batches?: { posted: number; total: number };
+  failedItems?: MigrationItemResult[]; // Items left to retry, with the reason they failed
+  verification?: { // Re-fetch and re-compare after a successful post
+    state: 'running' | 'done' | 'failed';
+    verified: number;
+    stillDifferent: number;
+    error?: string;
+  };
+}
+
+interface MigrationPreviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sourceName: string;
+  endpoint: string;
+  targets: MigrationPreviewTarget[];
+  strategy?: CodeTableMergeStrategy; // Code tables: how target-only records and key collisions are treated
+  confirming: boolean;
+  onConfirm: () => void;
+  statuses?: Record<string, MigrationTargetStatus>; // Set once the migration has started
+  onRetryFailed?: () => void;
+}
+
+const changeLabels: Record<string, string> = {
+  added: 'New',
+  deleted: 'Removed',
+  edited: 'Changed',
+  moved: 'Moved',
+};
+
+const changeClasses: Record<string, string> = {
+  added: 'border-success text-success',
+  deleted: 'border-destructive text-destructive',
+  edited: 'border-warning text-warning',
+  moved: 'border-primary text-primary',
+};
+
+const statusBadges: Record<MigrationTargetStatus['state'], { label: string; icon: React.ElementType; className: string }> = {
+  pending: { label: 'Queued', icon: Clock, className: 'text-muted-foreground' },
+  running: { label: 'Posting', icon: Loader2, className: 'text-primary' },
+  succeeded: { label: 'Succeeded', icon: CheckCircle2, className: 'text-success' },
+  partial: { label: 'Partially saved', icon: AlertTriangle, className: 'text-warning' },
+  failed: { label: 'Failed', icon: XCircle, className: 'text-destructive' },
+};
+
+const formatSide = (value: unknown) => (value === undefined || value === 'MISSING' ? '—' : truncateValue(value, 60));
+
+const MigrationPreviewDialog: React.FC<MigrationPreviewDialogProps> = ({
+  open,
+  onOpenChange,
+  sourceName,
+  endpoint,
+  targets,
+  strategy,
+  confirming,
+  onConfirm,
+  statuses,
+  onRetryFailed,
+}) => {
+  const postedTargets = targets.filter(target => !target.skippedReason);
+  const started = !!statuses && Object.keys(statuses).length > 0;
+  const failedCount = started
+    ? postedTargets.filter(target => {
+        const state = statuses[target.instanceId]?.state;
+        return state === 'failed' || state === 'partial';
+      }).length
+    : 0;
+
+  const renderDetails = (target: MigrationPreviewTarget, status?: MigrationTargetStatus) => {
+    const failedItems = status?.failedItems || [];
+    return (
+      <div className="space-y-1">
+        <span>{status?.error || status?.verification?.error || target.skippedReason || ''}</span>
+        {failedItems.length > 0 && (
+          <ul className="space-y-0.5">
+            {failedItems.slice(0, 5).map(item => (
+              <li key={item.itemId}>
+                <span className="font-mono">{item.itemId}</span>: {item.error}
+              </li>
+            ))}
+            {failedItems.length > 5 && <li>+{failedItems.length - 5} more</li>}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
+  const renderVerification = (status?: MigrationTargetStatus) => {
+    const verification = status?.verification;
+    if (!verification) return <span className="text-muted-foreground">—</span>;
+    if (verification.state === 'running') {
+      return (
+        <span className="flex items-center space-x-1 text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          <span>Re-fetching...</span>
+        </span>
+      );
+    }
+    if (verification.state === 'failed') return <span className="text-destructive">Could not verify</span>;
+    return (
+      <span className={verification.stillDifferent > 0 ? 'text-warning' : 'text-success'}>
+        {verification.verified} verified{verification.stillDifferent > 0 && `, ${verification.stillDifferent} still different`}
+      </span>
+    );
+  };
+
+  const renderChanges = (target: MigrationPreviewTarget) => {
+    if (target.skippedReason) {
+      return <p className="text-sm text-muted-foreground py-2">Skipped: {target.skippedReason}</p>;
+    }
+    if (target.changes.length === 0) {
+      return <p className="text-sm text-muted-foreground py-4 text-center">{target.name} already matches; posting would change nothing.</p>;
+    }
+    return (
+      <div className="overflow-x-auto rounded border max-h-80 overflow-y-auto">
+        <table className="w-full text-xs">
+          <thead className="bg-muted/50 sticky top-0">
+            <tr>
+              <th className="px-2 py-1 text-left font-medium text-muted-foreground">Change</th>
+              <th className="px-2 py-1 text-left font-medium text-muted-foreground">Path</th>
+              <th className="px-2 py-1 text-left font-medium text-muted-foreground">Before</th>
+              <th className="px-2 py-1 text-left font-medium text-muted-foreground">After</th>
+            </tr>
+          </thead>
+          <tbody>
+            {target.changes.map(change => (
+              <tr key={change.path} className="border-t align-top">
+                <td className="px-2 py-1">
+                  <Badge variant="outline" className={`text-xs ${changeClasses[change.type] || ''}`}>
+                    {changeLabels[change.type] || change.type}
+                  </Badge>
+                </td>
+                <td className="px-2 py-1 font-mono">{change.path}</td>
+                <td className="px-2 py-1 font-mono text-muted-foreground">{formatSide(change.values[BEFORE_KEY])}</td>
+                <td className="px-2 py-1 font-mono">{formatSide(change.values[AFTER_KEY])}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Migration Preview</DialogTitle>
+          <DialogDescription>
+            Dry run from {sourceName}: nothing has been posted yet
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Merge Strategy */}
+        {strategy && (
+          <div className="flex items-center space-x-2 text-sm">
+            <Badge variant="outline">{CODE_TABLE_STRATEGIES[strategy].label}</Badge>
+            <span className="text-muted-foreground">{CODE_TABLE_STRATEGIES[strategy].description}</span>
+          </div>
+        )}
+
+        {/* Result Matrix */}
+        {started && (
+          <div className="overflow-x-auto rounded border">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-muted-foreground">Target</th>
+                  <th className="px-3 py-2 text-left font-medium text-muted-foreground">Items</th>
+                  <th className="px-3 py-2 text-left font-medium text-muted-foreground">Status</th>
+                  <th className="px-3 py-2 text-left font-medium text-muted-foreground">Verification</th>
+                  <th className="px-3 py-2 text-left font-medium text-muted-foreground">Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {targets.map(target => {
+                  const status = statuses[target.instanceId];
+                  const badge = status && statusBadges[status.state];
+                  const Icon = badge?.icon;
+                  return (
+                    <tr key={target.instanceId} className="border-t">
+                      <td className="px-3 py-2 font-medium">{target.name}</td>
+                      <td className="px-3 py-2">{target.skippedReason ? '—' : target.itemCount}</td>
+                      <td className="px-3 py-2">
+                        {badge ? (
+                          <span className={`flex items-center space-x-1 ${badge.className}`}>
+                            <Icon className={`h-4 w-4 ${status.state === 'running' ? 'animate-spin' : ''}`} />
+                            <span>{badge.label}</span>
+                            {status.state === 'running' && status.batches && status.batches.total > 1 && (
+                              <span className="text-xs text-muted-foreground">
+                                (batch {status.batches.posted + 1} of {status.batches.total})
+                              </span>
+                            )}
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground">Skipped</span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-xs">{renderVerification(status)}</td>
+                      <td className="px-3 py-2 text-xs text-muted-foreground">{renderDetails(target, status)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <Tabs defaultValue="changes">
+          <TabsList>
+            <TabsTrigger value="changes">Target Changes</TabsTrigger>
+            <TabsTrigger value="body">Request Body</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="changes" className="space-y-4">
+            {targets.map(target => (
+              <div key={target.instanceId} className="space-y-2">
+                <div className="flex items-center space-x-2">
+                  <span className="font-medium text-sm">{target.name}</span>
+                  {!target.skippedReason && (
+                    <Badge variant="secondary" className="text-xs">{target.changes.length} change(s)</Badge>
+                  )}
+                  {target.capturedAt && (
+                    <span className="text-xs text-muted-foreground">
+                      Target data as of {new Date(target.capturedAt).toLocaleString()}
+                    </span>
+                  )}
+                </div>
+                {renderChanges(target)}
+              </div>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="body" className="space-y-4">
+            <p className="text-xs text-muted-foreground">POST <code className="font-mono">{endpoint}</code></p>
+            {postedTargets.map(target => (
+              <div key={target.instanceId} className="space-y-1">
+                {targets.length > 1 && <p className="text-sm font-medium">{target.name}</p>}
+                <pre className="text-xs bg-muted/30 p-3 rounded border overflow-auto max-h-96">
+                  {JSON.stringify(target.body, null, 2)}
+                </pre>
+              </div>
+            ))}
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={confirming}>
+            {started ? 'Close' : 'Cancel'}
+          </Button>
+          {started ? (
+            failedCount > 0 && onRetryFailed && (
+              <Button onClick={onRetryFailed} disabled={confirming}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Retry Failed ({failedCount})
+              </Button>
+            )
+          ) : (
+            <Button onClick={onConfirm} disabled={confirming || postedTargets.length === 0}>
+              {confirming ? (
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+              ) : (
+                <Save className="h-4 w-4 mr-2" />
+              )}
+              {postedTargets.length > 1 ? `Confirm Migration to ${postedTargets.length} Targets` : 'Confirm Migration'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MigrationPreviewDialog;
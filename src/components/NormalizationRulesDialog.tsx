@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { useAppDispatch, useAppSelector } from '@/hooks/useRedux';
+import { addNormalizationRule, deleteNormalizationRule } from '@/store/slices/comparisonSlice';
+import { NORMALIZATION_STEPS, NormalizationStep } from '@/utils/normalization';
+import { Plus, Trash2, Wand2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface NormalizationRulesDialogProps {
+  comparisonTypes: { value: string; label: string }[];
+  defaultComparisonType: string;
+}
+
+const NormalizationRulesDialog: React.FC<NormalizationRulesDialogProps> = ({ comparisonTypes, defaultComparisonType }) => {
+  const dispatch = useAppDispatch();
+  const { normalizationRules } = useAppSelector((state) => state.comparison);
+  const { toast } = useToast();
+
+  const [newRule, setNewRule] = useState({
+    comparisonType: defaultComparisonType,
+    field: '',
+    steps: [] as NormalizationStep[],
+  });
+
+  const getTypeLabel = (value: string) =>
+    value === '*' ? 'All types' : comparisonTypes.find(t => t.value === value)?.label || value;
+
+  const getStepLabel = (step: NormalizationStep) =>
+    NORMALIZATION_STEPS.find(s => s.value === step)?.label || step;
+
+  // Steps run in the order they were ticked
+  const toggleStep = (step: NormalizationStep, checked: boolean) => {
+    setNewRule({
+      ...newRule,
+      steps: checked ? [...newRule.steps, step] : newRule.steps.filter(s => s !== step),
+    });
+  };
+
+  const handleAddRule = () => {
+    if (!newRule.field || newRule.steps.length === 0) {
+      toast({
+        title: "Validation Error",
+        description: "Please provide a field pattern and at least one step",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    dispatch(addNormalizationRule(newRule));
+    setNewRule({ ...newRule, field: '', steps: [] });
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Wand2 className="h-4 w-4 mr-2" />
+          Normalization
+          {normalizationRules.length > 0 && (
+            <Badge variant="secondary" className="ml-2 text-xs">{normalizationRules.length}</Badge>
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Normalization Rules</DialogTitle>
+          <DialogDescription>
+            Values are normalized before they are compared. Raw values are still shown in the results
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {normalizationRules.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No normalization rules defined</p>
+          ) : (
+            normalizationRules.map((rule) => (
+              <div key={rule.id} className="flex items-center space-x-3 rounded-lg border p-3">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <code className="font-medium text-sm">{rule.field}</code>
+                    <Badge variant="outline" className="text-xs">{getTypeLabel(rule.comparisonType)}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {rule.steps.map(getStepLabel).join(' → ')}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => dispatch(deleteNormalizationRule(rule.id))}
+                  className="text-destructive hover:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="space-y-4 border-t pt-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="normalization-rule-field">Field *</Label>
+              <Input
+                id="normalization-rule-field"
+                className="font-mono"
+                placeholder="e.g., Data or **.url"
+                value={newRule.field}
+                onChange={(e) => setNewRule({ ...newRule, field: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Field name or path, * matches one segment, ** any depth
+              </p>
+            </div>
+            <div>
+              <Label>Comparison Type</Label>
+              <Select value={newRule.comparisonType} onValueChange={(value) => setNewRule({ ...newRule, comparisonType: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="*">All types</SelectItem>
+                  {comparisonTypes.map(type => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div>
+            <Label>Steps</Label>
+            <div className="grid grid-cols-3 gap-2 mt-2">
+              {NORMALIZATION_STEPS.map(step => (
+                <div key={step.value} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`normalization-step-${step.value}`}
+                    checked={newRule.steps.includes(step.value)}
+                    onCheckedChange={(checked) => toggleStep(step.value, checked === true)}
+                  />
+                  <Label htmlFor={`normalization-step-${step.value}`} className="text-sm font-normal">
+                    {step.label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+            {newRule.steps.length > 0 && (
+              <p className="text-xs text-muted-foreground mt-2">
+                Order: {newRule.steps.map(getStepLabel).join(' → ')}
+              </p>
+            )}
+          </div>
+          <Button type="button" variant="outline" size="sm" onClick={handleAddRule}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NormalizationRulesDialog;
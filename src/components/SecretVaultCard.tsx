@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAppDispatch, useAppSelector } from '@/hooks/useRedux';
+import { createVault, lockVault, unlockVault } from '@/store/slices/vaultSlice';
+import { useToast } from '@/hooks/use-toast';
+import { Lock, LockOpen, ShieldCheck, AlertTriangle } from 'lucide-react';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const SecretVaultCard: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const { status, secretCount, unlocking, error } = useAppSelector((state) => state.vault);
+  const legacyCount = useAppSelector((state) => state.instances.instances.filter(i => !!i.authKey).length);
+  const { toast } = useToast();
+
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+
+  const handleCreate = async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      toast({
+        title: "Passphrase Too Short",
+        description: `Use at least ${MIN_PASSPHRASE_LENGTH} characters`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (passphrase !== confirmation) {
+      toast({
+        title: "Passphrases Differ",
+        description: "Enter the same passphrase twice",
+        variant: "destructive",
+      });
+      return;
+    }
+    const result = await dispatch(createVault(passphrase));
+    if (createVault.fulfilled.match(result)) {
+      setPassphrase('');
+      setConfirmation('');
+      toast({
+        title: "Vault Created",
+        description: "Instance credentials are now stored encrypted",
+      });
+    }
+  };
+
+  const handleUnlock = async () => {
+    const result = await dispatch(unlockVault(passphrase));
+    if (unlockVault.fulfilled.match(result)) {
+      setPassphrase('');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <ShieldCheck className="h-5 w-5 text-primary" />
+            <span>Secret Vault</span>
+          </CardTitle>
+          {status === 'unlocked' ? (
+            <Badge variant="default" className="text-xs">
+              <LockOpen className="mr-1 h-3 w-3" />
+              Unlocked
+            </Badge>
+          ) : (
+            <Badge variant="secondary" className="text-xs">
+              <Lock className="mr-1 h-3 w-3" />
+              {status === 'none' ? 'Not set up' : 'Locked'}
+            </Badge>
+          )}
+        </div>
+        <CardDescription>
+          Instance credentials are encrypted with a passphrase and stay unlocked until the browser session ends
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status === 'unlocked' ? (
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              {secretCount} secret{secretCount !== 1 ? 's' : ''} stored
+            </p>
+            <Button variant="outline" size="sm" onClick={() => dispatch(lockVault())}>
+              <Lock className="mr-2 h-4 w-4" />
+              Lock
+            </Button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-3 md:items-end">
+            <div>
+              <Label htmlFor="vault-passphrase">Passphrase</Label>
+              <Input
+                id="vault-passphrase"
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && status === 'locked' && handleUnlock()}
+                className="mt-1"
+              />
+            </div>
+            {status === 'none' && (
+              <div>
+                <Label htmlFor="vault-passphrase-confirm">Confirm Passphrase</Label>
+                <Input
+                  id="vault-passphrase-confirm"
+                  type="password"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+            )}
+            <Button onClick={status === 'none' ? handleCreate : handleUnlock} disabled={unlocking || !passphrase}>
+              {status === 'none' ? 'Create Vault' : unlocking ? 'Unlocking...' : 'Unlock'}
+            </Button>
+          </div>
+        )}
+
+        {legacyCount > 0 && (
+          <div className="flex items-start space-x-2 rounded-md border border-warning/30 bg-warning/5 p-3 text-sm">
+            <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-warning" />
+            <span>
+              {legacyCount} instance(s) still have plain-text credentials in localStorage.
+              {status === 'none' ? ' Create' : ' Unlock'} the vault to move them into it.
+            </span>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SecretVaultCard;
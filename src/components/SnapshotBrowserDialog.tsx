@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { useAppDispatch, useAppSelector } from '@/hooks/useRedux';
+import { deleteSnapshot, getInstanceSnapshots, selectSnapshot } from '@/store/slices/snapshotsSlice';
+import { loadSnapshotData } from '@/utils/indexedDbStorage';
+import { History, Eye, Trash2, CheckCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import ReactJson from "@microlink/react-json-view";
+
+interface SnapshotBrowserDialogProps {
+  instanceId: string;
+  instanceName: string;
+  comparisonTypes: { value: string; label: string }[];
+  currentComparisonType: string;
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const SnapshotBrowserDialog: React.FC<SnapshotBrowserDialogProps> = ({ instanceId, instanceName, comparisonTypes, currentComparisonType }) => {
+  const dispatch = useAppDispatch();
+  const { snapshots, selectedSnapshots } = useAppSelector((state) => state.snapshots);
+  const latestSnapshotId = useAppSelector((state) => state.instances.instanceData[instanceId]?.snapshotId);
+  const { toast } = useToast();
+
+  const [typeFilter, setTypeFilter] = useState<string>(currentComparisonType);
+  const [viewing, setViewing] = useState<{ id: string; data: unknown } | null>(null);
+
+  const snapshotCount = getInstanceSnapshots(snapshots, instanceId).length;
+  const instanceSnapshots = getInstanceSnapshots(snapshots, instanceId, typeFilter === 'all' ? undefined : typeFilter)
+    .slice()
+    .reverse(); // Newest first
+  const selectedSnapshotId = selectedSnapshots[instanceId];
+
+  const getTypeLabel = (value: string) => comparisonTypes.find(t => t.value === value)?.label || value;
+
+  const handleView = async (snapshotId: string) => {
+    if (viewing?.id === snapshotId) {
+      setViewing(null);
+      return;
+    }
+    try {
+      setViewing({ id: snapshotId, data: await loadSnapshotData(snapshotId) });
+    } catch (error) {
+      toast({
+        title: "Snapshot Unavailable",
+        description: error instanceof Error ? error.message : 'Failed to load snapshot data',
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (snapshotId: string) => {
+    const result = await dispatch(deleteSnapshot(snapshotId));
+    if (deleteSnapshot.rejected.match(result)) {
+      toast({
+        title: "Delete Failed",
+        description: result.error.message || 'Failed to delete snapshot',
+        variant: "destructive",
+      });
+    } else if (viewing?.id === snapshotId) {
+      setViewing(null);
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <History className="h-4 w-4 mr-2" />
+          History
+          {snapshotCount > 0 && (
+            <Badge variant="secondary" className="ml-2 text-xs">{snapshotCount}</Badge>
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Snapshots of {instanceName}</DialogTitle>
+          <DialogDescription>
+            Every fetch is kept as a read-only snapshot. Pick one to compare instead of the latest fetch.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Select value={typeFilter} onValueChange={setTypeFilter}>
+            <SelectTrigger className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All comparison types</SelectItem>
+              {comparisonTypes.map(type => (
+                <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {instanceSnapshots.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No snapshots stored yet</p>
+          ) : (
+            <div className="space-y-2">
+              {instanceSnapshots.map(snapshot => (
+                <div key={snapshot.id} className="rounded-lg border p-3 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-1">
+                      <div className="flex items-center space-x-2">
+                        <span className="font-medium text-sm">{new Date(snapshot.timestamp).toLocaleString()}</span>
+                        <Badge variant="outline" className="text-xs">{getTypeLabel(snapshot.comparisonType)}</Badge>
+                        {snapshot.id === latestSnapshotId && (
+                          <Badge variant="secondary" className="text-xs">Latest</Badge>
+                        )}
+                        {snapshot.id === selectedSnapshotId && (
+                          <Badge className="text-xs">Selected</Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">{formatSize(snapshot.size)}</p>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      {snapshot.comparisonType === currentComparisonType && snapshot.id !== selectedSnapshotId && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => dispatch(selectSnapshot({ instanceId, snapshotId: snapshot.id }))}
+                        >
+                          <CheckCircle className="h-3 w-3 mr-1" />
+                          Compare this
+                        </Button>
+                      )}
+                      <Button variant="outline" size="sm" onClick={() => handleView(snapshot.id)}>
+                        <Eye className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(snapshot.id)}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                  {viewing?.id === snapshot.id && (
+                    <div className="max-h-80 overflow-auto rounded border bg-muted/30 p-2">
+                      <ReactJson
+                        src={viewing.data as object}
+                        theme="bright"
+                        collapsed={2}
+                        displayDataTypes={false}
+                        displayObjectSize={false}
+                        enableClipboard={false}
+                        name={false}
+                      />
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SnapshotBrowserDialog;
@@ -0,0 +1,88 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { useAppDispatch, useAppSelector } from '@/hooks/useRedux';
+import { clearStorageError, refreshStorageEstimate } from '@/store/slices/storageSlice';
+import { HardDrive, RefreshCw, AlertTriangle, X } from 'lucide-react';
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+};
+
+const StorageUsageCard: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const { hydrated, usage, quota, migration, error } = useAppSelector((state) => state.storage);
+  const sessionCount = useAppSelector((state) => state.comparison.sessions.length);
+  const payloadCount = useAppSelector((state) => Object.keys(state.instances.instanceData).length);
+
+  const usagePercent = usage !== null && quota ? Math.min(100, (usage / quota) * 100) : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <HardDrive className="h-5 w-5 text-primary" />
+            <span>Browser Storage</span>
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={() => dispatch(refreshStorageEstimate())} disabled={!hydrated}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+        </div>
+        <CardDescription>
+          Comparison sessions and fetched data are stored in IndexedDB
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!hydrated ? (
+          <p className="text-sm text-muted-foreground">Loading stored data...</p>
+        ) : (
+          <>
+            {usagePercent !== null ? (
+              <div className="space-y-2">
+                <Progress value={usagePercent} />
+                <p className="text-sm text-muted-foreground">
+                  {formatBytes(usage)} of {formatBytes(quota)} used ({usagePercent.toFixed(1)}%)
+                </p>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">This browser does not report storage usage</p>
+            )}
+            <p className="text-sm text-muted-foreground">
+              {sessionCount} session{sessionCount !== 1 ? 's' : ''} and fetched data for {payloadCount} instance{payloadCount !== 1 ? 's' : ''}
+            </p>
+            {migration && (migration.sessions > 0 || migration.instances > 0) && (
+              <p className="text-sm text-muted-foreground">
+                Moved {migration.sessions} session(s) and data for {migration.instances} instance(s) from localStorage
+              </p>
+            )}
+          </>
+        )}
+
+        {error && (
+          <div className="flex items-start justify-between rounded-md border border-destructive/30 bg-destructive/5 p-3">
+            <div className="flex items-start space-x-2 text-sm text-destructive">
+              <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+              <span>{error}</span>
+            </div>
+            <Button variant="ghost" size="sm" className="h-auto p-1" onClick={() => dispatch(clearStorageError())}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StorageUsageCard;
@@ -0,0 +1,176 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAppDispatch, useAppSelector } from '@/hooks/useRedux';
+import { runTemporalComparison } from '@/store/slices/comparisonSlice';
+import { getInstanceSnapshots } from '@/store/slices/snapshotsSlice';
+import { History, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useNavigate } from 'react-router-dom';
+
+interface TemporalComparisonCardProps {
+  comparisonTypeLabel: string;
+  comparisonRef: React.MutableRefObject<{ abort: () => void } | null>;
+}
+
+const TemporalComparisonCard: React.FC<TemporalComparisonCardProps> = ({ comparisonTypeLabel, comparisonRef }) => {
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+  const { instances } = useAppSelector((state) => state.instances);
+  const { comparisonType, currentFetchEndpoint, loading: comparing } = useAppSelector((state) => state.comparison);
+  const { snapshots } = useAppSelector((state) => state.snapshots);
+  const { toast } = useToast();
+
+  const [instanceId, setInstanceId] = useState('');
+  const [fromSnapshotId, setFromSnapshotId] = useState('');
+  const [toSnapshotId, setToSnapshotId] = useState('');
+  const [includeIntermediate, setIncludeIntermediate] = useState(false);
+
+  const instanceSnapshots = instanceId ? getInstanceSnapshots(snapshots, instanceId, comparisonType) : [];
+  const fromSnapshot = instanceSnapshots.find(s => s.id === fromSnapshotId);
+  const toSnapshot = instanceSnapshots.find(s => s.id === toSnapshotId);
+  const rangeSnapshots = fromSnapshot && toSnapshot
+    ? instanceSnapshots.filter(s => s.timestamp >= fromSnapshot.timestamp && s.timestamp <= toSnapshot.timestamp)
+    : [];
+
+  // Snapshots belong to one instance and comparison type
+  useEffect(() => {
+    setFromSnapshotId('');
+    setToSnapshotId('');
+  }, [instanceId, comparisonType]);
+
+  const handleStart = async () => {
+    if (!fromSnapshot || !toSnapshot || fromSnapshot.timestamp >= toSnapshot.timestamp) {
+      toast({
+        title: "Selection Required",
+        description: "Please choose an earlier and a later snapshot",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const instanceName = instances.find(i => i.id === instanceId)?.name || 'Instance';
+    const chosen = includeIntermediate ? rangeSnapshots : [fromSnapshot, toSnapshot];
+    const comparison = dispatch(runTemporalComparison({
+      name: `${instanceName} ${comparisonTypeLabel} over time - ${new Date().toLocaleString()}`,
+      instanceId,
+      endpoint: currentFetchEndpoint,
+      snapshots: chosen.map(s => ({ id: s.id, timestamp: s.timestamp })),
+    }));
+    comparisonRef.current = comparison;
+    const result = await comparison;
+    comparisonRef.current = null;
+
+    if (runTemporalComparison.fulfilled.match(result)) {
+      toast({
+        title: "Comparison Complete",
+        description: "Change log ready! Redirecting to Summary page...",
+      });
+      setTimeout(() => {
+        navigate('/summary');
+      }, 1000);
+    } else if (result.meta.aborted) {
+      toast({
+        title: "Comparison Cancelled",
+        description: "The comparison was stopped before it finished",
+      });
+    } else {
+      toast({
+        title: "Comparison Failed",
+        description: result.error.message || "The comparison could not be completed",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <History className="h-5 w-5 text-primary" />
+          <span>Compare Over Time</span>
+        </CardTitle>
+        <CardDescription>
+          See what changed in one instance between two of its snapshots
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <div>
+            <Label className="mb-2 block">Instance</Label>
+            <Select value={instanceId} onValueChange={setInstanceId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select instance..." />
+              </SelectTrigger>
+              <SelectContent>
+                {instances.map(instance => (
+                  <SelectItem key={instance.id} value={instance.id}>{instance.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="mb-2 block">From</Label>
+            <Select value={fromSnapshotId} onValueChange={setFromSnapshotId} disabled={instanceSnapshots.length < 2}>
+              <SelectTrigger>
+                <SelectValue placeholder="Earlier snapshot..." />
+              </SelectTrigger>
+              <SelectContent>
+                {instanceSnapshots.slice(0, -1).map(snapshot => (
+                  <SelectItem key={snapshot.id} value={snapshot.id}>{new Date(snapshot.timestamp).toLocaleString()}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="mb-2 block">To</Label>
+            <Select value={toSnapshotId} onValueChange={setToSnapshotId} disabled={!fromSnapshot}>
+              <SelectTrigger>
+                <SelectValue placeholder="Later snapshot..." />
+              </SelectTrigger>
+              <SelectContent>
+                {instanceSnapshots
+                  .filter(snapshot => fromSnapshot && snapshot.timestamp > fromSnapshot.timestamp)
+                  .map(snapshot => (
+                    <SelectItem key={snapshot.id} value={snapshot.id}>{new Date(snapshot.timestamp).toLocaleString()}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {instanceId && instanceSnapshots.length < 2 && (
+          <p className="text-sm text-muted-foreground">
+            At least 2 {comparisonTypeLabel} snapshots of this instance are needed. Fetch data again to take a new snapshot.
+          </p>
+        )}
+
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Switch id="include-intermediate" checked={includeIntermediate} onCheckedChange={setIncludeIntermediate} />
+            <Label htmlFor="include-intermediate" className="text-sm">
+              Include every snapshot in between
+              {includeIntermediate && rangeSnapshots.length > 0 && ` (${rangeSnapshots.length} snapshots)`}
+            </Label>
+          </div>
+          {comparing ? (
+            <Button variant="outline" onClick={() => comparisonRef.current?.abort()}>
+              <X className="mr-2 h-4 w-4" />
+              Cancel
+            </Button>
+          ) : (
+            <Button onClick={handleStart} disabled={!fromSnapshot || !toSnapshot}>
+              <History className="mr-2 h-4 w-4" />
+              Compare Snapshots
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TemporalComparisonCard;
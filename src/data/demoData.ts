@@ -6,7 +6,6 @@ export const demoInstances: Instance[] = [
     id: 'prod-001',
     name: 'Production',
     url: 'https://api.production.example.com',
-    authKey: 'prod_key_abc123',
     isActive: true,
     status: 'connected',
     lastSync: new Date(Date.now() - 5 * 60 * 1000).toISOString(), // 5 minutes ago
@@ -15,7 +14,6 @@ export const demoInstances: Instance[] = [
     id: 'staging-001',
     name: 'Staging',
     url: 'https://api.staging.example.com',
-    authKey: 'staging_key_def456',
     isActive: true,
     status: 'connected',
     lastSync: new Date(Date.now() - 2 * 60 * 1000).toISOString(), // 2 minutes ago
@@ -24,7 +22,6 @@ export const demoInstances: Instance[] = [
     id: 'dev-001',
     name: 'Development',
     url: 'https://api.dev.example.com',
-    authKey: 'dev_key_ghi789',
     isActive: true,
     status: 'connected',
     lastSync: new Date(Date.now() - 1 * 60 * 1000).toISOString(), // 1 minute ago
@@ -33,7 +30,6 @@ export const demoInstances: Instance[] = [
     id: 'test-001',
     name: 'Test Environment',
     url: 'https://api.test.example.com',
-    authKey: 'test_key_jkl012',
     isActive: false,
     status: 'disconnected',
   },
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAppSelector, useAppDispatch } from '@/hooks/useRedux';
+import { setOperatorName } from '@/store/slices/auditSlice';
+import { auditEntriesToCsv, downloadFile, searchAuditEntries } from '@/utils/auditLog';
+import { ScrollText, Search, Download, User, ArrowRight } from 'lucide-react';
+
+const AuditLog: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const { entries, operatorName } = useAppSelector((state) => state.audit);
+
+  const [query, setQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState<'all' | 'succeeded' | 'failed'>('all');
+
+  // Newest first
+  const filteredEntries = searchAuditEntries(entries, query)
+    .filter(entry => statusFilter === 'all' || (statusFilter === 'succeeded') === entry.succeeded)
+    .slice()
+    .reverse();
+
+  const handleExport = (format: 'csv' | 'json') => {
+    const fileName = `save-audit-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+    if (format === 'csv') {
+      downloadFile(fileName, auditEntriesToCsv(filteredEntries), 'text/csv');
+    } else {
+      downloadFile(fileName, JSON.stringify(filteredEntries, null, 2), 'application/json');
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Audit Log</h1>
+        <p className="mt-2 text-muted-foreground">
+          Every call to a save endpoint, who made it and what was posted
+        </p>
+      </div>
+
+      {/* Operator */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <User className="h-5 w-5 text-primary" />
+            <span>Operator</span>
+          </CardTitle>
+          <CardDescription>Recorded with every save made from this browser</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="max-w-sm space-y-2">
+            <Label htmlFor="operator-name">Operator Name</Label>
+            <Input
+              id="operator-name"
+              value={operatorName}
+              onChange={(e) => dispatch(setOperatorName(e.target.value))}
+              placeholder="e.g. Jane Doe"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Entries */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center space-x-2">
+                <ScrollText className="h-5 w-5 text-primary" />
+                <span>Save Calls</span>
+              </CardTitle>
+              <CardDescription>
+                {filteredEntries.length} of {entries.length} entries
+              </CardDescription>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Button variant="outline" size="sm" onClick={() => handleExport('csv')} disabled={filteredEntries.length === 0}>
+                <Download className="h-4 w-4 mr-2" />
+                CSV
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleExport('json')} disabled={filteredEntries.length === 0}>
+                <Download className="h-4 w-4 mr-2" />
+                JSON
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col gap-4 md:flex-row">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search operator, instance, item, endpoint or hash..."
+                className="pl-9"
+              />
+            </div>
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as typeof statusFilter)}>
+              <SelectTrigger className="md:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                <SelectItem value="succeeded">Succeeded</SelectItem>
+                <SelectItem value="failed">Failed</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {filteredEntries.length === 0 ? (
+            <div className="text-center py-8">
+              <ScrollText className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">
+                {entries.length === 0 ? 'No save calls recorded yet' : 'No entries match the search'}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {filteredEntries.map(entry => (
+                <div key={entry.id} className="rounded-lg border p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2 text-sm">
+                      <Badge variant="outline" className="text-xs capitalize">{entry.kind}</Badge>
+                      {entry.sourceName && (
+                        <>
+                          <span className="font-medium">{entry.sourceName}</span>
+                          <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                        </>
+                      )}
+                      <span className="font-medium">{entry.targetName}</span>
+                      {entry.comparisonType && (
+                        <Badge variant="secondary" className="text-xs">{entry.comparisonType}</Badge>
+                      )}
+                    </div>
+                    <Badge variant={entry.succeeded ? 'default' : 'destructive'} className="text-xs">
+                      {entry.responseStatus ?? 'No response'}
+                    </Badge>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                    <span>{new Date(entry.timestamp).toLocaleString()}</span>
+                    <span>by {entry.operator || 'unknown operator'}</span>
+                    <span className="font-mono truncate max-w-xs" title={entry.endpoint}>{entry.endpoint}</span>
+                    <span className="font-mono" title={entry.payloadHash}>{entry.payloadHash.slice(0, 20)}…</span>
+                    <span>{entry.payloadSize} bytes</span>
+                  </div>
+                  {entry.itemIds.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {entry.itemIds.slice(0, 8).map(itemId => (
+                        <Badge key={itemId} variant="secondary" className="text-xs font-mono">{itemId}</Badge>
+                      ))}
+                      {entry.itemIds.length > 8 && (
+                        <Badge variant="secondary" className="text-xs">+{entry.itemIds.length - 8} more</Badge>
+                      )}
+                    </div>
+                  )}
+                  {entry.error && <p className="text-xs text-destructive">{entry.error}</p>}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AuditLog;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -8,30 +8,54 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Progress } from '@/components/ui/progress';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { useAppDispatch, useAppSelector } from '@/hooks/useRedux';
 import { fetchInstanceData } from '@/store/slices/instancesSlice';
-import { setSelectedInstances, setBaseInstanceId, setComparisonType, createComparisonSession, ComparisonData, addCustomComparisonType, updateCustomComparisonType, deleteCustomComparisonType, updateBuiltInEndpoints } from '@/store/slices/comparisonSlice';
-import { GitCompare, Settings, Database, ToggleLeft, Play, Loader2, Copy, Check, Plus, Trash2, Edit } from 'lucide-react';
+import { setSelectedInstances, setBaseInstanceId, setComparisonType, runComparison, ComparisonData, SnapshotRef, addCustomComparisonType, updateCustomComparisonType, deleteCustomComparisonType, updateBuiltInEndpoints, setFeatureToggleFields, setArrayMatching, FEATURE_TOGGLE_COMPARABLE_FIELDS } from '@/store/slices/comparisonSlice';
+import { selectSnapshot, getInstanceSnapshots } from '@/store/slices/snapshotsSlice';
+import { ArrayMatchStrategy } from '@/utils/arrayDiff';
+import { GitCompare, Settings, Database, ToggleLeft, Play, Loader2, Copy, Check, Plus, Trash2, Edit, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useNavigate } from 'react-router-dom';
 import ReactJson from "@microlink/react-json-view";
+import IgnoreRulesDialog from '@/components/IgnoreRulesDialog';
+import NormalizationRulesDialog from '@/components/NormalizationRulesDialog';
+import SnapshotBrowserDialog from '@/components/SnapshotBrowserDialog';
+import TemporalComparisonCard from '@/components/TemporalComparisonCard';
+import FetchStatusGrid from '@/components/FetchStatusGrid';
 
 const Compare: React.FC = () => {
   const dispatch = useAppDispatch();
   const navigate = useNavigate();
-  const { instances, instanceData, loading } = useAppSelector((state) => state.instances);
-  const { selectedInstances, baseInstanceId, comparisonType, currentFetchEndpoint, currentSaveEndpoint, customTypes, builtInEndpoints } = useAppSelector((state) => state.comparison);
+  const { instances, instanceData, fetchStates } = useAppSelector((state) => state.instances);
+  const { selectedInstances, baseInstanceId, comparisonType, currentFetchEndpoint, currentSaveEndpoint, customTypes, builtInEndpoints, featureToggleFields, arrayMatching, loading: comparing, comparisonProgress } = useAppSelector((state) => state.comparison);
+  const { snapshots, selectedSnapshots } = useAppSelector((state) => state.snapshots);
   const { toast } = useToast();
   
   const [sessionName, setSessionName] = useState('');
   const [copiedInstances, setCopiedInstances] = useState<Set<string>>(new Set());
+  const comparisonRef = useRef<{ abort: () => void } | null>(null); // Running comparison, across instances or over time
+  const fetchRefs = useRef<Array<{ abort: () => void }>>([]); // Running fetches, one per instance
+  const [fetching, setFetching] = useState(false);
+  const [unconfirmedComparison, setUnconfirmedComparison] = useState<{ instanceIds: string[]; unknownIds: string[] } | null>(null);
   const [showCustomTypeDialog, setShowCustomTypeDialog] = useState(false);
   const [showEditEndpointsDialog, setShowEditEndpointsDialog] = useState(false);
   const [editingType, setEditingType] = useState<string>('');
   const [editingEndpoints, setEditingEndpoints] = useState({ 
     fetchEndpoint: '', 
     saveEndpoint: '', 
-    requestBody: '' 
+    requestBody: '',
+    saveResultPath: ''
   });
   const [newCustomType, setNewCustomType] = useState({
     name: '',
@@ -44,9 +68,13 @@ const Compare: React.FC = () => {
     responseFields: [] as string[],
     identifierField: '',
     requestBody: '',
+    saveResultPath: '',
   });
 
   const activeInstances = instances.filter(i => i.isActive);
+  const activeCustomType = customTypes?.find(t => t.id === comparisonType);
+  // Array matching applies wherever the generic structural diff is used
+  const usesStructuralDiff = !['settings', 'codeTable', 'featureToggle'].includes(comparisonType) && !activeCustomType?.identifierField;
 
   const comparisonTypes = [
     { 
@@ -96,6 +124,24 @@ const Compare: React.FC = () => {
     dispatch(setComparisonType(type));
   };
 
+  const handleArrayKeyFieldChange = (index: number, path: string, keyField: string) => {
+    const entries = Object.entries(arrayMatching.keyFields);
+    entries[index] = [path, keyField];
+    dispatch(setArrayMatching({ ...arrayMatching, keyFields: Object.fromEntries(entries) }));
+  };
+
+  const handleRemoveArrayKeyField = (index: number) => {
+    const entries = Object.entries(arrayMatching.keyFields).filter((_, i) => i !== index);
+    dispatch(setArrayMatching({ ...arrayMatching, keyFields: Object.fromEntries(entries) }));
+  };
+
+  const handleFeatureToggleFieldChange = (field: string, checked: boolean) => {
+    const updated = checked
+      ? [...featureToggleFields, field]
+      : featureToggleFields.filter(f => f !== field);
+    dispatch(setFeatureToggleFields(updated));
+  };
+
   const handleCreateCustomType = () => {
     if (!newCustomType.name || !newCustomType.label || !newCustomType.fetchEndpoint || !newCustomType.saveEndpoint) {
       toast({
@@ -154,6 +200,7 @@ const Compare: React.FC = () => {
       responseFields: newCustomType.responseFields,
       identifierField: newCustomType.identifierField || undefined,
       requestBody: parsedRequestBody,
+      saveResultPath: newCustomType.saveResultPath.trim() || undefined,
     }));
 
     // Reset form and close dialog
@@ -168,6 +215,7 @@ const Compare: React.FC = () => {
       responseFields: [],
       identifierField: '',
       requestBody: '',
+      saveResultPath: '',
     });
     setShowCustomTypeDialog(false);
 
@@ -194,7 +242,8 @@ const Compare: React.FC = () => {
       setEditingEndpoints({
         fetchEndpoint: config.fetchEndpoint,
         saveEndpoint: config.saveEndpoint,
-        requestBody: config.requestBody ? JSON.stringify(config.requestBody, null, 2) : ''
+        requestBody: config.requestBody ? JSON.stringify(config.requestBody, null, 2) : '',
+        saveResultPath: config.saveResultPath || ''
       });
       setShowEditEndpointsDialog(true);
     }
@@ -214,6 +263,7 @@ const Compare: React.FC = () => {
         identifierField: customType.identifierField || '',
         responseFields: customType.responseFields || [],
         requestBody: customType.requestBody ? JSON.stringify(customType.requestBody, null, 2) : '',
+        saveResultPath: customType.saveResultPath || '',
       });
       setEditingType(customTypeId);
       setShowCustomTypeDialog(true);
@@ -241,7 +291,8 @@ const Compare: React.FC = () => {
         type: editingType,
         fetchEndpoint: editingEndpoints.fetchEndpoint,
         saveEndpoint: editingEndpoints.saveEndpoint,
-        requestBody
+        requestBody,
+        saveResultPath: editingEndpoints.saveResultPath.trim() || undefined
       }));
       
       toast({
@@ -251,7 +302,7 @@ const Compare: React.FC = () => {
       
       setShowEditEndpointsDialog(false);
       setEditingType('');
-      setEditingEndpoints({ fetchEndpoint: '', saveEndpoint: '', requestBody: '' });
+      setEditingEndpoints({ fetchEndpoint: '', saveEndpoint: '', requestBody: '', saveResultPath: '' });
     }
   };
 
@@ -286,6 +337,7 @@ const Compare: React.FC = () => {
           responseFields: newCustomType.responseFields,
           identifierField: newCustomType.identifierField || undefined,
           requestBody: parsedRequestBody,
+          saveResultPath: newCustomType.saveResultPath.trim() || undefined,
         }));
         
         toast({
@@ -306,6 +358,7 @@ const Compare: React.FC = () => {
           identifierField: '',
           responseFields: [],
           requestBody: '',
+          saveResultPath: '',
         });
       }
     }
@@ -355,48 +408,85 @@ const Compare: React.FC = () => {
       return;
     }
 
-    try {
-      // Get request body configuration for the current comparison type
-      let requestBody: Record<string, unknown> | undefined;
-      
-      // Check if it's a built-in type
-      const endpointConfig = builtInEndpoints[comparisonType as keyof typeof builtInEndpoints];
-      if (endpointConfig) {
-        requestBody = endpointConfig.requestBody;
-      } else {
-        // Check if it's a custom type
-        const customType = customTypes?.find(t => t.id === comparisonType);
-        if (customType) {
-          requestBody = customType.requestBody;
-        }
+    // Get request body configuration for the current comparison type
+    let requestBody: Record<string, unknown> | undefined;
+    
+    // Check if it's a built-in type
+    const endpointConfig = builtInEndpoints[comparisonType as keyof typeof builtInEndpoints];
+    if (endpointConfig) {
+      requestBody = endpointConfig.requestBody;
+    } else {
+      // Check if it's a custom type
+      const customType = customTypes?.find(t => t.id === comparisonType);
+      if (customType) {
+        requestBody = customType.requestBody;
       }
+    }
 
-      // Fetch data from all selected instances
-      const fetchPromises = selectedInstances.map(instanceId => 
-        dispatch(fetchInstanceData({ 
-          instanceId, 
-          endpoint: currentFetchEndpoint,
-          requestBody 
-        }))
-      );
-      
-      await Promise.all(fetchPromises);
-      
-      toast({
-        title: "Data Fetched",
-        description: `Successfully retrieved data from ${selectedInstances.length} instances`,
-      });
-    } catch (error) {
+    // Fetch data from all selected instances
+    const fetchPromises = selectedInstances.map(instanceId => 
+      dispatch(fetchInstanceData({ 
+        instanceId, 
+        endpoint: currentFetchEndpoint,
+        comparisonType,
+        requestBody 
+      }))
+    );
+    fetchRefs.current = fetchPromises;
+    setFetching(true);
+    const results = await Promise.all(fetchPromises);
+    fetchRefs.current = [];
+    setFetching(false);
+
+    const rejected = results.filter(fetchInstanceData.rejected.match);
+    const failed = rejected.filter(result => !result.meta.aborted);
+    const cancelled = rejected.length - failed.length;
+    const succeeded = results.length - failed.length - cancelled;
+
+    if (failed.length > 0) {
       toast({
         title: "Fetch Error",
-        description: "Failed to retrieve data from one or more instances",
+        description: failed.length === 1
+          ? failed[0].error.message || "Failed to retrieve data from one instance"
+          : `Failed to retrieve data from ${failed.length} of ${results.length} instances`,
         variant: "destructive",
       });
+    } else if (cancelled > 0) {
+      toast({
+        title: "Fetch Cancelled",
+        description: `Retrieved data from ${succeeded} of ${results.length} instances before cancelling`,
+      });
+    } else {
+      toast({
+        title: "Data Fetched",
+        description: `Successfully retrieved data from ${results.length} instances`,
+      });
     }
   };
 
-  const handleStartComparison = () => {
-    if (selectedInstances.length < 2) {
+  const handleCancelFetch = () => {
+    fetchRefs.current.forEach(fetch => fetch.abort());
+  };
+
+  /**
+   * Whether an instance has data of this type to compare: a chosen snapshot,
+   * or the held data (fetched now or restored from storage) unless the latest
+   * fetch of this type failed or is still running. Data stored before fetches
+   * recorded their type is 'unknown' and compared only once confirmed.
+   */
+  const getComparableData = (id: string): 'yes' | 'unknown' | 'no' => {
+    const snapshot = snapshots.find(s => s.id === selectedSnapshots[id]);
+    if (snapshot) return snapshot.comparisonType === comparisonType ? 'yes' : 'no';
+    const status = fetchStates[id]?.[comparisonType]?.status;
+    const data = instanceData[id];
+    if (!data || status === 'failed' || status === 'loading') return 'no';
+    if (!data.comparisonType) return 'unknown';
+    return data.comparisonType === comparisonType ? 'yes' : 'no';
+  };
+  const comparableInstanceIds = selectedInstances.filter(id => getComparableData(id) !== 'no');
+
+  const handleStartComparison = async (instanceIds: string[] = selectedInstances, unknownTypeConfirmed = false) => {
+    if (instanceIds.length < 2) {
       toast({
         title: "Selection Required",
         description: "Please select at least 2 instances to compare",
@@ -405,34 +495,83 @@ const Compare: React.FC = () => {
       return;
     }
 
+    const missing = instanceIds.filter(id => getComparableData(id) === 'no');
+    if (missing.length > 0) {
+      toast({
+        title: "Fetch Required",
+        description: `No ${comparisonType} data to compare for ${missing.map(id => getInstanceById(id)?.name || id).join(', ')}. Fetch it first, or compare the remaining instances.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const unknownIds = instanceIds.filter(id => getComparableData(id) === 'unknown');
+    if (unknownIds.length > 0 && !unknownTypeConfirmed) {
+      setUnconfirmedComparison({ instanceIds, unknownIds });
+      return;
+    }
+
+    // Instances with a chosen snapshot are compared using its stored payload
     const selectedInstanceData: Record<string, ComparisonData> = {};
-    selectedInstances.forEach(id => {
+    const selectedSnapshotRefs: Record<string, SnapshotRef> = {};
+    instanceIds.forEach(id => {
+      const snapshot = snapshots.find(s => s.id === selectedSnapshots[id]);
       const data = instanceData[id];
-      if (data) {
+      if (snapshot) {
+        selectedSnapshotRefs[id] = { id: snapshot.id, timestamp: snapshot.timestamp };
+      } else if (data) {
         selectedInstanceData[id] = data.data as ComparisonData;
+        if (data.snapshotId) {
+          selectedSnapshotRefs[id] = { id: data.snapshotId, timestamp: data.timestamp };
+        }
       }
     });
 
     const name = sessionName || `${comparisonType} comparison - ${new Date().toLocaleString()}`;
     
-    dispatch(createComparisonSession({
+    const comparison = dispatch(runComparison({
       name,
-      instanceIds: selectedInstances,
+      instanceIds,
       endpoint: currentFetchEndpoint,
       instanceData: selectedInstanceData,
+      snapshots: selectedSnapshotRefs,
     }));
+    comparisonRef.current = comparison;
+    const result = await comparison;
+    comparisonRef.current = null;
 
-    toast({
-      title: "Comparison Started",
-      description: "Analysis complete! Redirecting to Summary page...",
-    });
+    if (runComparison.fulfilled.match(result)) {
+      toast({
+        title: "Comparison Complete",
+        description: "Analysis complete! Redirecting to Summary page...",
+      });
 
-    // Navigate to Summary page after comparison is created
-    setTimeout(() => {
-      navigate('/summary');
-    }, 1000); // Small delay to let user see the success message
+      // Navigate to Summary page after comparison is created
+      setTimeout(() => {
+        navigate('/summary');
+      }, 1000); // Small delay to let user see the success message
+    } else if (result.meta.aborted) {
+      toast({
+        title: "Comparison Cancelled",
+        description: "The comparison was stopped before it finished",
+      });
+    } else {
+      toast({
+        title: "Comparison Failed",
+        description: result.error.message || "The comparison could not be completed",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCancelComparison = () => {
+    comparisonRef.current?.abort();
   };
 
+  const progressPercent = comparisonProgress && comparisonProgress.totalItems > 0
+    ? Math.round((comparisonProgress.itemsCompared / comparisonProgress.totalItems) * 100)
+    : 0;
+
   const getInstanceById = (id: string) => instances.find(i => i.id === id);
 
   const handleCopyToClipboard = async (instanceId: string) => {
@@ -483,6 +622,15 @@ const Compare: React.FC = () => {
               <CardTitle>Comparison Type</CardTitle>
               <CardDescription>Choose what type of data you want to compare</CardDescription>
             </div>
+            <div className="flex items-center space-x-2">
+            <NormalizationRulesDialog
+              comparisonTypes={comparisonTypes.map(({ value, label }) => ({ value, label }))}
+              defaultComparisonType={comparisonType}
+            />
+            <IgnoreRulesDialog
+              comparisonTypes={comparisonTypes.map(({ value, label }) => ({ value, label }))}
+              defaultComparisonType={comparisonType}
+            />
             <Dialog open={showCustomTypeDialog} onOpenChange={setShowCustomTypeDialog}>
               <DialogTrigger asChild>
                 <Button 
@@ -501,6 +649,7 @@ const Compare: React.FC = () => {
                       identifierField: '',
                       responseFields: [],
                       requestBody: '',
+                      saveResultPath: '',
                     });
                   }}
                 >
@@ -710,6 +859,20 @@ const Compare: React.FC = () => {
                       JSON object to include in the request body when fetching data. Leave empty for default behavior.
                     </p>
                   </div>
+
+                  <div>
+                    <Label htmlFor="custom-save-result-path">Save Result Path (Optional)</Label>
+                    <Input
+                      id="custom-save-result-path"
+                      placeholder="e.g., Data.Results"
+                      value={newCustomType.saveResultPath}
+                      onChange={(e) => setNewCustomType({ ...newCustomType, saveResultPath: e.target.value })}
+                      className="font-mono"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Dot path to the per-item results array in the save response, e.g. Data.Results. Leave empty to treat each save as a whole.
+                    </p>
+                  </div>
                 </div>
                 <DialogFooter>
                   <Button variant="outline" onClick={() => {
@@ -726,6 +889,7 @@ const Compare: React.FC = () => {
                       identifierField: '',
                       responseFields: [],
                       requestBody: '',
+                      saveResultPath: '',
                     });
                   }}>
                     Cancel
@@ -790,6 +954,23 @@ const Compare: React.FC = () => {
                       JSON object to include in the request body when fetching data. Leave empty for default behavior.
                     </p>
                   </div>
+
+                  <div>
+                    <Label htmlFor="edit-save-result-path">Save Result Path (Optional)</Label>
+                    <Input
+                      id="edit-save-result-path"
+                      placeholder="e.g., Data.Results"
+                      value={editingEndpoints.saveResultPath}
+                      onChange={(e) => setEditingEndpoints({ 
+                        ...editingEndpoints, 
+                        saveResultPath: e.target.value 
+                      })}
+                      className="font-mono"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Dot path to the per-item results array in the save response, e.g. Data.Results. Leave empty to treat each save as a whole.
+                    </p>
+                  </div>
                 </div>
 
                 <DialogFooter>
@@ -798,7 +979,7 @@ const Compare: React.FC = () => {
                     onClick={() => {
                       setShowEditEndpointsDialog(false);
                       setEditingType('');
-                      setEditingEndpoints({ fetchEndpoint: '', saveEndpoint: '', requestBody: '' });
+                      setEditingEndpoints({ fetchEndpoint: '', saveEndpoint: '', requestBody: '', saveResultPath: '' });
                     }}
                   >
                     Cancel
@@ -809,6 +990,7 @@ const Compare: React.FC = () => {
                 </DialogFooter>
               </DialogContent>
             </Dialog>
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -879,6 +1061,102 @@ const Compare: React.FC = () => {
         </CardContent>
       </Card>
 
+      {/* Feature Toggle Compared Fields */}
+      {comparisonType === 'featureToggle' && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Compared Fields</CardTitle>
+            <CardDescription>
+              Choose which feature toggle fields are compared. Changes to CurrentValue are reported as flipped flags, everything else as metadata drift.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 gap-3 md:grid-cols-3">
+              {FEATURE_TOGGLE_COMPARABLE_FIELDS.map((field) => (
+                <div key={field} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`ft-field-${field}`}
+                    checked={featureToggleFields.includes(field)}
+                    onCheckedChange={(checked) => handleFeatureToggleFieldChange(field, checked as boolean)}
+                  />
+                  <Label htmlFor={`ft-field-${field}`} className="font-mono text-sm">{field}</Label>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Array Matching */}
+      {usesStructuralDiff && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Array Matching</CardTitle>
+            <CardDescription>
+              Choose how array elements are paired between instances. Match by key for lists of records, by content to ignore reordering.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="max-w-xs">
+              <Label>Default strategy</Label>
+              <Select
+                value={arrayMatching.defaultStrategy}
+                onValueChange={(value) => dispatch(setArrayMatching({ ...arrayMatching, defaultStrategy: value as ArrayMatchStrategy }))}
+              >
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="index">By index</SelectItem>
+                  <SelectItem value="lcs">By content (detects moves)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Key fields per array path</Label>
+              <div className="space-y-2 mt-2">
+                {Object.entries(arrayMatching.keyFields).map(([path, keyField], index) => (
+                  <div key={index} className="flex items-center space-x-2">
+                    <Input
+                      value={path}
+                      onChange={(e) => handleArrayKeyFieldChange(index, e.target.value, keyField)}
+                      placeholder="Array path (e.g., servers or groups[].members)"
+                    />
+                    <Input
+                      value={keyField}
+                      onChange={(e) => handleArrayKeyFieldChange(index, path, e.target.value)}
+                      placeholder="Key field (e.g., id)"
+                      className="max-w-[12rem]"
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRemoveArrayKeyField(index)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={'' in arrayMatching.keyFields}
+                  onClick={() => dispatch(setArrayMatching({
+                    ...arrayMatching,
+                    keyFields: { ...arrayMatching.keyFields, '': '' },
+                  }))}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Key Field
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Instance Selection */}
       <Card>
         <CardHeader>
@@ -900,6 +1178,7 @@ const Compare: React.FC = () => {
               {activeInstances.map((instance) => {
                 const isSelected = selectedInstances.includes(instance.id);
                 const hasData = instanceData[instance.id]?.data;
+                const typeSnapshots = getInstanceSnapshots(snapshots, instance.id, comparisonType);
                 
                 return (
                   <div
@@ -932,6 +1211,32 @@ const Compare: React.FC = () => {
                       </div>
                       <p className="text-sm text-muted-foreground">{instance.url}</p>
                     </div>
+
+                    {/* Data Source */}
+                    {isSelected && typeSnapshots.length > 0 && (
+                      <Select
+                        value={selectedSnapshots[instance.id] || 'latest'}
+                        onValueChange={(value) => dispatch(selectSnapshot({ instanceId: instance.id, snapshotId: value === 'latest' ? null : value }))}
+                      >
+                        <SelectTrigger className="w-56">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="latest">Latest fetch</SelectItem>
+                          {typeSnapshots.slice().reverse().map(snapshot => (
+                            <SelectItem key={snapshot.id} value={snapshot.id}>
+                              Snapshot {new Date(snapshot.timestamp).toLocaleString()}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <SnapshotBrowserDialog
+                      instanceId={instance.id}
+                      instanceName={instance.name}
+                      comparisonTypes={comparisonTypes}
+                      currentComparisonType={comparisonType}
+                    />
                   </div>
                 );
               })}
@@ -998,32 +1303,84 @@ const Compare: React.FC = () => {
             </div>
             
             <div className="flex space-x-2">
-              <Button
-                variant="outline"
-                onClick={handleFetchData}
-                disabled={loading || selectedInstances.length === 0}
-              >
-                {loading ? (
+              {fetching ? (
+                <Button
+                  variant="outline"
+                  onClick={handleCancelFetch}
+                >
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                ) : (
+                  Cancel Fetch
+                </Button>
+              ) : (
+                <Button
+                  variant="outline"
+                  onClick={handleFetchData}
+                  disabled={selectedInstances.length === 0}
+                >
                   <Database className="mr-2 h-4 w-4" />
-                )}
-                Fetch Data
-              </Button>
+                  Fetch Data
+                </Button>
+              )}
               
-              <Button
-                onClick={handleStartComparison}
-                disabled={selectedInstances.length < 2}
-                size="lg"
-              >
-                <GitCompare className="mr-2 h-4 w-4" />
-                Start Comparison
-              </Button>
+              {comparing ? (
+                <Button
+                  variant="outline"
+                  onClick={handleCancelComparison}
+                  size="lg"
+                >
+                  <X className="mr-2 h-4 w-4" />
+                  Cancel
+                </Button>
+              ) : (
+                <Button
+                  onClick={() => handleStartComparison()}
+                  disabled={selectedInstances.length < 2}
+                  size="lg"
+                >
+                  <GitCompare className="mr-2 h-4 w-4" />
+                  Start Comparison
+                </Button>
+              )}
             </div>
           </div>
+
+          {/* Comparison Progress */}
+          {comparing && (
+            <div className="mt-4 space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="flex items-center text-muted-foreground">
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  {comparisonProgress?.phase === 'finishing' ? 'Applying rules...' : 'Comparing...'}
+                </span>
+                {comparisonProgress && (
+                  <span className="text-muted-foreground">
+                    {comparisonProgress.instancesProcessed}/{comparisonProgress.totalInstances} instances •{' '}
+                    {comparisonProgress.itemsCompared.toLocaleString()}/{comparisonProgress.totalItems.toLocaleString()} items
+                  </span>
+                )}
+              </div>
+              <Progress value={progressPercent} />
+            </div>
+          )}
         </CardContent>
       </Card>
 
+      {/* Fetch Status */}
+      <FetchStatusGrid
+        instanceIds={selectedInstances}
+        comparisonTypes={comparisonTypes}
+        currentComparisonType={comparisonType}
+        comparableIds={comparableInstanceIds}
+        onCompareAnyway={() => handleStartComparison(comparableInstanceIds)}
+        disabled={comparing || fetching}
+      />
+
+      {/* Comparison Over Time */}
+      <TemporalComparisonCard
+        comparisonTypeLabel={comparisonTypes.find(t => t.value === comparisonType)?.label || comparisonType}
+        comparisonRef={comparisonRef}
+      />
+
       {/* Data Preview */}
       {selectedInstances.length > 0 && (
         <Card>
@@ -1080,6 +1437,32 @@ const Compare: React.FC = () => {
           </CardContent>
         </Card>
       )}
+
+      {/* Unknown Data Type Confirmation */}
+      <AlertDialog open={!!unconfirmedComparison} onOpenChange={(open) => !open && setUnconfirmedComparison(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Compare data of unknown type?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The stored data of {unconfirmedComparison?.unknownIds.map(id => getInstanceById(id)?.name || id).join(', ')} was
+              fetched before comparison types were recorded. Compare it as {comparisonTypes.find(t => t.value === comparisonType)?.label || comparisonType} data,
+              or cancel and fetch it again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                const pending = unconfirmedComparison;
+                setUnconfirmedComparison(null);
+                if (pending) handleStartComparison(pending.instanceIds, true);
+              }}
+            >
+              Compare
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
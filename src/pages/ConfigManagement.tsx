@@ -5,20 +5,27 @@ import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useAppDispatch, useAppSelector } from '@/hooks/useRedux';
-import { postInstanceData } from '@/store/slices/instancesSlice';
-import { Save, ArrowRight, Settings2, Database, CheckCircle2 } from 'lucide-react';
+import { fetchMigrationTarget, runMigration, MigrationTargetData } from '@/store/slices/migrationsSlice';
+import { Eye, ArrowRight, Settings2, Database, CheckCircle2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import MigrationPreviewDialog, { MigrationPreviewTarget } from '@/components/MigrationPreviewDialog';
+import { buildMigrationBackup, diffMigration, simulateMigration, MigrationPlan } from '@/utils/migration';
+import MigrationHistoryCard from '@/components/MigrationHistoryCard';
 
 const ConfigManagement: React.FC = () => {
   const dispatch = useAppDispatch();
   const { instances, instanceData, loading } = useAppSelector((state) => state.instances);
-  const { activeSessionId, sessions, currentSaveEndpoint } = useAppSelector((state) => state.comparison);
+  const { activeSessionId, sessions, currentSaveEndpoint, comparisonType, customTypes } = useAppSelector((state) => state.comparison);
   const { toast } = useToast();
 
   const [sourceInstanceId, setSourceInstanceId] = useState<string>('');
   const [targetInstanceIds, setTargetInstanceIds] = useState<string[]>([]);
   const [selectedSettings, setSelectedSettings] = useState<string[]>([]);
   const [isPreviewMode, setIsPreviewMode] = useState(false);
+  const [preparingPreview, setPreparingPreview] = useState(false); // Fetching the targets' current data
+  const [isMigrating, setIsMigrating] = useState(false);
+  // Current data of each target for the preview, or why it could not be fetched
+  const [previewTargetData, setPreviewTargetData] = useState<Record<string, { target?: MigrationTargetData; error?: string }>>({});
 
   const activeSession = sessions.find(s => s.id === activeSessionId);
   const sourceInstance = instances.find(i => i.id === sourceInstanceId);
@@ -93,7 +100,7 @@ const ConfigManagement: React.FC = () => {
     return result;
   };
 
-  const handleMigration = async () => {
+  const handlePreview = async () => {
     if (!sourceInstanceId || targetInstanceIds.length === 0 || selectedSettings.length === 0) {
       toast({
         title: "Validation Error",
@@ -103,37 +110,106 @@ const ConfigManagement: React.FC = () => {
       return;
     }
 
-    const migrationData = buildMigrationData();
+    // The dry run uses each target's current data of the comparison type
+    setPreparingPreview(true);
+    const fetchedTargets = await Promise.all(targetInstanceIds.map(targetId =>
+      dispatch(fetchMigrationTarget({ instanceId: targetId, comparisonType }))));
+    setPreparingPreview(false);
+    setPreviewTargetData(Object.fromEntries(fetchedTargets.map((fetched, index) => [
+      targetInstanceIds[index],
+      fetchMigrationTarget.fulfilled.match(fetched) ? { target: fetched.payload } : { error: fetched.error.message || 'Failed to fetch target' },
+    ])));
+    setIsPreviewMode(true);
+  };
 
-    try {
-      // Migrate to all selected target instances
-      const migrationPromises = targetInstanceIds.map(targetId => 
-        dispatch(postInstanceData({
-          instanceId: targetId,
-          endpoint: currentSaveEndpoint,
-          data: migrationData
-        }))
-      );
+  // Settings are posted as a nested object, without a Data wrapper
+  const getMigrationPlan = (migrationData: Record<string, unknown>): MigrationPlan => ({
+    kind: 'object',
+    comparisonType,
+    body: { Data: migrationData },
+    itemCount: selectedSettings.length,
+    itemLabel: 'settings',
+  });
 
-      await Promise.all(migrationPromises);
+  // Dry run of the migration against each target's data fetched for the preview
+  const getPreviewTargets = (migrationData: Record<string, unknown>): MigrationPreviewTarget[] => {
+    const plan = getMigrationPlan(migrationData);
+    return targetInstanceIds.map(targetId => {
+      const name = getInstanceName(targetId);
+      const { target: targetData, error = 'not fetched' } = previewTargetData[targetId] || {};
+      if (!targetData) {
+        return { instanceId: targetId, name, itemCount: 0, skippedReason: `Could not fetch its current data: ${error}`, changes: [] };
+      }
+      return {
+        instanceId: targetId,
+        name,
+        body: migrationData,
+        itemCount: plan.itemCount,
+        capturedAt: targetData.timestamp,
+        changes: diffMigration(comparisonType, customTypes, targetData.data, simulateMigration(plan, targetData.data)),
+      };
+    });
+  };
 
-      toast({
-        title: "Migration Successful",
-        description: `Settings migrated to ${targetInstanceIds.length} instance(s)`,
-      });
+  const handleMigration = async () => {
+    const migrationData = buildMigrationData();
+    const plan = getMigrationPlan(migrationData);
 
-      // Reset form
-      setSelectedSettings([]);
-      setTargetInstanceIds([]);
-      setIsPreviewMode(false);
+    // Migrate to all selected target instances, backing up each target's current values
+    setIsMigrating(true);
+    const outcomes = await Promise.all(targetInstanceIds.map(async (targetId): Promise<string | null> => {
+      // The backup is taken from the target as it is right now; without it nothing is posted
+      const fetched = await dispatch(fetchMigrationTarget({ instanceId: targetId, comparisonType }));
+      if (!fetchMigrationTarget.fulfilled.match(fetched)) {
+        return `${getInstanceName(targetId)} was not migrated: ${fetched.error.message || 'failed to fetch its current data'}`;
+      }
+      const targetRecord = fetched.payload;
+      const backup = buildMigrationBackup(plan, targetRecord.data);
+      try {
+        const record = await dispatch(runMigration({
+          origin: 'configManagement',
+          sourceInstanceId,
+          targetInstanceId: targetId,
+          comparisonType,
+          endpoint: currentSaveEndpoint,
+          body: migrationData,
+          itemCount: plan.itemCount,
+          itemLabel: plan.itemLabel,
+          itemIds: selectedSettings,
+          backup: {
+            capturedAt: targetRecord.timestamp,
+            body: backup.data,
+            itemCount: backup.itemCount,
+            createdItems: backup.createdItems,
+          },
+        })).unwrap();
+        return record.status === 'succeeded' ? null : `${getInstanceName(targetId)}: ${record.error}`;
+      } catch (error) {
+        // Failed to record the migration of this target
+        return `${getInstanceName(targetId)}: ${error instanceof Error ? error.message : 'Failed to migrate settings'}`;
+      }
+    }));
+    setIsMigrating(false);
 
-    } catch (error) {
+    const failures = outcomes.filter((outcome): outcome is string => outcome !== null);
+    if (failures.length > 0) {
       toast({
         title: "Migration Failed",
-        description: "Failed to migrate settings to one or more instances",
+        description: `${failures.length} of ${outcomes.length} instance(s) failed: ${failures[0]}`,
         variant: "destructive",
       });
+      return;
     }
+
+    toast({
+      title: "Migration Successful",
+      description: `Settings migrated to ${targetInstanceIds.length} instance(s)`,
+    });
+
+    // Reset form
+    setSelectedSettings([]);
+    setTargetInstanceIds([]);
+    setIsPreviewMode(false);
   };
 
   const availableInstances = instances.filter(i => i.isActive);
@@ -331,42 +407,42 @@ const ConfigManagement: React.FC = () => {
 
             <div className="flex items-center space-x-2 pt-4">
               <Button
-                onClick={() => setIsPreviewMode(!isPreviewMode)}
-                variant="outline"
-              >
-                {isPreviewMode ? 'Hide Preview' : 'Preview Data'}
-              </Button>
-              
-              <Button
-                onClick={handleMigration}
-                disabled={loading}
+                onClick={handlePreview}
+                disabled={loading || preparingPreview}
                 className="flex items-center space-x-2"
               >
-                {loading ? (
+                {loading || preparingPreview ? (
                   <>
                     <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                    <span>Migrating...</span>
+                    <span>{preparingPreview ? 'Fetching targets...' : 'Migrating...'}</span>
                   </>
                 ) : (
                   <>
-                    <Save className="h-4 w-4" />
-                    <span>Migrate Settings</span>
+                    <Eye className="h-4 w-4" />
+                    <span>Preview Migration</span>
                   </>
                 )}
               </Button>
             </div>
-
-            {isPreviewMode && (
-              <div className="mt-4 p-4 bg-muted/30 rounded-lg">
-                <p className="text-sm font-medium mb-2">Migration Data Preview:</p>
-                <pre className="text-xs bg-background p-3 rounded border overflow-auto max-h-48">
-                  {JSON.stringify(buildMigrationData(), null, 2)}
-                </pre>
-              </div>
-            )}
           </CardContent>
         </Card>
       )}
+
+      {/* Migration Preview */}
+      {isPreviewMode && (
+        <MigrationPreviewDialog
+          open={isPreviewMode}
+          onOpenChange={(open) => !open && !isMigrating && setIsPreviewMode(false)}
+          sourceName={getInstanceName(sourceInstanceId)}
+          endpoint={currentSaveEndpoint}
+          targets={getPreviewTargets(buildMigrationData())}
+          confirming={isMigrating}
+          onConfirm={handleMigration}
+        />
+      )}
+
+      {/* Migration History */}
+      <MigrationHistoryCard />
     </div>
   );
 };
@@ -7,19 +7,38 @@ import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { useAppDispatch, useAppSelector } from '@/hooks/useRedux';
-import { addInstance, updateInstance, removeInstance, toggleInstanceActive, Instance } from '@/store/slices/instancesSlice';
+import { addInstance, updateInstance, removeInstance, toggleInstanceActive, Instance, InstanceAuth, InstanceSecretField } from '@/store/slices/instancesSlice';
+import { deleteInstanceSecrets, saveInstanceSecrets } from '@/store/slices/vaultSlice';
+import { AUTH_MODE_LABELS, AUTH_MODE_SECRET_FIELDS, getInstanceAuth, hasInstanceAuth, isValidTokenUrl } from '@/utils/instanceAuth';
+import { DEFAULT_TIMEOUT_MS } from '@/utils/httpClient';
 import { Plus, Trash2, Server, Link, Key, CheckCircle, XCircle, Clock, AlertCircle, Edit } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import StorageUsageCard from '@/components/StorageUsageCard';
+import InstanceAuthFields, { EnteredSecrets } from '@/components/InstanceAuthFields';
+import SecretVaultCard from '@/components/SecretVaultCard';
+
+// OAuth2 cannot request a token without its endpoint and client
+const isAuthIncomplete = (auth: InstanceAuth) =>
+  (auth.mode === 'oauth2' && (!auth.tokenUrl || !auth.clientId)) || (auth.mode === 'basic' && !auth.username);
+
+// Blank or invalid input keeps the default timeout
+const toTimeoutMs = (seconds: string) => {
+  const value = Number(seconds);
+  return seconds.trim() && value > 0 ? Math.round(value * 1000) : undefined;
+};
 
 const Configuration: React.FC = () => {
   const dispatch = useAppDispatch();
   const { instances } = useAppSelector((state) => state.instances);
+  const vaultUnlocked = useAppSelector((state) => state.vault.status === 'unlocked');
   const { toast } = useToast();
   
   const [newInstance, setNewInstance] = useState({
     name: '',
     url: '',
-    authKey: '',
+    auth: { mode: 'queryKey' } as InstanceAuth,
+    secrets: {} as EnteredSecrets,
+    timeoutSeconds: '',
     isActive: true,
   });
 
@@ -27,14 +46,26 @@ const Configuration: React.FC = () => {
     id: string;
     name: string;
     url: string;
-    authKey: string;
+    auth: InstanceAuth;
+    secretIds?: Instance['secretIds'];
+    secrets: EnteredSecrets;
+    timeoutSeconds: string;
     isActive: boolean;
   } | null>(null);
 
   const [showEditDialog, setShowEditDialog] = useState(false);
 
-  const handleAddInstance = () => {
-    if (!newInstance.name || !newInstance.url) {
+  // Store the credentials the auth mode uses and drop the ones it no longer does
+  const storeSecrets = async (auth: InstanceAuth, secrets: EnteredSecrets, secretIds?: Instance['secretIds']) => {
+    const usedFields = AUTH_MODE_SECRET_FIELDS[auth.mode];
+    const values = Object.fromEntries(usedFields.map(field => [field, secrets[field]]));
+    const remove = (Object.keys(secretIds || {}) as InstanceSecretField[]).filter(field => !usedFields.includes(field));
+    const result = await dispatch(saveInstanceSecrets({ secretIds, values, remove })).unwrap();
+    return Object.keys(result.secretIds).length > 0 ? result.secretIds : undefined;
+  };
+
+  const handleAddInstance = async () => {
+    if (!newInstance.name || !newInstance.url || isAuthIncomplete(newInstance.auth)) {
       toast({
         title: "Validation Error",
         description: "Please fill in all required fields",
@@ -43,8 +74,36 @@ const Configuration: React.FC = () => {
       return;
     }
 
-    dispatch(addInstance(newInstance));
-    setNewInstance({ name: '', url: '', authKey: '', isActive: true });
+    if (newInstance.auth.mode === 'oauth2' && !isValidTokenUrl(newInstance.auth.tokenUrl)) {
+      toast({
+        title: "Invalid Token URL",
+        description: "The OAuth2 token URL must be an absolute http(s) URL",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    let secretIds: Instance['secretIds'];
+    try {
+      secretIds = await storeSecrets(newInstance.auth, newInstance.secrets);
+    } catch (error) {
+      toast({
+        title: "Credentials Not Saved",
+        description: error instanceof Error ? error.message : "Failed to store credentials in the vault",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    dispatch(addInstance({
+      name: newInstance.name,
+      url: newInstance.url,
+      auth: newInstance.auth,
+      ...(secretIds ? { secretIds } : {}),
+      timeoutMs: toTimeoutMs(newInstance.timeoutSeconds),
+      isActive: newInstance.isActive,
+    }));
+    setNewInstance({ name: '', url: '', auth: { mode: 'queryKey' }, secrets: {}, timeoutSeconds: '', isActive: true });
     
     toast({
       title: "Instance Added",
@@ -53,6 +112,11 @@ const Configuration: React.FC = () => {
   };
 
   const handleRemoveInstance = (id: string) => {
+    const instance = instances.find(i => i.id === id);
+    // A locked vault keeps the secrets; they are no longer referenced
+    if (vaultUnlocked && instance?.secretIds) {
+      dispatch(deleteInstanceSecrets(instance.secretIds));
+    }
     dispatch(removeInstance(id));
     toast({
       title: "Instance Removed",
@@ -65,14 +129,17 @@ const Configuration: React.FC = () => {
       id: instance.id,
       name: instance.name,
       url: instance.url,
-      authKey: instance.authKey,
+      auth: getInstanceAuth(instance),
+      secretIds: instance.secretIds,
+      secrets: {},
+      timeoutSeconds: instance.timeoutMs ? String(instance.timeoutMs / 1000) : '',
       isActive: instance.isActive,
     });
     setShowEditDialog(true);
   };
 
-  const handleUpdateInstance = () => {
-    if (!editingInstance?.name || !editingInstance?.url) {
+  const handleUpdateInstance = async () => {
+    if (!editingInstance?.name || !editingInstance?.url || isAuthIncomplete(editingInstance.auth)) {
       toast({
         title: "Validation Error",
         description: "Please fill in all required fields",
@@ -81,11 +148,37 @@ const Configuration: React.FC = () => {
       return;
     }
 
+    if (editingInstance.auth.mode === 'oauth2' && !isValidTokenUrl(editingInstance.auth.tokenUrl)) {
+      toast({
+        title: "Invalid Token URL",
+        description: "The OAuth2 token URL must be an absolute http(s) URL",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const legacyAuthKey = instances.find(i => i.id === editingInstance.id)?.authKey;
+    let secretIds: Instance['secretIds'];
+    try {
+      secretIds = await storeSecrets(editingInstance.auth, editingInstance.secrets, editingInstance.secretIds);
+    } catch (error) {
+      toast({
+        title: "Credentials Not Saved",
+        description: error instanceof Error ? error.message : "Failed to store credentials in the vault",
+        variant: "destructive",
+      });
+      return;
+    }
+
     dispatch(updateInstance({
       id: editingInstance.id,
       name: editingInstance.name,
       url: editingInstance.url,
-      authKey: editingInstance.authKey,
+      auth: editingInstance.auth,
+      ...(secretIds ? { secretIds } : {}),
+      // A plain-text key stays until the vault is unlocked and takes it over
+      ...(legacyAuthKey && !secretIds?.authKey ? { authKey: legacyAuthKey } : {}),
+      timeoutMs: toTimeoutMs(editingInstance.timeoutSeconds),
       isActive: editingInstance.isActive,
     }));
 
@@ -139,6 +232,9 @@ const Configuration: React.FC = () => {
         </p>
       </div>
 
+      {/* Secret Vault */}
+      <SecretVaultCard />
+
       {/* Add New Instance Card */}
       <Card className="border-primary/20 shadow-lg">
         <CardHeader>
@@ -172,19 +268,27 @@ const Configuration: React.FC = () => {
                 className="mt-1"
               />
             </div>
+            <div>
+              <Label htmlFor="timeout">Request Timeout (seconds)</Label>
+              <Input
+                id="timeout"
+                type="number"
+                min="1"
+                placeholder={String(DEFAULT_TIMEOUT_MS / 1000)}
+                value={newInstance.timeoutSeconds}
+                onChange={(e) => setNewInstance({ ...newInstance, timeoutSeconds: e.target.value })}
+                className="mt-1"
+              />
+            </div>
           </div>
           
-          <div>
-            <Label htmlFor="authKey">Authentication Key</Label>
-            <Input
-              id="authKey"
-              type="password"
-              placeholder="Bearer token or API key"
-              value={newInstance.authKey}
-              onChange={(e) => setNewInstance({ ...newInstance, authKey: e.target.value })}
-              className="mt-1"
-            />
-          </div>
+          <InstanceAuthFields
+            idPrefix="new"
+            auth={newInstance.auth}
+            secrets={newInstance.secrets}
+            vaultUnlocked={vaultUnlocked}
+            onChange={({ auth, secrets }) => setNewInstance({ ...newInstance, auth, secrets })}
+          />
           
           <div className="flex items-center space-x-2">
             <Switch
@@ -250,10 +354,10 @@ const Configuration: React.FC = () => {
                             <Link className="h-3 w-3" />
                             <span>{instance.url}</span>
                           </div>
-                          {instance.authKey && (
+                          {hasInstanceAuth(instance) && (
                             <div className="flex items-center space-x-1">
                               <Key className="h-3 w-3" />
-                              <span>Authenticated</span>
+                              <span>{AUTH_MODE_LABELS[getInstanceAuth(instance).mode]}</span>
                             </div>
                           )}
                         </div>
@@ -296,6 +400,9 @@ const Configuration: React.FC = () => {
         )}
       </div>
 
+      {/* Storage Usage */}
+      <StorageUsageCard />
+
       {/* Edit Instance Dialog */}
       <Dialog open={showEditDialog} onOpenChange={setShowEditDialog}>
         <DialogContent className="sm:max-w-md">
@@ -335,18 +442,29 @@ const Configuration: React.FC = () => {
               </div>
               
               <div>
-                <Label htmlFor="edit-authKey">Authentication Key</Label>
+                <Label htmlFor="edit-timeout">Request Timeout (seconds)</Label>
                 <Input
-                  id="edit-authKey"
-                  placeholder="Optional API key or token"
-                  value={editingInstance.authKey}
+                  id="edit-timeout"
+                  type="number"
+                  min="1"
+                  placeholder={String(DEFAULT_TIMEOUT_MS / 1000)}
+                  value={editingInstance.timeoutSeconds}
                   onChange={(e) => setEditingInstance({ 
                     ...editingInstance, 
-                    authKey: e.target.value 
+                    timeoutSeconds: e.target.value 
                   })}
                 />
               </div>
               
+              <InstanceAuthFields
+                idPrefix="edit"
+                auth={editingInstance.auth}
+                secretIds={editingInstance.secretIds}
+                secrets={editingInstance.secrets}
+                vaultUnlocked={vaultUnlocked}
+                onChange={({ auth, secrets }) => setEditingInstance({ ...editingInstance, auth, secrets })}
+              />
+              
               <div className="flex items-center space-x-2">
                 <Switch
                   id="edit-active"
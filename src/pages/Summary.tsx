@@ -1,37 +1,90 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useAppSelector, useAppDispatch } from '@/hooks/useRedux';
-import { setActiveSession, deleteSession } from '@/store/slices/comparisonSlice';
-import { postInstanceData } from '@/store/slices/instancesSlice';
-import { BarChart3, TrendingUp, TrendingDown, Pencil, Trash2, Eye, Calendar, Save, ArrowRight, ChevronDown, ChevronRight } from 'lucide-react';
+import { setActiveSession, deleteSession, revokeDivergence, loadSessionResults, verifyMigration, formatSettingScope, MigrationCheck } from '@/store/slices/comparisonSlice';
+import { fetchMigrationTarget, getFailedItems, runMigration } from '@/store/slices/migrationsSlice';
+import { BarChart3, Loader2, TrendingUp, TrendingDown, Pencil, Trash2, Eye, Calendar, ArrowRight, ChevronDown, ChevronRight, ArrowLeftRight, EyeOff, ShieldCheck, AlertTriangle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import FieldDiffTable from '@/components/FieldDiffTable';
+import AcceptDivergenceDialog from '@/components/AcceptDivergenceDialog';
+import ChangeTimeline from '@/components/ChangeTimeline';
+import MigrationHistoryCard from '@/components/MigrationHistoryCard';
+import MigrationPreviewDialog, { MigrationPreviewTarget, MigrationTargetStatus } from '@/components/MigrationPreviewDialog';
+import {
+  buildMigrationBackup,
+  buildMigrationPlan,
+  diffMigration,
+  getDifferingPaths,
+  getPlanItemIds,
+  CODE_TABLE_STRATEGIES,
+  selectPlanItems,
+  selectPlanPaths,
+  simulateMigration,
+  splitMigrationPlan,
+  CodeTableMergeStrategy,
+  MigrationItemResult,
+  MigrationPlan,
+  MigrationPlanError,
+} from '@/utils/migration';
+import { runWithConcurrency } from '@/utils/concurrency';
+import { loadSnapshotData } from '@/utils/indexedDbStorage';
 
 // Legacy comparison result type for backward compatibility
 type LegacyComparisonResult = {
   path: string;
-  type: 'added' | 'deleted' | 'edited' | 'unchanged';
+  type: 'added' | 'deleted' | 'edited' | 'moved' | 'accepted' | 'unchanged';
   leftValue?: unknown;
   rightValue?: unknown;
   description: string;
 };
 
+const migrationCheckLabels: Record<MigrationCheck['state'], string> = {
+  verified: 'Verified',
+  'still-different': 'Still different',
+  failed: 'Verification failed',
+};
+
+const migrationCheckClasses: Record<MigrationCheck['state'], string> = {
+  verified: 'border-success text-success',
+  'still-different': 'border-warning text-warning',
+  failed: 'border-destructive text-destructive',
+};
+
 const Summary: React.FC = () => {
   const dispatch = useAppDispatch();
-  const { sessions, activeSessionId, baseInstanceId, currentSaveEndpoint, comparisonType, customTypes } = useAppSelector((state) => state.comparison);
+  const { sessions, activeSessionId, loadingResultsFor, baseInstanceId, currentSaveEndpoint, comparisonType, customTypes, builtInEndpoints } = useAppSelector((state) => state.comparison);
   const { instances, loading, instanceData } = useAppSelector((state) => state.instances);
   const { toast } = useToast();
   
   const [selectedForMigration, setSelectedForMigration] = useState<string[]>([]);
-  const [migrationTarget, setMigrationTarget] = useState<string>('');
+  const [migrationTargets, setMigrationTargets] = useState<string[]>([]);
+  const [migrationConcurrency, setMigrationConcurrency] = useState(2);
+  const [migrationBatchSize, setMigrationBatchSize] = useState(0); // 0 posts all items at once
+  const [codeTableStrategy, setCodeTableStrategy] = useState<CodeTableMergeStrategy>('upsert');
   const [migrationSource, setMigrationSource] = useState<string>('');
-  const [activeFilter, setActiveFilter] = useState<'all' | 'added' | 'deleted' | 'edited'>('all');
+  const [activeFilter, setActiveFilter] = useState<'all' | 'added' | 'deleted' | 'edited' | 'moved' | 'accepted'>('all');
   const [expandedItems, setExpandedItems] = useState<Set<number>>(new Set());
+  const [categoryFilter, setCategoryFilter] = useState<'all' | 'value' | 'metadata'>('all');
+  const [fieldFilter, setFieldFilter] = useState<string>('all');
+  const [fieldSelections, setFieldSelections] = useState<Record<string, string[]>>({}); // Cherry-picked fields per result path
+  const [migrationPreview, setMigrationPreview] = useState<{
+    targets: MigrationPreviewTarget[];
+    plans: Record<string, MigrationPlan>;
+    itemIds: Record<string, string[]>;
+    fields: Record<string, string[]>;
+  } | null>(null);
+  const [targetStatuses, setTargetStatuses] = useState<Record<string, MigrationTargetStatus>>({});
+  const [isMigrating, setIsMigrating] = useState(false);
+  const [preparingPreview, setPreparingPreview] = useState(false); // Fetching the targets' current data
   
   const activeSession = sessions.find(s => s.id === activeSessionId);
+  // Custom types with an identifier field can migrate single fields of an item
+  const canCherryPick = !!customTypes?.find(type => type.id === (activeSession?.comparisonType || comparisonType))?.identifierField;
+  const isCodeTableSession = (activeSession?.comparisonType || comparisonType) === 'codeTable';
 
   // Helper to check if result has the new values format
   const hasResultValues = (result: unknown): result is { values: Record<string, unknown>; affectedInstances: string[] } => {
@@ -40,82 +93,43 @@ const Summary: React.FC = () => {
 
   const getInstanceName = (id: string) => {
     const instance = instances.find(i => i.id === id);
-    return instance?.name || 'Unknown Instance';
-  };
-
-  // Helper to filter object based on response fields
-  const filterByResponseFields = (data: Record<string, unknown> | unknown[], responseFields: string[]): Record<string, unknown> => {
-    if (!responseFields || responseFields.length === 0) {
-      return Array.isArray(data) ? { data } : data as Record<string, unknown>; // Return all data if no response fields specified
-    }
-
-    // Handle array data (like feature toggles)
-    if (Array.isArray(data)) {
-      // For arrays, we typically want to filter fields from the first item or all items
-      // Since the user provided example suggests single object structure, let's assume they want the first item
-      if (data.length > 0) {
-        const firstItem = data[0] as Record<string, unknown>;
-        return filterObjectFields(firstItem, responseFields);
+    if (instance) return instance.name;
+    // Comparisons over time compare snapshots of one instance
+    for (const session of sessions) {
+      const snapshot = session.temporal?.snapshots.find(s => s.id === id);
+      if (snapshot) {
+        const snapshotInstance = instances.find(i => i.id === session.temporal.instanceId);
+        return `${snapshotInstance?.name || 'Unknown Instance'} @ ${new Date(snapshot.timestamp).toLocaleString()}`;
       }
-      return {};
     }
-
-    // Handle object data
-    return filterObjectFields(data as Record<string, unknown>, responseFields);
-  };
-
-  // Helper to filter fields from a single object
-  const filterObjectFields = (obj: Record<string, unknown>, responseFields: string[]): Record<string, unknown> => {
-    const filtered: Record<string, unknown> = {};
-    
-    responseFields.forEach(field => {
-      if (field.includes('.')) {
-        // Handle nested fields like "user.name"
-        const parts = field.split('.');
-        let source = obj;
-        let target = filtered;
-        
-        // Navigate through the nested structure
-        for (let i = 0; i < parts.length - 1; i++) {
-          const part = parts[i];
-          if (source && typeof source === 'object' && part in source) {
-            source = source[part] as Record<string, unknown>;
-            if (!(part in target)) {
-              target[part] = {};
-            }
-            target = target[part] as Record<string, unknown>;
-          } else {
-            return; // Skip this field if path doesn't exist
-          }
-        }
-        
-        // Set the final value
-        const finalPart = parts[parts.length - 1];
-        if (source && typeof source === 'object' && finalPart in source) {
-          target[finalPart] = source[finalPart];
-        }
-      } else {
-        // Handle top-level fields
-        if (field in obj) {
-          filtered[field] = obj[field];
-        }
-      }
-    });
-    
-    return filtered;
+    return 'Unknown Instance';
   };
 
   const getFilteredResults = () => {
     if (!activeSession) return [];
     
+    const byCategory = (categoryFilter === 'all'
+      ? activeSession.results
+      : activeSession.results.filter(result => result.category === categoryFilter)
+    ).filter(result => fieldFilter === 'all' || result.fieldDiffs?.some(diff => diff.field === fieldFilter));
+    
     if (activeFilter === 'all') {
-      return activeSession.results;
+      // Accepted divergences are listed under their own filter only
+      return byCategory.filter(result => result.type !== 'accepted');
     }
     
-    return activeSession.results.filter(result => result.type === activeFilter);
+    return byCategory.filter(result => result.type === activeFilter);
   };
 
-  const handleFilterClick = (filterType: 'all' | 'added' | 'deleted' | 'edited') => {
+  // Feature toggle results carry a category separating flipped flags from metadata drift
+  const hasCategories = !!activeSession?.results.some(result => result.category);
+
+  // Fields that differ somewhere in the session, used to filter e.g. expiry changes only
+  const changedFields = Array.from(new Set(
+    (activeSession?.results || []).flatMap(result => (result.fieldDiffs || []).map(diff => diff.field))
+  ));
+
+  const handleFilterClick = (filterType: 'all' | 'added' | 'deleted' | 'edited' | 'moved' | 'accepted') => {
     setActiveFilter(filterType);
   };
 
@@ -129,11 +143,27 @@ const Summary: React.FC = () => {
     setExpandedItems(newExpanded);
   };
 
+  // Sessions restored from IndexedDB load their results when opened, once per visit
+  const requestedResults = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    if (activeSession?.resultsLoaded === false && !requestedResults.current.has(activeSession.id)) {
+      requestedResults.current.add(activeSession.id);
+      dispatch(loadSessionResults(activeSession.id));
+    }
+  }, [activeSession, dispatch]);
+
+  // Reset field filters when switching sessions, their options come from the session results
+  useEffect(() => {
+    setCategoryFilter('all');
+    setFieldFilter('all');
+  }, [activeSessionId]);
+
   // Clear migration selections and expanded items when filter changes
   useEffect(() => {
     setSelectedForMigration([]);
+    setFieldSelections({});
     setExpandedItems(new Set());
-  }, [activeFilter]);
+  }, [activeFilter, categoryFilter, fieldFilter]);
 
   const getDifferenceTypeIcon = (type: string) => {
     switch (type) {
@@ -143,6 +173,10 @@ const Summary: React.FC = () => {
         return <TrendingDown className="h-4 w-4 text-destructive" />;
       case 'edited':
         return <Pencil className="h-4 w-4 text-warning" />;
+      case 'moved':
+        return <ArrowLeftRight className="h-4 w-4 text-primary" />;
+      case 'accepted':
+        return <ShieldCheck className="h-4 w-4 text-muted-foreground" />;
       default:
         return null;
     }
@@ -155,12 +189,20 @@ const Summary: React.FC = () => {
       case 'deleted':
         return 'destructive';
       case 'edited':
+      case 'moved':
         return 'outline';
       default:
         return 'secondary';
     }
   };
 
+  // Literal class names so Tailwind keeps them
+  const statisticsGridColumns: Record<number, string> = {
+    4: 'md:grid-cols-4',
+    5: 'md:grid-cols-5',
+    6: 'md:grid-cols-6',
+  };
+
   const handleDeleteSession = (sessionId: string) => {
     dispatch(deleteSession(sessionId));
   };
@@ -170,6 +212,16 @@ const Summary: React.FC = () => {
       setSelectedForMigration([...selectedForMigration, path]);
     } else {
       setSelectedForMigration(selectedForMigration.filter(p => p !== path));
+      setFieldSelections(({ [path]: _, ...rest }) => rest);
+    }
+  };
+
+  // Picking a field selects its item; the item then posts only its picked fields
+  const handleFieldSelection = (path: string, field: string, checked: boolean) => {
+    const fields = fieldSelections[path] || [];
+    setFieldSelections({ ...fieldSelections, [path]: checked ? [...fields, field] : fields.filter(f => f !== field) });
+    if (checked && !selectedForMigration.includes(path)) {
+      setSelectedForMigration([...selectedForMigration, path]);
     }
   };
 
@@ -179,6 +231,7 @@ const Summary: React.FC = () => {
       setSelectedForMigration(allPaths);
     } else {
       setSelectedForMigration([]);
+      setFieldSelections({});
     }
   };
 
@@ -193,8 +246,12 @@ const Summary: React.FC = () => {
     return selectedCount > 0 && selectedCount < filteredResults.length;
   };
 
+  // Save endpoint of the session's type, whatever type is selected in the header
+  const getSaveEndpoint = (type: string) =>
+    builtInEndpoints[type]?.saveEndpoint || customTypes?.find(t => t.id === type)?.saveEndpoint || currentSaveEndpoint;
+
   const handleMigration = async () => {
-    if (!activeSession || !migrationTarget || !migrationSource || selectedForMigration.length === 0) {
+    if (!activeSession || migrationTargets.length === 0 || !migrationSource || selectedForMigration.length === 0) {
       toast({
         title: "Migration Setup Required",
         description: "Please select source, target, and settings to migrate",
@@ -203,362 +260,273 @@ const Summary: React.FC = () => {
       return;
     }
 
-    // Special handling for settings and code table migration - always use array format
-    if (comparisonType === 'settings' || comparisonType?.toLowerCase() === 'settings' || comparisonType?.includes('settings') ||
-        comparisonType === 'codeTable' || comparisonType?.toLowerCase() === 'codetable' || comparisonType?.includes('codeTable')) {
-      const sourceInstanceData = instanceData[migrationSource];
-      
-      if (!sourceInstanceData || !Array.isArray(sourceInstanceData.data)) {
-        toast({
-          title: "Invalid Settings Data",
-          description: "Settings data should be in array format",
-          variant: "destructive",
-        });
-        return;
-      }
+    const sessionComparisonType = activeSession.comparisonType || comparisonType;
+    const plans: Record<string, MigrationPlan> = {};
+    const itemIds: Record<string, string[]> = {};
+    const errors: MigrationPlanError[] = [];
+    const fields = canCherryPick
+      ? Object.fromEntries(selectedForMigration.filter(path => fieldSelections[path]?.length).map(path => [path, fieldSelections[path]]))
+      : {};
 
-      const sourceArray = sourceInstanceData.data as Record<string, unknown>[];
-      
-      // Initialize selected items array
-      const selectedItems: Record<string, unknown>[] = [];
-      console.log(selectedForMigration);
-      console.log(comparisonType);
-      if (comparisonType === 'settings') {
-        // For settings, collect entity identifiers and find corresponding SettingItem objects
-        const selectedIdentifiers = new Set<string>();
-        selectedForMigration.forEach(path => {
-          // For settings, the path IS the entity identifier
-          selectedIdentifiers.add(path);
-        });
-
-        // Find corresponding settings items
-        selectedIdentifiers.forEach(identifier => {
-          const sourceItem = sourceArray.find(item => item['Entity'] === identifier);
-          if (sourceItem) {
-            selectedItems.push(sourceItem);
-          }
-        });
-      } else if (comparisonType === 'codeTable') {
-        // Support selecting entire table (path === tableName) or individual records (tableName.recordKey)
-        type TableSelection = { all: boolean; keys: Set<number> };
-        const tableSelections = new Map<string, TableSelection>();
-        selectedForMigration.forEach(path => {
-          if (path.includes('.') && /\.\d+$/.test(path)) {
-            // record-level selection
-            const lastDot = path.lastIndexOf('.');
-            const tableName = path.substring(0, lastDot);
-            const keyStr = path.substring(lastDot + 1);
-            const keyNum = parseInt(keyStr, 10);
-            if (!Number.isNaN(keyNum)) {
-              if (!tableSelections.has(tableName)) tableSelections.set(tableName, { all: false, keys: new Set() });
-              const sel = tableSelections.get(tableName)!;
-              if (!sel.all) sel.keys.add(keyNum);
-            }
-          } else {
-            // table-level selection
-            if (!tableSelections.has(path)) tableSelections.set(path, { all: true, keys: new Set() });
-            else tableSelections.get(path)!.all = true; // upgrade
-          }
-        });
-        console.log(selectedForMigration);
-        tableSelections.forEach((sel, tableName) => {
-          interface TableVariant { Name: string; CtData?: CtRecord[]; ctdata?: CtRecord[] }
-          interface CtRecord { Key: number; Code: string; Description: string; Expired: boolean }
-          const found = sourceArray.find(item => item['Name'] === tableName);
-          const originalTable = found ? (found as unknown as TableVariant) : undefined;
-          if (!originalTable) return;
-          const records: CtRecord[] = Array.isArray(originalTable.CtData)
-            ? originalTable.CtData
-            : (Array.isArray(originalTable.ctdata) ? originalTable.ctdata as CtRecord[] : []);
-          console.log(records);
-          if (sel.all) {
-            if (records.length > 0) selectedItems.push({ Name: tableName, CtData: records });
-          } else {
-            const filtered = records.filter(r => sel.keys.has(r.Key));
-            if (filtered.length > 0) selectedItems.push({ Name: tableName, CtData: filtered });
-          }
-        });
-      }
+    // The source is migrated as it was in the session, which is also what verification compares against
+    const sourceSnapshot = activeSession.snapshots?.[migrationSource];
+    const heldSource = instanceData[migrationSource];
+    let sourceData: unknown;
+    setPreparingPreview(true);
+    try {
+      sourceData = sourceSnapshot
+        ? await loadSnapshotData(sourceSnapshot.id)
+        : heldSource?.comparisonType === sessionComparisonType ? heldSource.data : undefined;
+    } catch (error) {
+      // Failed to load the source snapshot; reported below
+    }
+    if (sourceData === undefined) {
+      setPreparingPreview(false);
+      toast({
+        title: "Source Data Unavailable",
+        description: sourceSnapshot
+          ? "The source's data from this session could not be loaded"
+          : "The source's data from this session is no longer held. Fetch it for this comparison type and compare again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // The plans and dry runs use each target's current data of the session's type
+    const fetchedTargets = await Promise.all(migrationTargets.map(targetId =>
+      dispatch(fetchMigrationTarget({ instanceId: targetId, comparisonType: sessionComparisonType }))));
+    setPreparingPreview(false);
 
-      if (selectedItems.length === 0) {
-        toast({
-          title: "No Data to Migrate",
-          description: "No matching settings found for migration",
-          variant: "destructive",
-        });
-        return;
+    // Each target only gets the selected items that differ there
+    const targets = migrationTargets.map((targetId, index): MigrationPreviewTarget => {
+      const name = getInstanceName(targetId);
+      const targetPaths = getDifferingPaths(selectedForMigration, activeSession.results, migrationSource, targetId, fields);
+      if (targetPaths.length === 0) {
+        return { instanceId: targetId, name, itemCount: 0, skippedReason: 'Already matches the source for every selected item', changes: [] };
+      }
+      const fetched = fetchedTargets[index];
+      if (!fetchMigrationTarget.fulfilled.match(fetched)) {
+        const description = `Could not fetch its current data: ${fetched.error.message}`;
+        errors.push({ title: 'Target Fetch Failed', description });
+        return { instanceId: targetId, name, itemCount: 0, skippedReason: description, changes: [] };
       }
+      const targetData = fetched.payload;
 
-      try {
-        await dispatch(postInstanceData({
-          instanceId: migrationTarget,
-          endpoint: currentSaveEndpoint,
-          data: { "Data": selectedItems }
-        }));
+      const { plan, error } = buildMigrationPlan({
+        comparisonType: sessionComparisonType,
+        customTypes,
+        sourceInstanceId: migrationSource,
+        sourceData,
+        selectedPaths: targetPaths,
+        results: activeSession.results,
+        codeTableStrategy,
+        fieldSelections: fields,
+        targetData: targetData.data,
+      });
+      if (error) {
+        errors.push(error);
+        return { instanceId: targetId, name, itemCount: 0, skippedReason: error.description, changes: [] };
+      }
+      plans[targetId] = plan;
+      itemIds[targetId] = targetPaths;
 
-        const label = comparisonType === 'codeTable' ? 'code table item(s)' : 'settings';
-        toast({
-          title: "Migration Successful",
-          description: `${selectedItems.length} ${label} migrated to ${getInstanceName(migrationTarget)}`,
-        });
+      return {
+        instanceId: targetId,
+        name,
+        body: plan.body,
+        itemCount: plan.itemCount,
+        capturedAt: targetData.timestamp,
+        changes: diffMigration(sessionComparisonType, customTypes, targetData.data, simulateMigration(plan, targetData.data)),
+      };
+    });
 
-        setSelectedForMigration([]);
-        return;
-      } catch (error) {
-        toast({
-          title: "Migration Failed",
-          description: "Failed to migrate settings",
-          variant: "destructive",
-        });
-        return;
-      }
+    if (errors.length === migrationTargets.length) {
+      toast({
+        title: errors[0].title,
+        description: errors[0].description,
+        variant: "destructive",
+      });
+      return;
     }
 
-    // Check if using custom comparison type with response fields
-    const customType = customTypes?.find(type => type.id === comparisonType);
+    setTargetStatuses({});
+    setMigrationPreview({ targets, plans, itemIds, fields });
+  };
 
-    // Check if we should use response field filtering
-    // This applies to custom types with response fields OR when we detect array-based data that looks like feature toggles
-    const sourceInstanceData = instanceData[migrationSource];
-    const isArrayBasedData = sourceInstanceData && Array.isArray(sourceInstanceData.data);
-    
-    const hasFeatureToggleStructure = isArrayBasedData && 
-      (sourceInstanceData.data as unknown[]).length > 0 && 
-      typeof (sourceInstanceData.data as unknown[])[0] === 'object' &&
-      'FeatureName' in ((sourceInstanceData.data as unknown[])[0] as Record<string, unknown>);
-
-    const shouldUseResponseFieldFiltering = 
-      (customType && customType.responseFields && customType.responseFields.length > 0) ||
-      (comparisonType === 'featureToggle') ||
-      (comparisonType === 'settings') ||
-      hasFeatureToggleStructure;
-
-    // For response field filtering logic (custom types, feature toggles, or auto-detected feature toggle structure)
-    if (shouldUseResponseFieldFiltering) {
-      
-      // Get the source instance data directly
-      if (!sourceInstanceData || !sourceInstanceData.data) {
-        toast({
-          title: "No Source Data",
-          description: "Source instance has no data available",
-          variant: "destructive",
-        });
-        return;
-      }
+  const migrateTarget = async (targetId: string, plan: MigrationPlan, targetPaths: string[], fields: Record<string, string[]>) => {
+    setTargetStatuses(statuses => ({ ...statuses, [targetId]: { state: 'running' } }));
+    // The rollback backup is taken from the target as it is right now; without it nothing is posted
+    const fetched = await dispatch(fetchMigrationTarget({ instanceId: targetId, comparisonType: plan.comparisonType }));
+    if (!fetchMigrationTarget.fulfilled.match(fetched)) {
+      setTargetStatuses(statuses => ({
+        ...statuses,
+        [targetId]: { state: 'failed', error: `Not posted: could not fetch the target's current data for a backup (${fetched.error.message})` },
+      }));
+      return false;
+    }
+    const targetRecord = fetched.payload;
+    const resultPath = builtInEndpoints[plan.comparisonType]?.saveResultPath
+      || customTypes?.find(type => type.id === plan.comparisonType)?.saveResultPath;
+    const batches = splitMigrationPlan(plan, migrationBatchSize);
+    const failedItems: MigrationItemResult[] = [];
+    const savedPaths: string[] = [];
+    let batchError: string | undefined;
 
-      // Determine response fields and identifier field
-      let responseFields: string[] = [];
-      let identifierField: string | undefined;
-
-      if (customType && customType.responseFields && customType.responseFields.length > 0) {
-        responseFields = customType.responseFields;
-        identifierField = customType.identifierField;
-      } else if (comparisonType === 'settings') {
-        // For settings, we want to preserve the full SettingItem structure
-        responseFields = ['Entity', 'Name', 'Description', 'Data', 'Role', 'Profile', 'Format', 'Recno', 'RoleText', 'ProfileText', 'OverriddenFor', 'UpdatedBy'];
-        identifierField = 'Entity';
-      } else if (comparisonType === 'featureToggle' || hasFeatureToggleStructure) {
-        // Default response fields for feature toggles
-        responseFields = ['FeatureName', 'CurrentValue'];
-        identifierField = 'FeatureName';
-      }
+    // Batches go one after another so a failing endpoint is not hammered
+    for (const [index, batch] of batches.entries()) {
+      setTargetStatuses(statuses => ({
+        ...statuses,
+        [targetId]: { state: 'running', batches: { posted: index, total: batches.length } },
+      }));
+      const batchItemIds = getPlanItemIds(batch);
+      const batchPaths = selectPlanPaths(batch, targetPaths);
+      // Capture the target's current values of the batch's items for a rollback
+      const backup = buildMigrationBackup(batch, targetRecord.data);
+      try {
+        const result = await dispatch(runMigration({
+          origin: 'summary',
+          sourceInstanceId: migrationSource,
+          targetInstanceId: targetId,
+          comparisonType: batch.comparisonType,
+          endpoint: getSaveEndpoint(batch.comparisonType),
+          body: batch.body,
+          itemCount: batch.itemCount,
+          itemLabel: batch.itemLabel,
+          itemIds: batchPaths,
+          resultPath,
+          postedItemIds: batchItemIds,
+          backup: {
+            capturedAt: targetRecord.timestamp,
+            body: { Data: backup.data },
+            itemCount: backup.itemCount,
+            createdItems: backup.createdItems,
+          },
+        })).unwrap();
 
-      let finalData: Record<string, unknown> | Record<string, unknown>[] = {};
-
-      if (comparisonType === 'settings' && identifierField) {
-        // Special handling for settings - always treat as array-based data
-        
-        // Ensure we have array data for settings
-        if (!Array.isArray(sourceInstanceData.data)) {
-          toast({
-            title: "Invalid Settings Data",
-            description: "Settings data should be in array format",
-            variant: "destructive",
-          });
-          return;
+        if (result.status === 'failed' && !result.itemResults) {
+          batchError = result.error;
+          failedItems.push(...batchItemIds.map(itemId => ({ itemId, succeeded: false, error: result.error })));
+        } else {
+          const rejected = getFailedItems(result);
+          const rejectedIds = new Set(rejected.map(item => item.itemId));
+          failedItems.push(...rejected);
+          savedPaths.push(...selectPlanPaths(selectPlanItems(batch, batchItemIds.filter(id => !rejectedIds.has(id))), batchPaths));
         }
-        
-        const sourceArray = sourceInstanceData.data as Record<string, unknown>[];
-        
-        // Collect all unique identifiers from selected paths
-        const selectedIdentifiers = new Set<string>();
-        selectedForMigration.forEach(path => {
-          // For settings, the path IS the entity identifier
-          selectedIdentifiers.add(path);
-        });
-
-        // Find corresponding settings items
-        const selectedItems: Record<string, unknown>[] = [];
-        selectedIdentifiers.forEach(identifier => {
-          const sourceItem = sourceArray.find(item => 
-            item[identifierField!] === identifier
-          );
-          
-          if (sourceItem) {
-            // For settings, preserve the entire SettingItem object
-            selectedItems.push(sourceItem);
-          }
-        });
-
-        // Always return as array since backend expects List<SettingItem> in Data property
-        finalData = selectedItems;
-      } else if (identifierField && Array.isArray(sourceInstanceData.data)) {
-        // Handle array-based data (like feature toggles)
-        const sourceArray = sourceInstanceData.data as Record<string, unknown>[];
-        
-        // Collect all unique identifiers from selected paths
-        const selectedIdentifiers = new Set<string>();
-        selectedForMigration.forEach(path => {
-          // For feature toggles and others, extract identifier from path (e.g., "EnableInfoProtectionTrace.CurrentValue" -> "EnableInfoProtectionTrace")
-          const identifierValue = path.split('.')[0];
-          selectedIdentifiers.add(identifierValue);
-        });
-
-        // Find and filter corresponding items
-        const selectedItems: Record<string, unknown>[] = [];
-        selectedIdentifiers.forEach(identifier => {
-          const sourceItem = sourceArray.find(item => 
-            item[identifierField!] === identifier
-          );
-          
-          if (sourceItem) {
-            // For other types, filter by response fields
-            const filteredItem = filterObjectFields(sourceItem, responseFields);
-            if (Object.keys(filteredItem).length > 0) {
-              selectedItems.push(filteredItem);
-            }
-          }
-        });
-
-        // Always return as array since backend expects List<T> in Data property
-        finalData = selectedItems;
-      } else {
-        // Handle object-based data or custom types without identifier field
-        
-        // Build migration data from selected paths
-        const migrationData: Record<string, unknown> = {};
-        
-        selectedForMigration.forEach(path => {
-          const result = activeSession.results.find(r => r.path === path);
-          if (result && hasResultValues(result)) {
-            const sourceValue = result.values[migrationSource];
-            if (sourceValue !== undefined && sourceValue !== 'MISSING') {
-              // Convert path like "config.theme" to nested object structure
-              const pathParts = path.split('.');
-              let current = migrationData;
-              
-              for (let i = 0; i < pathParts.length - 1; i++) {
-                const part = pathParts[i];
-                if (!(part in current)) {
-                  current[part] = {};
-                }
-                current = current[part] as Record<string, unknown>;
-              }
-              
-              current[pathParts[pathParts.length - 1]] = sourceValue;
-            }
-          }
-        });
-
-        // Apply response field filtering to the migration data
-        finalData = filterObjectFields(migrationData, responseFields);
-      }
-
-      // Check if there's data to migrate (handle both arrays and objects)
-      const hasDataToMigrate = Array.isArray(finalData) ? finalData.length > 0 : Object.keys(finalData).length > 0;
-      
-      if (!hasDataToMigrate) {
-        toast({
-          title: "No Data to Migrate",
-          description: "No matching data found for the selected response fields",
-          variant: "destructive",
-        });
-        return;
+      } catch (error) {
+        // Failed to post this batch; the remaining batches carry on
+        batchError = error instanceof Error ? error.message : 'Failed to migrate settings';
+        failedItems.push(...batchItemIds.map(itemId => ({ itemId, succeeded: false, error: batchError })));
       }
-      
-      try {
-        await dispatch(postInstanceData({
-          instanceId: migrationTarget,
-          endpoint: currentSaveEndpoint,
-          data: { "Data": finalData }
-        }));
+    }
 
-        toast({
-          title: "Migration Successful",
-          description: `Selected fields migrated to ${getInstanceName(migrationTarget)}`,
-        });
+    // Leave only what failed to be posted by a retry
+    const retryPlan = plan.kind === 'object'
+      ? (batchError ? plan : null)
+      : (failedItems.length > 0 ? selectPlanItems(plan, failedItems.map(item => item.itemId)) : null);
+    if (retryPlan) {
+      setMigrationPreview(preview => preview && ({
+        ...preview,
+        plans: { ...preview.plans, [targetId]: retryPlan },
+        itemIds: { ...preview.itemIds, [targetId]: selectPlanPaths(retryPlan, targetPaths) },
+      }));
+    }
 
-        setSelectedForMigration([]);
-        return;
-      } catch (error) {
-        toast({
-          title: "Migration Failed",
-          description: "Failed to migrate settings",
-          variant: "destructive",
-        });
-        return;
-      }
+    const outcome: MigrationTargetStatus = !retryPlan
+      ? { state: 'succeeded' }
+      : {
+          state: savedPaths.length > 0 ? 'partial' : 'failed',
+          error: plan.kind === 'object' || failedItems.length === plan.itemCount
+            ? batchError || `All ${plan.itemCount} item(s) failed`
+            : `${failedItems.length} of ${plan.itemCount} item(s) failed`,
+          failedItems: plan.kind === 'object' ? undefined : failedItems,
+        };
+    if (savedPaths.length === 0) {
+      setTargetStatuses(statuses => ({ ...statuses, [targetId]: outcome }));
+      return !retryPlan;
     }
 
-    // Original logic for built-in comparison types and custom types without response fields
-    const migrationData: Record<string, unknown> = {};
-    
-    // Extract values from the selected comparison results
-    selectedForMigration.forEach(path => {
-      const result = activeSession.results.find(r => r.path === path);
-      if (result && hasResultValues(result)) {
-        // Get the value from the source instance
-        const sourceValue = result.values[migrationSource];
-        if (sourceValue !== undefined && sourceValue !== 'MISSING') {
-          // Convert path like "config.theme" to nested object structure
-          const pathParts = path.split('.');
-          let current = migrationData;
-          
-          for (let i = 0; i < pathParts.length - 1; i++) {
-            const part = pathParts[i];
-            if (!(part in current)) {
-              current[part] = {};
-            }
-            current = current[part] as Record<string, unknown>;
-          }
-          
-          // Set the final value
-          current[pathParts[pathParts.length - 1]] = sourceValue;
-        }
+    // Re-fetch the target and check the saved results in the active session
+    const emptyVerification = { verified: 0, stillDifferent: 0 };
+    setTargetStatuses(statuses => ({
+      ...statuses,
+      [targetId]: { ...outcome, verification: { state: 'running', ...emptyVerification } },
+    }));
+    const verification = await dispatch(verifyMigration({
+      sessionId: activeSession.id,
+      sourceInstanceId: migrationSource,
+      targetInstanceId: targetId,
+      paths: savedPaths,
+      fields,
+    }));
+    const checks = verifyMigration.fulfilled.match(verification) ? Object.values(verification.payload.checks) : [];
+    const failedCheck = checks.find(check => check.state === 'failed');
+    setTargetStatuses(statuses => ({
+      ...statuses,
+      [targetId]: {
+        ...outcome,
+        verification: checks.length === 0 || failedCheck
+          ? { state: 'failed', ...emptyVerification, error: failedCheck?.error || 'Failed to verify migration' }
+          : {
+              state: 'done',
+              verified: checks.filter(check => check.state === 'verified').length,
+              stillDifferent: checks.filter(check => check.state === 'still-different').length,
+            },
+      },
+    }));
+    return !retryPlan;
+  };
+
+  const runMigrations = async (targetIds: string[]) => {
+    if (!migrationPreview) return;
+    const { plans, itemIds, fields } = migrationPreview;
+
+    setTargetStatuses(statuses => ({
+      ...statuses,
+      ...Object.fromEntries(targetIds.map(id => [id, { state: 'pending' as const }])),
+    }));
+    setIsMigrating(true);
+    const results = await runWithConcurrency(targetIds, migrationConcurrency, targetId =>
+      migrateTarget(targetId, plans[targetId], itemIds[targetId], fields));
+    setIsMigrating(false);
+
+    // A target whose migration threw is failed; the others keep their own outcome
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        setTargetStatuses(statuses => ({
+          ...statuses,
+          [targetIds[index]]: { state: 'failed', error: result.reason instanceof Error ? result.reason.message : 'Failed to migrate settings' },
+        }));
       }
     });
+    const succeeded = results.filter(result => result.status === 'fulfilled' && result.value).length;
 
-    if (Object.keys(migrationData).length === 0) {
-      toast({
-        title: "No Data to Migrate",
-        description: "No valid data found in source instance for selected settings",
-        variant: "destructive",
-      });
-      return;
-    }
-    
-    try {
-      await dispatch(postInstanceData({
-        instanceId: migrationTarget,
-        endpoint: currentSaveEndpoint,
-        data: { "Data": migrationData }
-      }));
-
+    if (succeeded === targetIds.length) {
       toast({
         title: "Migration Successful",
-        description: `${selectedForMigration.length} settings migrated to ${getInstanceName(migrationTarget)}`,
+        description: targetIds.length === 1
+          ? `${plans[targetIds[0]].itemCount} ${plans[targetIds[0]].itemLabel} migrated to ${getInstanceName(targetIds[0])}`
+          : `Settings migrated to ${targetIds.length} instance(s)`,
       });
-
       setSelectedForMigration([]);
-    } catch (error) {
+      setFieldSelections({});
+    } else {
       toast({
         title: "Migration Failed",
-        description: "Failed to migrate settings",
+        description: `${targetIds.length - succeeded} of ${targetIds.length} target(s) failed`,
         variant: "destructive",
       });
     }
   };
 
+  const handleConfirmMigration = () => runMigrations(Object.keys(migrationPreview?.plans || {}));
+
+  const handleRetryFailedMigrations = () =>
+    runMigrations(Object.keys(targetStatuses).filter(id => ['failed', 'partial'].includes(targetStatuses[id].state)));
+
+  const handleMigrationTargetToggle = (targetId: string, checked: boolean) => {
+    setMigrationTargets(checked ? [...migrationTargets, targetId] : migrationTargets.filter(id => id !== targetId));
+  };
+
   return (
     <div className="space-y-8">
       {/* Header */}
@@ -628,6 +596,9 @@ const Summary: React.FC = () => {
                               >
                                 {getInstanceName(id)}
                                 {baseInstanceId === id && ' (Base)'}
+                                {session.snapshots?.[id] && (
+                                  <span className="ml-1 opacity-70">@ {new Date(session.snapshots[id].timestamp).toLocaleString()}</span>
+                                )}
                               </Badge>
                               {index < session.instanceIds.length - 1 && (
                                 <span className="text-muted-foreground">vs</span>
@@ -676,7 +647,7 @@ const Summary: React.FC = () => {
       {activeSession && (
         <>
                 {/* Migration Controls */}
-        {activeSession && (
+        {activeSession && !activeSession.temporal && (
           <Card className="border-primary/20">
             <CardHeader>
               <CardTitle className="flex items-center space-x-2">
@@ -691,7 +662,7 @@ const Summary: React.FC = () => {
               <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
                 <div>
                   <label className="text-sm font-medium mb-2 block">Source Instance</label>
-                  <Select value={migrationSource} onValueChange={setMigrationSource}>
+                  <Select value={migrationSource} onValueChange={(value) => { setMigrationSource(value); setMigrationTargets(targets => targets.filter(id => id !== value)); }}>
                     <SelectTrigger>
                       <SelectValue placeholder="Select source..." />
                     </SelectTrigger>
@@ -706,19 +677,69 @@ const Summary: React.FC = () => {
                 </div>
                 
                 <div>
-                  <label className="text-sm font-medium mb-2 block">Target Instance</label>
-                  <Select value={migrationTarget} onValueChange={setMigrationTarget}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select target..." />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {activeSession.instanceIds
-                        .filter(id => id !== migrationSource)
-                        .map((id) => (
-                          <SelectItem key={id} value={id}>
+                  <label className="text-sm font-medium mb-2 block">Target Instances</label>
+                  <div className="space-y-2 rounded-md border p-3">
+                    {activeSession.instanceIds
+                      .filter(id => id !== migrationSource)
+                      .map((id) => (
+                        <div key={id} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`migration-target-${id}`}
+                            checked={migrationTargets.includes(id)}
+                            onCheckedChange={(checked) => handleMigrationTargetToggle(id, checked as boolean)}
+                          />
+                          <label htmlFor={`migration-target-${id}`} className="text-sm cursor-pointer">
                             {getInstanceName(id)}
-                          </SelectItem>
+                          </label>
+                        </div>
+                      ))}
+                  </div>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-4">
+                {migrationTargets.length > 1 && (
+                  <div className="flex items-center space-x-2">
+                    <label className="text-sm font-medium">Parallel migrations</label>
+                    <Select value={String(migrationConcurrency)} onValueChange={(value) => setMigrationConcurrency(Number(value))}>
+                      <SelectTrigger className="w-24">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {[1, 2, 3, 5].map(limit => (
+                          <SelectItem key={limit} value={String(limit)}>{limit}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {isCodeTableSession && (
+                  <div className="flex items-center space-x-2">
+                    <label className="text-sm font-medium">Code table strategy</label>
+                    <Select value={codeTableStrategy} onValueChange={(value) => setCodeTableStrategy(value as CodeTableMergeStrategy)}>
+                      <SelectTrigger className="w-56">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(CODE_TABLE_STRATEGIES) as CodeTableMergeStrategy[]).map(strategy => (
+                          <SelectItem key={strategy} value={strategy}>{CODE_TABLE_STRATEGIES[strategy].label}</SelectItem>
                         ))}
+                      </SelectContent>
+                    </Select>
+                    <span className="text-xs text-muted-foreground">{CODE_TABLE_STRATEGIES[codeTableStrategy].description}</span>
+                  </div>
+                )}
+                <div className="flex items-center space-x-2">
+                  <label className="text-sm font-medium">Batch size</label>
+                  <Select value={String(migrationBatchSize)} onValueChange={(value) => setMigrationBatchSize(Number(value))}>
+                    <SelectTrigger className="w-24">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="0">All</SelectItem>
+                      {[10, 25, 50, 100].map(size => (
+                        <SelectItem key={size} value={String(size)}>{size}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -734,18 +755,18 @@ const Summary: React.FC = () => {
                   </span>
                   <Button
                     onClick={handleMigration}
-                    disabled={loading || !migrationTarget || !migrationSource}
+                    disabled={loading || preparingPreview || migrationTargets.length === 0 || !migrationSource}
                     size="sm"
                   >
-                    {loading ? (
+                    {loading || preparingPreview ? (
                       <>
                         <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                        Migrating...
+                        {preparingPreview ? 'Fetching targets...' : 'Migrating...'}
                       </>
                     ) : (
                       <>
-                        <Save className="h-4 w-4 mr-2" />
-                        Migrate Settings
+                        <Eye className="h-4 w-4 mr-2" />
+                        Preview Migration
                       </>
                     )}
                   </Button>
@@ -755,8 +776,35 @@ const Summary: React.FC = () => {
           </Card>
         )}
 
+          {/* Migration History */}
+          {!activeSession.temporal && <MigrationHistoryCard instanceIds={activeSession.instanceIds} />}
+
+          {/* Stored Results Loading */}
+          {activeSession.resultsLoaded === false && (
+            <Card>
+              <CardContent className="p-6 flex items-center space-x-2 text-sm text-muted-foreground">
+                {loadingResultsFor === activeSession.id || !requestedResults.current.has(activeSession.id) ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    <span>Loading stored results...</span>
+                  </>
+                ) : (
+                  <span>Stored results could not be loaded</span>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Change Timeline */}
+          {activeSession.temporal && (
+            <ChangeTimeline
+              temporal={activeSession.temporal}
+              instanceName={instances.find(i => i.id === activeSession.temporal.instanceId)?.name || 'Unknown Instance'}
+            />
+          )}
+
           {/* Summary Statistics */}
-          <div className="grid grid-cols-1 gap-4 md:grid-cols-4">
+          <div className={`grid grid-cols-1 gap-4 ${statisticsGridColumns[4 + (activeSession.summary.moved ? 1 : 0) + (activeSession.summary.accepted ? 1 : 0)]}`}>
             <Card 
               className={`cursor-pointer transition-all hover:shadow-md ${activeFilter === 'all' ? 'border-primary bg-primary/5' : ''}`}
               onClick={() => handleFilterClick('all')}
@@ -824,8 +872,70 @@ const Summary: React.FC = () => {
                 </div>
               </CardContent>
             </Card>
+            
+            {!!activeSession.summary.moved && (
+              <Card 
+                className={`cursor-pointer transition-all hover:shadow-md ${activeFilter === 'moved' ? 'border-primary bg-primary/5' : ''}`}
+                onClick={() => handleFilterClick('moved')}
+              >
+                <CardContent className="p-6">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">Moved</p>
+                      <p className="text-2xl font-bold text-primary">
+                        {activeSession.summary.moved}
+                      </p>
+                    </div>
+                    <ArrowLeftRight className="h-8 w-8 text-primary" />
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+            
+            {!!activeSession.summary.accepted && (
+              <Card 
+                className={`cursor-pointer transition-all hover:shadow-md ${activeFilter === 'accepted' ? 'border-primary bg-primary/5' : ''}`}
+                onClick={() => handleFilterClick('accepted')}
+              >
+                <CardContent className="p-6">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">Accepted</p>
+                      <p className="text-2xl font-bold text-muted-foreground">
+                        {activeSession.summary.accepted}
+                      </p>
+                    </div>
+                    <ShieldCheck className="h-8 w-8 text-muted-foreground" />
+                  </div>
+                </CardContent>
+              </Card>
+            )}
           </div>
 
+          {/* Ignore Rule Suppressions */}
+          {activeSession.suppressed && activeSession.suppressed.length > 0 && (
+            <Card>
+              <CardContent className="p-4">
+                <div className="flex items-start space-x-3">
+                  <EyeOff className="h-5 w-5 text-muted-foreground mt-0.5" />
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">
+                      {activeSession.suppressed.reduce((sum, s) => sum + s.results, 0)} difference(s) suppressed by ignore rules
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {activeSession.suppressed.map(suppression => (
+                        <Badge key={suppression.ruleId} variant="secondary" className="text-xs">
+                          {suppression.ruleName}: {suppression.results} result(s)
+                          {suppression.fields > 0 && `, ${suppression.fields} field(s)`}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
         {/* Detailed Differences */}
           <Card>
             <CardHeader>
@@ -854,11 +964,38 @@ const Summary: React.FC = () => {
                     </div>
                   )}
                 </div>
-                {activeFilter !== 'all' && (
-                  <Badge variant="outline" className="text-xs">
-                    Filter: {activeFilter.charAt(0).toUpperCase() + activeFilter.slice(1)}
-                  </Badge>
-                )}
+                <div className="flex items-center space-x-2">
+                  {hasCategories && (
+                    <Select value={categoryFilter} onValueChange={(value) => setCategoryFilter(value as 'all' | 'value' | 'metadata')}>
+                      <SelectTrigger className="h-8 w-44 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All changes</SelectItem>
+                        <SelectItem value="value">Flag flipped</SelectItem>
+                        <SelectItem value="metadata">Metadata drift</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  )}
+                  {changedFields.length > 0 && (
+                    <Select value={fieldFilter} onValueChange={setFieldFilter}>
+                      <SelectTrigger className="h-8 w-44 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">Any changed field</SelectItem>
+                        {changedFields.map(field => (
+                          <SelectItem key={field} value={field}>{field} changed</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  {activeFilter !== 'all' && (
+                    <Badge variant="outline" className="text-xs">
+                      Filter: {activeFilter.charAt(0).toUpperCase() + activeFilter.slice(1)}
+                    </Badge>
+                  )}
+                </div>
               </div>
           <CardDescription>
             {activeFilter === 'all' 
@@ -882,12 +1019,22 @@ const Summary: React.FC = () => {
                 </div>
               ) : (
         <div className="grid grid-cols-1 gap-4">
-          {getFilteredResults().map((result, index) => {
+          {getFilteredResults().map((result, index, filteredResults) => {
             const isExpanded = expandedItems.has(index);
+            const startsGroup = !!result.group && filteredResults[index - 1]?.group !== result.group;
+            const groupSize = startsGroup ? filteredResults.filter(r => r.group === result.group).length : 0;
             return (
+              <React.Fragment key={index}>
+              {/* Group Header - shown once per entity with scoped results */}
+              {startsGroup && (
+                <div className="flex items-center space-x-2 pt-2 text-sm font-medium text-muted-foreground">
+                  <code className="font-mono text-foreground">{result.group}</code>
+                  <span>•</span>
+                  <span>{groupSize} scope{groupSize !== 1 ? 's' : ''}</span>
+                </div>
+              )}
               <div
-                key={index}
-                className="rounded-lg border bg-card hover:bg-muted/20 transition-colors"
+                className={`rounded-lg border bg-card hover:bg-muted/20 transition-colors ${result.group ? 'ml-4' : ''}`}
               >
                 {/* Card Header - Always Visible - Single Line Layout */}
                 <div 
@@ -927,9 +1074,49 @@ const Summary: React.FC = () => {
                   
                   {/* Path */}
                   <code className="text-sm font-mono px-2 py-1 rounded flex-1 min-w-0 truncate">
-                    {result.path}
+                    {result.group ?? result.path}
                   </code>
                   
+                  {/* Cherry-picked fields */}
+                  {canCherryPick && fieldSelections[result.path]?.length > 0 && (
+                    <Badge variant="outline" className="text-xs flex-shrink-0 border-primary text-primary">
+                      {fieldSelections[result.path].length} field(s) picked
+                    </Badge>
+                  )}
+
+                  {/* Category */}
+                  {result.category && (
+                    <Badge variant="outline" className="text-xs flex-shrink-0">
+                      {result.category === 'value' ? 'Flag flipped' : 'Metadata drift'}
+                    </Badge>
+                  )}
+                  
+                  {/* Scope */}
+                  {result.scope && (
+                    <Badge variant="secondary" className="text-xs flex-shrink-0">
+                      {formatSettingScope(result.scope) || 'Default scope'}
+                    </Badge>
+                  )}
+                  
+                  {/* Lapsed acceptance */}
+                  {result.acceptance?.expired && (
+                    <Badge variant="destructive" className="text-xs flex-shrink-0">
+                      Acceptance expired
+                    </Badge>
+                  )}
+
+                  {/* Migration verification */}
+                  {Object.entries(result.migrationChecks || {}).map(([targetId, check]) => (
+                    <Badge
+                      key={targetId}
+                      variant="outline"
+                      className={`text-xs flex-shrink-0 ${migrationCheckClasses[check.state]}`}
+                      title={check.error || `Checked ${new Date(check.checkedAt).toLocaleString()}`}
+                    >
+                      {migrationCheckLabels[check.state]} on {getInstanceName(targetId)}
+                    </Badge>
+                  ))}
+                  
                   
 
                   {/* Expand/Collapse Button */}
@@ -951,8 +1138,55 @@ const Summary: React.FC = () => {
                         {result.description}
                       </p>
                       
-                      {/* Display values - support both old and new formats */}
-                      {hasResultValues(result) ? (
+                      {/* Accepted divergence */}
+                      {result.acceptance ? (
+                        <div className={`flex items-start justify-between rounded p-2 text-xs ${result.acceptance.expired ? 'bg-destructive/10' : 'bg-muted'}`}>
+                          <div className="flex items-start space-x-2">
+                            {result.acceptance.expired ? (
+                              <AlertTriangle className="h-4 w-4 text-destructive flex-shrink-0" />
+                            ) : (
+                              <ShieldCheck className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                            )}
+                            <div>
+                              <p className="font-medium">
+                                {result.acceptance.expired ? 'Acceptance expired' : `Accepted ${result.acceptance.originalType} difference`}
+                                {' '}by {result.acceptance.author} on {new Date(result.acceptance.acceptedAt).toLocaleDateString()}
+                                {result.acceptance.expiresAt && ` (expires ${new Date(result.acceptance.expiresAt).toLocaleDateString()})`}
+                              </p>
+                              <p className="text-muted-foreground">{result.acceptance.reason}</p>
+                            </div>
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => dispatch(revokeDivergence(result.acceptance!.divergenceId))}
+                          >
+                            Revoke
+                          </Button>
+                        </div>
+                      ) : result.type !== 'unchanged' && !activeSession.temporal && (
+                        <AcceptDivergenceDialog
+                          sessionId={activeSession.id}
+                          comparisonType={activeSession.comparisonType || comparisonType}
+                          result={result}
+                          baseInstanceId={baseInstanceId}
+                          getInstanceName={getInstanceName}
+                        />
+                      )}
+                      
+                      {/* Field-level breakdown */}
+                      {result.fieldDiffs && result.fieldDiffs.length > 0 ? (
+                        <FieldDiffTable
+                          fieldDiffs={result.fieldDiffs}
+                          instanceIds={activeSession.instanceIds}
+                          baseInstanceId={baseInstanceId}
+                          getInstanceName={getInstanceName}
+                          {...(canCherryPick && result.type === 'edited' ? {
+                            selectedFields: fieldSelections[result.path],
+                            onFieldSelectionChange: (field: string, checked: boolean) => handleFieldSelection(result.path, field, checked),
+                          } : {})}
+                        />
+                      ) : hasResultValues(result) ? (
                         // New format: multiple instances with values object
                         <div className="space-y-2">
                           {Object.entries(result.values).map(([instanceId, value]) => {
@@ -967,6 +1201,15 @@ const Summary: React.FC = () => {
                                 <code className={`ml-2 px-2 py-1 rounded ${isMissing ? 'bg-destructive/10 text-destructive' : isBaseInstance ? 'bg-primary/10' : 'bg-muted'}`}>
                                   {isMissing ? 'MISSING' : JSON.stringify(value)}
                                 </code>
+                                {/* Value as compared after normalization */}
+                                {!isMissing && result.normalizedValues && (
+                                  <span className="ml-2 text-muted-foreground">
+                                    normalized:
+                                    <code className="ml-1 px-1 rounded bg-muted">
+                                      {JSON.stringify(result.normalizedValues[instanceId])}
+                                    </code>
+                                  </span>
+                                )}
                               </div>
                             );
                           })}
@@ -1002,6 +1245,7 @@ const Summary: React.FC = () => {
                   </div>
                 )}
               </div>
+              </React.Fragment>
             );
           })}
         </div>
@@ -1010,6 +1254,22 @@ const Summary: React.FC = () => {
           </Card>
         </>
       )}
+
+      {/* Migration Preview */}
+      {migrationPreview && (
+        <MigrationPreviewDialog
+          open={!!migrationPreview}
+          onOpenChange={(open) => !open && !isMigrating && setMigrationPreview(null)}
+          sourceName={getInstanceName(migrationSource)}
+          endpoint={getSaveEndpoint(activeSession?.comparisonType || comparisonType)}
+          targets={migrationPreview.targets}
+          strategy={Object.values(migrationPreview.plans)[0]?.codeTableStrategy}
+          confirming={isMigrating}
+          onConfirm={handleConfirmMigration}
+          statuses={targetStatuses}
+          onRetryFailed={handleRetryFailedMigrations}
+        />
+      )}
     </div>
   );
 };
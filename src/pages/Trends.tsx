@@ -0,0 +1,233 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAppSelector, useAppDispatch } from '@/hooks/useRedux';
+import { loadSessionResults, ComparisonSession } from '@/store/slices/comparisonSlice';
+import { formatDuration, getFlappingPaths, getResolutionStats, getTrendGroupKey, getTrendPoints } from '@/utils/driftTrends';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { LineChart as LineChartIcon, Repeat, Timer, Loader2 } from 'lucide-react';
+
+const BUILT_IN_TYPE_LABELS: Record<string, string> = {
+  settings: 'Settings',
+  codeTable: 'Code Tables',
+  featureToggle: 'Feature Toggles',
+};
+
+const Trends: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const { sessions, customTypes, loadingResultsFor } = useAppSelector((state) => state.comparison);
+  const { instances } = useAppSelector((state) => state.instances);
+
+  const [typeFilter, setTypeFilter] = useState<string>('all');
+  const [groupKey, setGroupKey] = useState<string>('');
+
+  const getTypeLabel = (type?: string) =>
+    (type && (BUILT_IN_TYPE_LABELS[type] || customTypes.find(t => t.id === type)?.label)) || type || 'Unknown type';
+
+  const getInstanceName = (id: string) => instances.find(i => i.id === id)?.name || 'Unknown Instance';
+
+  const getGroupLabel = (session: ComparisonSession) =>
+    session.temporal
+      ? `${getInstanceName(session.temporal.instanceId)} over time`
+      : session.instanceIds.map(getInstanceName).join(' vs ');
+
+  // Sessions grouped by compared instances and comparison type
+  const groups = useMemo(() => {
+    const byKey = new Map<string, ComparisonSession[]>();
+    sessions
+      .filter(session => typeFilter === 'all' || session.comparisonType === typeFilter)
+      .forEach(session => {
+        const key = getTrendGroupKey(session);
+        byKey.set(key, [...(byKey.get(key) || []), session]);
+      });
+    return [...byKey.entries()]
+      .map(([key, groupSessions]) => ({ key, sessions: groupSessions }))
+      .sort((a, b) => b.sessions.length - a.sessions.length);
+  }, [sessions, typeFilter]);
+
+  const activeGroup = groups.find(group => group.key === groupKey) || groups[0];
+  const groupSessions = activeGroup?.sessions || [];
+  const pendingSessions = groupSessions.filter(session => session.resultsLoaded === false);
+
+  // Flapping and resolution need results; load them one session at a time
+  const requestedResults = useRef<Set<string>>(new Set());
+  const nextPendingSession = pendingSessions.find(session => !requestedResults.current.has(session.id));
+  useEffect(() => {
+    if (!loadingResultsFor && nextPendingSession) {
+      requestedResults.current.add(nextPendingSession.id);
+      dispatch(loadSessionResults(nextPendingSession.id));
+    }
+  }, [loadingResultsFor, nextPendingSession, dispatch]);
+
+  const trendPoints = getTrendPoints(groupSessions).map(point => ({
+    ...point,
+    label: new Date(point.timestamp).toLocaleDateString(),
+  }));
+  const resultsReady = pendingSessions.length === 0;
+  const resultsFailed = !resultsReady && !nextPendingSession && !loadingResultsFor;
+  const flappingPaths = resultsReady ? getFlappingPaths(groupSessions) : [];
+  const resolution = resultsReady ? getResolutionStats(groupSessions) : null;
+
+  const comparisonTypeOptions = [...new Set(sessions.map(session => session.comparisonType).filter(Boolean))];
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">Drift Trends</h1>
+        <p className="mt-2 text-muted-foreground">
+          How differences between the same instances evolve across comparison sessions
+        </p>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-6">
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            <div>
+              <label className="text-sm font-medium mb-2 block">Comparison Type</label>
+              <Select value={typeFilter} onValueChange={(value) => { setTypeFilter(value); setGroupKey(''); }}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All types</SelectItem>
+                  {comparisonTypeOptions.map(type => (
+                    <SelectItem key={type} value={type}>{getTypeLabel(type)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-2 block">Instances</label>
+              <Select value={activeGroup?.key || ''} onValueChange={setGroupKey} disabled={groups.length === 0}>
+                <SelectTrigger>
+                  <SelectValue placeholder="No sessions" />
+                </SelectTrigger>
+                <SelectContent>
+                  {groups.map(group => (
+                    <SelectItem key={group.key} value={group.key}>
+                      {getGroupLabel(group.sessions[0])} · {getTypeLabel(group.sessions[0].comparisonType)} ({group.sessions.length})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {groupSessions.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <LineChartIcon className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-lg font-medium text-muted-foreground">No comparison sessions</p>
+            <p className="text-sm text-muted-foreground">Run comparisons over time to see trends</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Difference Counts Over Time */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <LineChartIcon className="h-5 w-5 text-primary" />
+                <span>Differences Over Time</span>
+              </CardTitle>
+              <CardDescription>
+                {groupSessions.length} session{groupSessions.length !== 1 ? 's' : ''} comparing {getGroupLabel(groupSessions[0])}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={trendPoints}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                    <XAxis dataKey="label" fontSize={12} />
+                    <YAxis allowDecimals={false} fontSize={12} />
+                    <Tooltip labelFormatter={(_, payload) => payload?.[0] ? new Date(payload[0].payload.timestamp).toLocaleString() : ''} />
+                    <Legend />
+                    <Line type="monotone" dataKey="added" name="Added" stroke="hsl(var(--success))" strokeWidth={2} />
+                    <Line type="monotone" dataKey="deleted" name="Deleted" stroke="hsl(var(--destructive))" strokeWidth={2} />
+                    <Line type="monotone" dataKey="edited" name="Modified" stroke="hsl(var(--warning))" strokeWidth={2} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+
+          {!resultsReady && (
+            <Card>
+              <CardContent className="p-6 flex items-center space-x-2 text-sm text-muted-foreground">
+                {resultsFailed ? (
+                  <span>Stored results of {pendingSessions.length} session(s) could not be loaded</span>
+                ) : (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    <span>Loading stored results for {pendingSessions.length} session(s)...</span>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {resultsReady && resolution && (
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+              {/* Time To Resolve */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <Timer className="h-5 w-5 text-primary" />
+                    <span>Mean Time to Resolve</span>
+                  </CardTitle>
+                  <CardDescription>From the first session showing a difference to the first session without it</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  <p className="text-3xl font-bold text-foreground">
+                    {resolution.meanTimeToResolveMs !== null ? formatDuration(resolution.meanTimeToResolveMs) : '—'}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {resolution.resolved} resolved • {resolution.open} still open
+                  </p>
+                </CardContent>
+              </Card>
+
+              {/* Flapping Paths */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <Repeat className="h-5 w-5 text-primary" />
+                    <span>Flapping Paths</span>
+                  </CardTitle>
+                  <CardDescription>Paths that repeatedly drift and come back in sync</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {flappingPaths.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No path has flapped yet</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {flappingPaths.map(flapping => (
+                        <div key={flapping.path} className="flex items-center justify-between text-sm">
+                          <span className="font-mono truncate mr-2" title={flapping.path}>{flapping.path}</span>
+                          <div className="flex items-center space-x-2 shrink-0">
+                            <Badge variant="outline" className="text-xs">{flapping.transitions} flips</Badge>
+                            <span className="text-xs text-muted-foreground">
+                              differing in {flapping.differingSessions}/{groupSessions.length}
+                            </span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Trends;
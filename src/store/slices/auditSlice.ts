@@ -0,0 +1,127 @@
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import { saveAuditEntry } from '@/utils/indexedDbStorage';
+import { hashPayload } from '@/utils/auditLog';
+import { hydrateStorage, storageWriteFailed } from './storageSlice';
+
+// What a save endpoint call was made for, given by the caller of postInstanceData
+export interface SaveAuditContext {
+  kind?: 'migration' | 'rollback';
+  sourceInstanceId?: string;
+  comparisonType?: string;
+  itemIds?: string[];
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  operator: string; // Empty when no operator name was set
+  kind: 'migration' | 'rollback' | 'save';
+  sourceInstanceId?: string;
+  sourceName?: string; // Names at the time of the call; instances may be renamed or removed
+  targetInstanceId: string;
+  targetName: string;
+  endpoint: string;
+  comparisonType?: string;
+  itemIds: string[];
+  payloadHash: string;
+  payloadSize: number; // Bytes
+  responseStatus: number | null; // Null when no response was received
+  succeeded: boolean;
+  error?: string;
+}
+
+export type SaveCall = Pick<AuditEntry, 'targetInstanceId' | 'endpoint' | 'responseStatus' | 'succeeded' | 'error'> & {
+  body: string; // Posted JSON
+  context?: SaveAuditContext;
+};
+
+interface AuditState {
+  entries: AuditEntry[]; // Oldest first
+  operatorName: string;
+}
+
+// Local storage utilities; entries are kept in IndexedDB
+const OPERATOR_NAME_STORAGE_KEY = 'json-sync-diff-operator-name';
+
+const saveOperatorNameToLocalStorage = (operatorName: string) => {
+  try {
+    localStorage.setItem(OPERATOR_NAME_STORAGE_KEY, operatorName);
+  } catch (error) {
+    // Failed to save operator name to localStorage
+  }
+};
+
+const loadOperatorNameFromLocalStorage = (): string => {
+  try {
+    return localStorage.getItem(OPERATOR_NAME_STORAGE_KEY) || '';
+  } catch (error) {
+    // Failed to load operator name from localStorage
+    return '';
+  }
+};
+
+const initialState: AuditState = {
+  entries: [], // Loaded by hydrateStorage
+  operatorName: loadOperatorNameFromLocalStorage(),
+};
+
+// Record one save endpoint call; a failed write is reported but never fails the call
+export const recordSaveCall = createAsyncThunk(
+  'audit/recordSaveCall',
+  async (call: SaveCall, { getState, dispatch }) => {
+    const state = getState() as { audit: AuditState; instances: { instances: Array<{ id: string; name: string }> } };
+    const getName = (id: string) => state.instances.instances.find(i => i.id === id)?.name || 'Unknown Instance';
+    const timestamp = new Date().toISOString();
+    const { context } = call;
+
+    const entry: AuditEntry = {
+      id: `${Date.now()}-${call.targetInstanceId}-${Math.random().toString(36).slice(2, 8)}`,
+      timestamp,
+      operator: state.audit.operatorName,
+      kind: context?.kind || 'save',
+      ...(context?.sourceInstanceId ? { sourceInstanceId: context.sourceInstanceId, sourceName: getName(context.sourceInstanceId) } : {}),
+      targetInstanceId: call.targetInstanceId,
+      targetName: getName(call.targetInstanceId),
+      endpoint: call.endpoint,
+      comparisonType: context?.comparisonType,
+      itemIds: context?.itemIds || [],
+      payloadHash: await hashPayload(call.body),
+      payloadSize: new Blob([call.body]).size,
+      responseStatus: call.responseStatus,
+      succeeded: call.succeeded,
+      ...(call.error ? { error: call.error } : {}),
+    };
+
+    try {
+      await saveAuditEntry(entry);
+    } catch (error) {
+      dispatch(storageWriteFailed(error instanceof Error ? error.message : 'Failed to save audit entry'));
+    }
+    return entry;
+  }
+);
+
+const auditSlice = createSlice({
+  name: 'audit',
+  initialState,
+  reducers: {
+    setOperatorName: (state, action: PayloadAction<string>) => {
+      state.operatorName = action.payload;
+      saveOperatorNameToLocalStorage(action.payload);
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(hydrateStorage.fulfilled, (state, action) => {
+        const storedIds = new Set(action.payload.auditLog.map(e => e.id));
+        state.entries = [...action.payload.auditLog, ...state.entries.filter(e => !storedIds.has(e.id))];
+      })
+      .addCase(recordSaveCall.fulfilled, (state, action) => {
+        state.entries.push(action.payload);
+      });
+  },
+});
+
+export const { setOperatorName } = auditSlice.actions;
+
+export default auditSlice.reducer;
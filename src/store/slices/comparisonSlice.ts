@@ -1,5 +1,22 @@
-import { createSlice, PayloadAction } from '@reduxjs/toolkit';
-import { diff } from 'deep-diff';
+import { createSlice, createAsyncThunk, isAnyOf, PayloadAction } from '@reduxjs/toolkit';
+import { ArrayMatchingConfig, DEFAULT_ARRAY_MATCHING } from '@/utils/arrayDiff';
+import { IgnoreRule, SuppressionCount } from '@/utils/ignoreRules';
+import { NormalizationRule } from '@/utils/normalization';
+import { toResultAcceptance, AcceptedDivergence, ResultAcceptance } from '@/utils/acceptedDivergences';
+import { summarizeResults, ComparisonJob, ComparisonProgress } from '@/utils/comparators';
+import { runComparisonInWorker } from '@/workers/comparisonWorkerClient';
+import { loadSessionResults as loadStoredSessionResults, loadSnapshotData } from '@/utils/indexedDbStorage';
+import { hydrateStorage } from './storageSlice';
+import { requestInstance } from '@/utils/httpClient';
+import type { Instance } from './instancesSlice';
+
+export {
+  CODE_TABLE_RECORD_FIELDS,
+  FEATURE_TOGGLE_COMPARABLE_FIELDS,
+  SETTING_SCOPE_FIELDS,
+  getSettingScopeKey,
+  formatSettingScope,
+} from '@/utils/comparators';
 
 // Data type interfaces for different comparison types
 export interface FeatureToggle {
@@ -67,15 +84,70 @@ export interface CustomComparisonType {
   responseFields: string[]; // Fields to include in response object
   identifierField?: string; // For array-based data like feature toggles
   requestBody?: Record<string, unknown>; // Optional request body for API calls
+  saveResultPath?: string; // Path to the per-item results array in save responses
   createdAt: string;
 }
 
+// Per-field breakdown of an item that is present in several instances
+export interface FieldDiff {
+  field: string;
+  values: Record<string, unknown>; // Field value per instance that has the item
+  differingInstances: string[];
+}
+
 export interface ComparisonResult {
   path: string;
-  type: 'added' | 'deleted' | 'edited' | 'unchanged';
+  type: 'added' | 'deleted' | 'edited' | 'moved' | 'accepted' | 'unchanged';
   values: Record<string, unknown>;
   affectedInstances: string[];
   description: string;
+  group?: string; // Parent identifier when several results belong to one item (e.g. a setting Entity)
+  scope?: Record<string, unknown>; // Scope fields that distinguish results within a group
+  fieldDiffs?: FieldDiff[]; // Which compared fields differ and how
+  category?: 'value' | 'metadata'; // Feature toggles: flag flipped vs. metadata drift
+  normalizedValues?: Record<string, unknown>; // Values as compared, when normalization changed them
+  acceptance?: ResultAcceptance; // Set when the result matched an accepted divergence
+  migrationChecks?: Record<string, MigrationCheck>; // Re-compare after migrating, per target instance
+}
+
+// Outcome of re-comparing a migrated result against the re-fetched target
+export interface MigrationCheck {
+  state: 'verified' | 'still-different' | 'failed';
+  checkedAt: string;
+  error?: string;
+}
+
+export interface MigrationVerification {
+  sessionId: string;
+  sourceInstanceId: string;
+  targetInstanceId: string;
+  checkedAt: string;
+  checks: Record<string, MigrationCheck & { targetValue?: unknown }>; // By result path
+}
+
+// The snapshot an instance's compared data came from
+export interface SnapshotRef {
+  id: string;
+  timestamp: string;
+}
+
+// One difference between two consecutive snapshots of an instance
+export interface ChangeLogEntry {
+  fromSnapshotId: string;
+  toSnapshotId: string;
+  timestamp: string; // When the newer snapshot was taken
+  path: string;
+  type: ComparisonResult['type'];
+  description: string;
+  before?: unknown; // Undefined when the item did not exist yet
+  after?: unknown; // Undefined when the item was removed
+}
+
+// How one instance changed across its own snapshots
+export interface TemporalComparison {
+  instanceId: string;
+  snapshots: SnapshotRef[]; // Oldest first
+  changeLog: ChangeLogEntry[];
 }
 
 export interface ComparisonSession {
@@ -83,38 +155,31 @@ export interface ComparisonSession {
   name: string;
   instanceIds: string[];
   endpoint: string;
+  comparisonType?: string;
   timestamp: string;
   results: ComparisonResult[];
   summary: {
-    totalDifferences: number;
+    totalDifferences: number; // Excludes accepted divergences
     added: number;
     deleted: number;
     edited: number;
+    moved?: number;
+    accepted?: number;
   };
+  suppressed?: SuppressionCount[]; // Differences hidden by ignore rules, per rule
+  snapshots?: Record<string, SnapshotRef>; // Per instance, when the compared data is a stored snapshot
+  temporal?: TemporalComparison; // Set for comparisons of one instance over time; instanceIds are then snapshot ids
+  resultsLoaded?: boolean; // False while results are still in IndexedDB
 }
 
-// Local storage utilities
-const COMPARISON_STORAGE_KEY = 'json-sync-diff-comparison-sessions';
+// Local storage utilities; sessions are kept in IndexedDB
 const CUSTOM_TYPES_STORAGE_KEY = 'json-sync-diff-custom-types';
 const BUILTIN_ENDPOINTS_STORAGE_KEY = 'json-sync-diff-builtin-endpoints';
-
-const saveComparisonSessionsToLocalStorage = (sessions: ComparisonSession[]) => {
-  try {
-    localStorage.setItem(COMPARISON_STORAGE_KEY, JSON.stringify(sessions));
-  } catch (error) {
-    // Failed to save comparison sessions to localStorage
-  }
-};
-
-const loadComparisonSessionsFromLocalStorage = (): ComparisonSession[] => {
-  try {
-    const stored = localStorage.getItem(COMPARISON_STORAGE_KEY);
-    return stored ? JSON.parse(stored) : [];
-  } catch (error) {
-    // Failed to load comparison sessions from localStorage
-    return [];
-  }
-};
+const FEATURE_TOGGLE_FIELDS_STORAGE_KEY = 'json-sync-diff-feature-toggle-fields';
+const ARRAY_MATCHING_STORAGE_KEY = 'json-sync-diff-array-matching';
+const IGNORE_RULES_STORAGE_KEY = 'json-sync-diff-ignore-rules';
+const NORMALIZATION_RULES_STORAGE_KEY = 'json-sync-diff-normalization-rules';
+const ACCEPTED_DIVERGENCES_STORAGE_KEY = 'json-sync-diff-accepted-divergences';
 
 const saveCustomTypesToLocalStorage = (customTypes: CustomComparisonType[]) => {
   try {
@@ -138,6 +203,7 @@ const saveBuiltInEndpointsToLocalStorage = (builtInEndpoints: Record<string, {
   fetchEndpoint: string; 
   saveEndpoint: string;
   requestBody?: Record<string, unknown>; 
+  saveResultPath?: string;
 }>) => {
   try {
     localStorage.setItem(BUILTIN_ENDPOINTS_STORAGE_KEY, JSON.stringify(builtInEndpoints));
@@ -150,6 +216,7 @@ const loadBuiltInEndpointsFromLocalStorage = (): Record<string, {
   fetchEndpoint: string; 
   saveEndpoint: string;
   requestBody?: Record<string, unknown>; 
+  saveResultPath?: string;
 }> => {
   try {
     const stored = localStorage.getItem(BUILTIN_ENDPOINTS_STORAGE_KEY);
@@ -178,7 +245,107 @@ const loadBuiltInEndpointsFromLocalStorage = (): Record<string, {
   };
 };
 
-interface ComparisonState {
+const DEFAULT_FEATURE_TOGGLE_FIELDS = [
+  'CurrentValue',
+  'IsOnByDefault',
+  'ToggleType',
+  'ModuleName',
+  'ToggleTags',
+  'DBValue',
+  'ToggleDescription',
+];
+
+const saveFeatureToggleFieldsToLocalStorage = (fields: string[]) => {
+  try {
+    localStorage.setItem(FEATURE_TOGGLE_FIELDS_STORAGE_KEY, JSON.stringify(fields));
+  } catch (error) {
+    // Failed to save feature toggle fields to localStorage
+  }
+};
+
+const loadFeatureToggleFieldsFromLocalStorage = (): string[] => {
+  try {
+    const stored = localStorage.getItem(FEATURE_TOGGLE_FIELDS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : DEFAULT_FEATURE_TOGGLE_FIELDS;
+  } catch (error) {
+    // Failed to load feature toggle fields from localStorage
+    return DEFAULT_FEATURE_TOGGLE_FIELDS;
+  }
+};
+
+const saveArrayMatchingToLocalStorage = (arrayMatching: ArrayMatchingConfig) => {
+  try {
+    localStorage.setItem(ARRAY_MATCHING_STORAGE_KEY, JSON.stringify(arrayMatching));
+  } catch (error) {
+    // Failed to save array matching config to localStorage
+  }
+};
+
+const loadArrayMatchingFromLocalStorage = (): ArrayMatchingConfig => {
+  try {
+    const stored = localStorage.getItem(ARRAY_MATCHING_STORAGE_KEY);
+    return stored ? { ...DEFAULT_ARRAY_MATCHING, ...JSON.parse(stored) } : DEFAULT_ARRAY_MATCHING;
+  } catch (error) {
+    // Failed to load array matching config from localStorage
+    return DEFAULT_ARRAY_MATCHING;
+  }
+};
+
+const saveIgnoreRulesToLocalStorage = (ignoreRules: IgnoreRule[]) => {
+  try {
+    localStorage.setItem(IGNORE_RULES_STORAGE_KEY, JSON.stringify(ignoreRules));
+  } catch (error) {
+    // Failed to save ignore rules to localStorage
+  }
+};
+
+const loadIgnoreRulesFromLocalStorage = (): IgnoreRule[] => {
+  try {
+    const stored = localStorage.getItem(IGNORE_RULES_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    // Failed to load ignore rules from localStorage
+    return [];
+  }
+};
+
+const saveNormalizationRulesToLocalStorage = (normalizationRules: NormalizationRule[]) => {
+  try {
+    localStorage.setItem(NORMALIZATION_RULES_STORAGE_KEY, JSON.stringify(normalizationRules));
+  } catch (error) {
+    // Failed to save normalization rules to localStorage
+  }
+};
+
+const loadNormalizationRulesFromLocalStorage = (): NormalizationRule[] => {
+  try {
+    const stored = localStorage.getItem(NORMALIZATION_RULES_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    // Failed to load normalization rules from localStorage
+    return [];
+  }
+};
+
+const saveAcceptedDivergencesToLocalStorage = (acceptedDivergences: AcceptedDivergence[]) => {
+  try {
+    localStorage.setItem(ACCEPTED_DIVERGENCES_STORAGE_KEY, JSON.stringify(acceptedDivergences));
+  } catch (error) {
+    // Failed to save accepted divergences to localStorage
+  }
+};
+
+const loadAcceptedDivergencesFromLocalStorage = (): AcceptedDivergence[] => {
+  try {
+    const stored = localStorage.getItem(ACCEPTED_DIVERGENCES_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    // Failed to load accepted divergences from localStorage
+    return [];
+  }
+};
+
+export interface ComparisonState {
   sessions: ComparisonSession[];
   activeSessionId: string | null;
   selectedInstances: string[];
@@ -191,18 +358,30 @@ interface ComparisonState {
     fetchEndpoint: string; 
     saveEndpoint: string;
     requestBody?: Record<string, unknown>; // Optional request body parameters
+    saveResultPath?: string; // Path to the per-item results array in save responses
   }>;
-  loading: boolean;
+  featureToggleFields: string[]; // FeatureToggle fields compared between instances
+  arrayMatching: ArrayMatchingConfig; // How array elements are matched in generic comparisons
+  ignoreRules: IgnoreRule[];
+  normalizationRules: NormalizationRule[];
+  acceptedDivergences: AcceptedDivergence[];
+  loading: boolean; // A comparison is running
+  loadingResultsFor: string | null; // Session whose stored results are being loaded
+  comparisonProgress: ComparisonProgress | null;
   error: string | null;
 }
 
-const loadedSessions = loadComparisonSessionsFromLocalStorage();
 const loadedCustomTypes = loadCustomTypesFromLocalStorage();
 const loadedBuiltInEndpoints = loadBuiltInEndpointsFromLocalStorage();
+const loadedFeatureToggleFields = loadFeatureToggleFieldsFromLocalStorage();
+const loadedArrayMatching = loadArrayMatchingFromLocalStorage();
+const loadedIgnoreRules = loadIgnoreRulesFromLocalStorage();
+const loadedNormalizationRules = loadNormalizationRulesFromLocalStorage();
+const loadedAcceptedDivergences = loadAcceptedDivergencesFromLocalStorage();
 
 const initialState: ComparisonState = {
-  sessions: loadedSessions,
-  activeSessionId: loadedSessions[0]?.id || null,
+  sessions: [], // Loaded by hydrateStorage
+  activeSessionId: null,
   selectedInstances: [],
   baseInstanceId: null,
   currentFetchEndpoint: '/Biz/v2/api/call/SI.Client.Api.Admin/SI.Client.Api.Admin.ConfigCompareManager/ConfigCompareManager/GetAllSettings',
@@ -210,833 +389,294 @@ const initialState: ComparisonState = {
   comparisonType: 'settings',
   customTypes: loadedCustomTypes,
   builtInEndpoints: loadedBuiltInEndpoints,
+  featureToggleFields: loadedFeatureToggleFields,
+  arrayMatching: loadedArrayMatching,
+  ignoreRules: loadedIgnoreRules,
+  normalizationRules: loadedNormalizationRules,
+  acceptedDivergences: loadedAcceptedDivergences,
   loading: false,
+  loadingResultsFor: null,
+  comparisonProgress: null,
   error: null,
 };
 
-// Helper function to collect all unique paths from multiple objects
-const collectPaths = (objects: Record<string, unknown>[]): string[] => {
-  const paths = new Set<string>();
-  
-  const traverse = (obj: unknown, currentPath: string = '') => {
-    if (obj && typeof obj === 'object' && !Array.isArray(obj)) {
-      Object.keys(obj).forEach(key => {
-        const newPath = currentPath ? `${currentPath}.${key}` : key;
-        paths.add(newPath);
-        traverse((obj as Record<string, unknown>)[key], newPath);
-      });
-    }
+// Fetch endpoint and request body of a comparison type, whatever type is currently selected
+export const getFetchRequest = (state: ComparisonState, comparisonType: string) => {
+  const customType = state.customTypes.find(t => t.id === comparisonType);
+  const endpointConfig = state.builtInEndpoints[comparisonType];
+  return {
+    endpoint: endpointConfig?.fetchEndpoint || customType?.fetchEndpoint || state.currentFetchEndpoint,
+    requestBody: endpointConfig?.requestBody || customType?.requestBody,
   };
-  
-  objects.forEach(obj => traverse(obj));
-  return Array.from(paths);
 };
 
-// Helper function to get value at path
-const getValueAtPath = (obj: unknown, path: string): unknown => {
-  return path.split('.').reduce((current: unknown, key: string) => {
-    return current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined;
-  }, obj);
-};
-
-// Specialized comparison functions for different data types
-const compareFeatureToggles = (
-  instanceData: Record<string, FeatureToggle[]>,
-  instanceIds: string[],
-  baseInstanceId?: string
-): ComparisonResult[] => {
-  const results: ComparisonResult[] = [];
-  
-  // Create a map of all unique feature names across all instances
-  const allFeatureNames = new Set<string>();
-  const instanceFeatureMaps = new Map<string, Map<string, FeatureToggle>>();
-  
-  // Build feature maps for each instance
-  instanceIds.forEach(instanceId => {
-    const features = instanceData[instanceId] || [];
-    const featureMap = new Map(features.map(f => [f.FeatureName, f]));
-    instanceFeatureMaps.set(instanceId, featureMap);
-    
-    features.forEach(f => allFeatureNames.add(f.FeatureName));
-  });
-  
-  // Compare each feature across all instances
-  allFeatureNames.forEach(featureName => {
-    const values: Record<string, unknown> = {};
-    const affectedInstances: string[] = [];
-    let hasBaseValue = false;
-    let baseValue: boolean | undefined;
-    let hasDifference = false;
-    
-    // Collect values from all instances (including missing ones)
-    instanceIds.forEach(instanceId => {
-      const featureMap = instanceFeatureMaps.get(instanceId);
-      const feature = featureMap?.get(featureName);
-      
-      if (feature) {
-        values[instanceId] = feature.CurrentValue;
-        affectedInstances.push(instanceId);
-        
-        if (baseInstanceId && instanceId === baseInstanceId) {
-          hasBaseValue = true;
-          baseValue = feature.CurrentValue;
-        }
-      } else {
-        // Mark as missing for this instance
-        values[instanceId] = 'MISSING';
-      }
-    });
-    
-    // Determine if there are differences
-    if (baseInstanceId && hasBaseValue) {
-      // Base instance comparison: only flag differences from base
-      instanceIds.forEach(instanceId => {
-        if (instanceId !== baseInstanceId) {
-          const otherValue = values[instanceId];
-          if (otherValue !== baseValue && otherValue !== 'MISSING') {
-            hasDifference = true;
-          } else if (otherValue === 'MISSING') {
-            hasDifference = true;
-          }
-        }
-      });
-    } else {
-      // No base instance: flag any differences between instances
-      const uniqueValues = new Set(Object.values(values));
-      hasDifference = uniqueValues.size > 1;
-    }
-    
-    // Add result if there are differences or if it's a key feature
-    if (hasDifference || affectedInstances.length !== instanceIds.length) {
-      let type: ComparisonResult['type'] = 'edited';
-      let description = '';
-      
-      // Determine the type of difference
-      const missingInstances = instanceIds.filter(id => values[id] === 'MISSING');
-      const presentInstances = instanceIds.filter(id => values[id] !== 'MISSING');
-      
-      if (missingInstances.length > 0 && presentInstances.length > 0) {
-        // Some instances have the feature, others don't
-        if (baseInstanceId) {
-          if (values[baseInstanceId] === 'MISSING') {
-            type = 'added';
-            description = `Feature "${featureName}" added in ${presentInstances.length} instance(s) (not present in base)`;
-          } else {
-            type = 'deleted';
-            description = `Feature "${featureName}" deleted in ${missingInstances.length} instance(s) (present in base with value ${baseValue})`;
-          }
-        } else {
-          // No base instance defined
-          if (missingInstances.length < presentInstances.length) {
-            type = 'added';
-            description = `Feature "${featureName}" added in ${presentInstances.length} instance(s), missing in ${missingInstances.length}`;
-          } else {
-            type = 'deleted';
-            description = `Feature "${featureName}" deleted in ${missingInstances.length} instance(s), present in ${presentInstances.length}`;
-          }
-        }
-      } else if (presentInstances.length === instanceIds.length) {
-        // Present in all instances but with different values
-        type = 'edited';
-        if (baseInstanceId && hasBaseValue) {
-          const differentInstances = instanceIds.filter(id => id !== baseInstanceId && values[id] !== baseValue);
-          description = `Feature "${featureName}" differs from base value ${baseValue} in ${differentInstances.length} instance(s)`;
-        } else {
-          description = `Feature "${featureName}" has inconsistent values across instances`;
-        }
-      }
-      
-      results.push({
-        path: featureName,
-        type,
-        values,
-        affectedInstances,
-        description,
-      });
-    }
+/**
+ * Fetch an instance's current data of a comparison type without keeping it:
+ * no snapshot is stored, and the instance's held data and fetch states are
+ * left alone.
+ */
+export const fetchCurrentData = async (
+  state: { comparison: ComparisonState; instances: { instances: Instance[] } },
+  instanceId: string,
+  comparisonType: string
+) => {
+  const instance = state.instances.instances.find(i => i.id === instanceId);
+  if (!instance) {
+    throw new Error('Instance not found');
+  }
+  const { endpoint, requestBody } = getFetchRequest(state.comparison, comparisonType);
+  const response = await requestInstance(instance, endpoint, {
+    action: 'fetch data',
+    body: JSON.stringify(requestBody || { action: 'fetch' }),
+    idempotent: true,
   });
-  
-  return results;
+  return response.data;
 };
 
-// Specialized comparison function for settings data
-const compareSettings = (
-  instanceData: Record<string, SettingItem[]>,
+// Comparison settings from the state, applied to the given data
+const buildComparisonJob = (
+  state: ComparisonState,
   instanceIds: string[],
-  baseInstanceId?: string
-): ComparisonResult[] => {
-  const results: ComparisonResult[] = [];
-  
-  // Create a map of all unique setting entities across all instances
-  const allSettingEntities = new Set<string>();
-  const instanceSettingMaps = new Map<string, Map<string, SettingItem>>();
-  
-  // Build setting maps for each instance
-  instanceIds.forEach(instanceId => {
-    const settings = instanceData[instanceId] || [];
-    const settingMap = new Map(settings.map(s => [s.Entity, s]));
-    instanceSettingMaps.set(instanceId, settingMap);
-    
-    settings.forEach(s => allSettingEntities.add(s.Entity));
-  });
-  
-  // Compare each setting across all instances
-  allSettingEntities.forEach(entity => {
-    const values: Record<string, unknown> = {};
-    const affectedInstances: string[] = [];
-    let hasBaseValue = false;
-    let baseValue: string | undefined;
-    let hasDifference = false;
-    
-    // Collect values from all instances (including missing ones)
-    instanceIds.forEach(instanceId => {
-      const settingMap = instanceSettingMaps.get(instanceId);
-      const setting = settingMap?.get(entity);
-      
-      if (setting) {
-        values[instanceId] = setting.Data;
-        affectedInstances.push(instanceId);
-        
-        if (baseInstanceId && instanceId === baseInstanceId) {
-          hasBaseValue = true;
-          baseValue = setting.Data;
-        }
-      } else {
-        // Mark as missing for this instance
-        values[instanceId] = 'MISSING';
-      }
-    });
-    
-    // Determine if there are differences
-    if (baseInstanceId && hasBaseValue) {
-      // Base instance comparison: only flag differences from base
-      instanceIds.forEach(instanceId => {
-        if (instanceId !== baseInstanceId) {
-          const otherValue = values[instanceId];
-          if (otherValue !== baseValue && otherValue !== 'MISSING') {
-            hasDifference = true;
-          } else if (otherValue === 'MISSING') {
-            hasDifference = true;
-          }
-        }
-      });
-    } else {
-      // No base instance: flag any differences between instances
-      const uniqueValues = new Set(Object.values(values));
-      hasDifference = uniqueValues.size > 1;
-    }
-    
-    // Add result if there are differences or if it's a key setting
-    if (hasDifference || affectedInstances.length !== instanceIds.length) {
-      let type: ComparisonResult['type'] = 'edited';
-      let description = '';
-      
-      // Determine the type of difference
-      const missingInstances = instanceIds.filter(id => values[id] === 'MISSING');
-      const presentInstances = instanceIds.filter(id => values[id] !== 'MISSING');
-      
-      if (missingInstances.length > 0 && presentInstances.length > 0) {
-        // Some instances have the setting, others don't
-        if (baseInstanceId) {
-          if (values[baseInstanceId] === 'MISSING') {
-            type = 'added';
-            description = `Setting "${entity}" added in ${presentInstances.length} instance(s) (not present in base)`;
-          } else {
-            type = 'deleted';
-            description = `Setting "${entity}" deleted in ${missingInstances.length} instance(s) (present in base with value "${baseValue}")`;
-          }
-        } else {
-          // No base instance defined
-          if (missingInstances.length < presentInstances.length) {
-            type = 'added';
-            description = `Setting "${entity}" added in ${presentInstances.length} instance(s), missing in ${missingInstances.length}`;
-          } else {
-            type = 'deleted';
-            description = `Setting "${entity}" deleted in ${missingInstances.length} instance(s), present in ${presentInstances.length}`;
-          }
-        }
-      } else if (presentInstances.length === instanceIds.length) {
-        // Present in all instances but with different values
-        type = 'edited';
-        if (baseInstanceId && hasBaseValue) {
-          const differentInstances = instanceIds.filter(id => id !== baseInstanceId && values[id] !== baseValue);
-          description = `Setting "${entity}" differs from base value "${baseValue}" in ${differentInstances.length} instance(s)`;
-        } else {
-          description = `Setting "${entity}" has inconsistent values across instances`;
-        }
-      }
-      
-      results.push({
-        path: entity,
-        type,
-        values,
-        affectedInstances,
-        description,
-      });
-    }
-  });
-  
-  return results;
-};
+  instanceData: Record<string, unknown>,
+  baseInstanceId: string | undefined,
+): ComparisonJob => ({
+  comparisonType: state.comparisonType,
+  customTypes: state.customTypes,
+  instanceIds,
+  baseInstanceId,
+  instanceData,
+  arrayMatching: state.arrayMatching,
+  fieldSelections: { featureToggle: state.featureToggleFields },
+  normalizationRules: state.normalizationRules,
+  ignoreRules: state.ignoreRules,
+  acceptedDivergences: state.acceptedDivergences,
+});
 
-// Specialized comparison function for code table data
-const compareCodeTables = (
-  instanceData: Record<string, CodeTableItem[]>,
-  instanceIds: string[],
-  baseInstanceId?: string
-): ComparisonResult[] => {
-  const results: ComparisonResult[] = [];
-  
-  // Create a map of all unique code table names across all instances
-  const allCodeTableNames = new Set<string>();
-  const instanceCodeTableMaps = new Map<string, Map<string, CodeTableItem>>();
-  
-  // Build code table maps for each instance
-  instanceIds.forEach(instanceId => {
-    const rawCodeTables = instanceData[instanceId] || [];
-    // Normalize and defensively guard against malformed structures
-    const codeTables: CodeTableItem[] = rawCodeTables
-      .filter(ct => ct && typeof ct === 'object' && 'Name' in ct)
-      .map(ct => ({
-        ...ct,
-        CtData: Array.isArray((ct as CodeTableItem).CtData)
-          ? (ct as CodeTableItem).CtData.filter(r => r && typeof r === 'object' && 'Key' in r && 'Code' in r)
-          : []
-      })) as CodeTableItem[];
+/**
+ * Async thunk running the comparison in a worker; the reducer only stores the
+ * finished session. Instances without data in `instanceData` are compared
+ * using the payload of their snapshot in `snapshots`.
+ */
+export const runComparison = createAsyncThunk(
+  'comparison/run',
+  async ({
+    name,
+    instanceIds,
+    endpoint,
+    instanceData: fetchedData,
+    snapshots,
+  }: {
+    name: string;
+    instanceIds: string[];
+    endpoint: string;
+    instanceData: Record<string, ComparisonData>;
+    snapshots?: Record<string, SnapshotRef>;
+  }, { getState, dispatch, signal }) => {
+    if (instanceIds.length < 2) {
+      throw new Error('At least 2 instances are required for comparison');
+    }
 
-    const codeTableMap = new Map(codeTables.map(ct => [ct.Name, ct]));
-    instanceCodeTableMaps.set(instanceId, codeTableMap);
-    
-    codeTables.forEach(ct => allCodeTableNames.add(ct.Name));
-  });
-  
-  // Compare each code table across all instances
-  allCodeTableNames.forEach(tableName => {
-    // Detect presence of the table across instances (even if not in the first instance)
-    const tablePresence: Record<string, 'PRESENT' | 'MISSING'> = {};
-    const presentInstances: string[] = [];
-    const missingInstances: string[] = [];
-    instanceIds.forEach(id => {
-      const hasTable = instanceCodeTableMaps.get(id)?.has(tableName) ?? false;
-      if (hasTable) {
-        tablePresence[id] = 'PRESENT';
-        presentInstances.push(id);
-      } else {
-        tablePresence[id] = 'MISSING';
-        missingInstances.push(id);
-      }
+    const instanceData = { ...fetchedData };
+    await Promise.all(instanceIds
+      .filter(id => !instanceData[id] && snapshots?.[id])
+      .map(async id => {
+        instanceData[id] = await loadSnapshotData(snapshots[id].id) as ComparisonData;
+      }));
+
+    const state = (getState() as { comparison: ComparisonState }).comparison;
+    // The base may be one of the instances left out after a failed fetch
+    const baseInstanceId = state.baseInstanceId && instanceIds.includes(state.baseInstanceId) ? state.baseInstanceId : undefined;
+    const outcome = await runComparisonInWorker(
+      buildComparisonJob(state, instanceIds, instanceData, baseInstanceId),
+      progress => dispatch(comparisonSlice.actions.setComparisonProgress(progress)),
+      signal
+    );
+
+    const session: ComparisonSession = {
+      id: Date.now().toString(),
+      name,
+      instanceIds,
+      endpoint,
+      comparisonType: state.comparisonType,
+      timestamp: new Date().toISOString(),
+      results: outcome.results,
+      summary: outcome.summary,
+      ...(outcome.suppressed.length > 0 ? { suppressed: outcome.suppressed } : {}),
+      ...(snapshots && Object.keys(snapshots).length > 0 ? { snapshots } : {}),
+    };
+    return session;
+  }
+);
+
+/**
+ * Async thunk verifying a migration: the target is re-fetched and compared
+ * with the source again, and every migrated path is checked. A failed fetch
+ * marks every path as failed rather than rejecting.
+ */
+export const verifyMigration = createAsyncThunk(
+  'comparison/verifyMigration',
+  async ({
+    sessionId,
+    sourceInstanceId,
+    targetInstanceId,
+    paths,
+    fields = {},
+  }: {
+    sessionId: string;
+    sourceInstanceId: string;
+    targetInstanceId: string;
+    paths: string[];
+    fields?: Record<string, string[]>; // Cherry-picked fields per path; other fields may still differ
+  }, { getState }): Promise<MigrationVerification> => {
+    const rootState = getState() as { comparison: ComparisonState; instances: { instances: Instance[]; instanceData: Record<string, { data: unknown }> } };
+    const state = rootState.comparison;
+    const session = state.sessions.find(s => s.id === sessionId);
+    const comparisonType = session?.comparisonType || state.comparisonType;
+    const failAll = (error: string): MigrationVerification => ({
+      sessionId,
+      sourceInstanceId,
+      targetInstanceId,
+      checkedAt: new Date().toISOString(),
+      checks: Object.fromEntries(paths.map(path => [path, { state: 'failed', checkedAt: new Date().toISOString(), error }])),
     });
 
-    // If table presence differs across instances, emit a table-level result
-    if (missingInstances.length > 0 && presentInstances.length > 0) {
-      let type: ComparisonResult['type'] = 'edited'; // will adjust below
-      let description = '';
-      if (baseInstanceId) {
-        if (tablePresence[baseInstanceId] === 'MISSING') {
-          type = 'added';
-          description = `Code table "${tableName}" added in ${presentInstances.length} instance(s) (not present in base)`;
-        } else {
-          type = 'deleted';
-          description = `Code table "${tableName}" deleted in ${missingInstances.length} instance(s) (present in base)`;
-        }
-      } else {
-        if (presentInstances.length >= missingInstances.length) {
-          type = 'added';
-          description = `Code table "${tableName}" present in ${presentInstances.length} instance(s), missing in ${missingInstances.length}`;
-        } else {
-          type = 'deleted';
-          description = `Code table "${tableName}" missing in ${missingInstances.length} instance(s), present in ${presentInstances.length}`;
-        }
-      }
-      results.push({
-        path: tableName,
-        type,
-        values: tablePresence,
-        affectedInstances: presentInstances,
-        description,
-      });
+    let targetData: unknown;
+    try {
+      targetData = await fetchCurrentData(rootState, targetInstanceId, comparisonType);
+    } catch (error) {
+      return failAll(error instanceof Error ? error.message : 'Failed to re-fetch target');
     }
 
-    // For each code table, compare the CtData records (treat missing table as empty list)
-    const allRecordKeys = new Set<number>();
-    const instanceRecordMaps = new Map<string, Map<number, CodeTableRecord>>();
-    
-    // Build record maps for each instance for this specific code table
-    instanceIds.forEach(instanceId => {
-      const codeTableMap = instanceCodeTableMaps.get(instanceId);
-      const codeTable = codeTableMap?.get(tableName);
-
-      if (codeTable) {
-        const rows = Array.isArray(codeTable.CtData) ? codeTable.CtData : [];
-        const recordMap = new Map(rows.map(record => [record.Key, record]));
-        instanceRecordMaps.set(instanceId, recordMap);
-        rows.forEach(record => allRecordKeys.add(record.Key));
-      } else {
-        instanceRecordMaps.set(instanceId, new Map());
-      }
-    });
-    
-    // Compare each record across all instances
-    allRecordKeys.forEach(recordKey => {
-      const values: Record<string, unknown> = {};
-      const affectedInstances: string[] = [];
-      let hasBaseValue = false;
-      let baseValue: CodeTableRecord | undefined;
-      let hasDifference = false;
-      
-      // Collect values from all instances (including missing ones)
-      instanceIds.forEach(instanceId => {
-        const recordMap = instanceRecordMaps.get(instanceId);
-        const record = recordMap?.get(recordKey);
-        
-        if (record) {
-          values[instanceId] = {
-            Key: record.Key,
-            Code: record.Code,
-            Description: record.Description,
-            Expired: record.Expired
-          };
-          affectedInstances.push(instanceId);
-          
-          if (baseInstanceId && instanceId === baseInstanceId) {
-            hasBaseValue = true;
-            baseValue = record;
-          }
-        } else {
-          // Mark as missing for this instance
-          values[instanceId] = 'MISSING';
-        }
-      });
-      
-      // Determine if there are differences
-      if (baseInstanceId && hasBaseValue) {
-        // Base instance comparison: only flag differences from base
-        instanceIds.forEach(instanceId => {
-          if (instanceId !== baseInstanceId) {
-            const otherValue = values[instanceId];
-            if (otherValue !== 'MISSING' && baseValue) {
-              const otherRecord = otherValue as CodeTableRecord;
-              if (otherRecord.Code !== baseValue.Code || 
-                  otherRecord.Description !== baseValue.Description || 
-                  otherRecord.Expired !== baseValue.Expired) {
-                hasDifference = true;
-              }
-            } else if (otherValue === 'MISSING') {
-              hasDifference = true;
-            }
-          }
-        });
-      } else {
-        // No base instance: flag any differences between instances
-        const recordStrings = Object.values(values).map(v => 
-          v === 'MISSING' ? 'MISSING' : JSON.stringify(v)
-        );
-        const uniqueValues = new Set(recordStrings);
-        hasDifference = uniqueValues.size > 1;
-      }
-      
-      // Add result if there are differences
-      if (hasDifference || affectedInstances.length !== instanceIds.length) {
-        let type: ComparisonResult['type'] = 'edited';
-        let description = '';
-        
-        // Determine the type of difference
-        const missingInstances = instanceIds.filter(id => values[id] === 'MISSING');
-        const presentInstances = instanceIds.filter(id => values[id] !== 'MISSING');
-        
-        if (missingInstances.length > 0 && presentInstances.length > 0) {
-          // Some instances have the record, others don't
-          if (baseInstanceId) {
-            if (values[baseInstanceId] === 'MISSING') {
-              type = 'added';
-              description = `Code table "${tableName}" record with Key ${recordKey} added in ${presentInstances.length} instance(s) (not present in base)`;
-            } else {
-              type = 'deleted';
-              description = `Code table "${tableName}" record with Key ${recordKey} deleted in ${missingInstances.length} instance(s) (present in base)`;
-            }
-          } else {
-            // No base instance defined
-            if (missingInstances.length < presentInstances.length) {
-              type = 'added';
-              description = `Code table "${tableName}" record with Key ${recordKey} added in ${presentInstances.length} instance(s), missing in ${missingInstances.length}`;
-            } else {
-              type = 'deleted';
-              description = `Code table "${tableName}" record with Key ${recordKey} deleted in ${missingInstances.length} instance(s), present in ${presentInstances.length}`;
-            }
-          }
-        } else if (presentInstances.length === instanceIds.length) {
-          // Present in all instances but with different values
-          type = 'edited';
-          if (baseInstanceId && hasBaseValue) {
-            const differentInstances = instanceIds.filter(id => {
-              if (id === baseInstanceId) return false;
-              const otherValue = values[id];
-              if (otherValue === 'MISSING') return false;
-              const otherRecord = otherValue as CodeTableRecord;
-              return otherRecord.Code !== baseValue!.Code || 
-                     otherRecord.Description !== baseValue!.Description || 
-                     otherRecord.Expired !== baseValue!.Expired;
-            });
-            description = `Code table "${tableName}" record with Key ${recordKey} differs from base in ${differentInstances.length} instance(s)`;
-          } else {
-            description = `Code table "${tableName}" record with Key ${recordKey} has inconsistent values across instances`;
-          }
-        }
-        
-        results.push({
-          path: `${tableName}.${recordKey}`,
-          type,
-          values,
-          affectedInstances,
-          description,
-        });
-      }
-    });
-  });
-  
-  return results;
-};
-
-const compareGenericData = (
-  instanceData: Record<string, SettingsData | CodeTableData>,
-  instanceIds: string[],
-  baseInstanceId?: string
-): ComparisonResult[] => {
-  const results: ComparisonResult[] = [];
-  
-  // Collect all unique paths across all instances
-  const allPaths = collectPaths(Object.values(instanceData));
-  
-  allPaths.forEach(path => {
-    const values: Record<string, unknown> = {};
-    const affectedInstances: string[] = [];
-    let hasBaseValue = false;
-    let baseValue: unknown;
-    let hasDifference = false;
-    
-    // Collect values from all instances for this path
-    instanceIds.forEach(instanceId => {
-      const data = instanceData[instanceId];
-      if (data) {
-        const value = getValueAtPath(data, path);
-        if (value !== undefined) {
-          values[instanceId] = value;
-          affectedInstances.push(instanceId);
-          
-          if (baseInstanceId && instanceId === baseInstanceId) {
-            hasBaseValue = true;
-            baseValue = value;
-          }
-        } else {
-          values[instanceId] = 'MISSING';
-        }
-      } else {
-        values[instanceId] = 'MISSING';
-      }
-    });
-    
-    // Determine if there are differences
-    if (baseInstanceId && hasBaseValue) {
-      // Base instance comparison: only flag differences from base
-      instanceIds.forEach(instanceId => {
-        if (instanceId !== baseInstanceId) {
-          const otherValue = values[instanceId];
-          if (JSON.stringify(otherValue) !== JSON.stringify(baseValue) && otherValue !== 'MISSING') {
-            hasDifference = true;
-          } else if (otherValue === 'MISSING') {
-            hasDifference = true;
-          }
-        }
-      });
-    } else {
-      // No base instance: flag any differences between instances
-      const uniqueValues = new Set(Object.values(values).map(v => JSON.stringify(v)));
-      hasDifference = uniqueValues.size > 1;
+    // The source is compared as it was in the session
+    const sourceSnapshot = session?.snapshots?.[sourceInstanceId];
+    let sourceData: unknown;
+    try {
+      sourceData = sourceSnapshot
+        ? await loadSnapshotData(sourceSnapshot.id)
+        : rootState.instances.instanceData[sourceInstanceId]?.data;
+    } catch (error) {
+      return failAll(error instanceof Error ? error.message : 'Failed to load source data');
     }
-    
-    // Add result if there are differences
-    if (hasDifference) {
-      let type: ComparisonResult['type'] = 'edited';
-      let description = '';
-      
-      // Determine the type of difference
-      const missingInstances = instanceIds.filter(id => values[id] === 'MISSING');
-      const presentInstances = instanceIds.filter(id => values[id] !== 'MISSING');
-      
-      if (missingInstances.length > 0 && presentInstances.length > 0) {
-        // Some instances have the setting, others don't
-        if (baseInstanceId) {
-          if (values[baseInstanceId] === 'MISSING') {
-            type = 'added';
-            description = `Setting at "${path}" added in ${presentInstances.length} instance(s) (not present in base)`;
-          } else {
-            type = 'deleted';
-            description = `Setting at "${path}" deleted in ${missingInstances.length} instance(s) (present in base)`;
-          }
-        } else {
-          // No base instance defined
-          if (missingInstances.length < presentInstances.length) {
-            type = 'added';
-            description = `Setting at "${path}" added in ${presentInstances.length} instance(s), missing in ${missingInstances.length}`;
-          } else {
-            type = 'deleted';
-            description = `Setting at "${path}" deleted in ${missingInstances.length} instance(s), present in ${presentInstances.length}`;
-          }
-        }
-      } else if (presentInstances.length === instanceIds.length) {
-        // Present in all instances but with different values
-        type = 'edited';
-        if (baseInstanceId && hasBaseValue) {
-          const differentInstances = instanceIds.filter(id => id !== baseInstanceId && JSON.stringify(values[id]) !== JSON.stringify(baseValue));
-          description = `Setting at "${path}" differs from base value in ${differentInstances.length} instance(s)`;
-        } else {
-          description = `Setting at "${path}" has inconsistent values across instances`;
-        }
-      }
-      
-      results.push({
-        path,
-        type,
-        values,
-        affectedInstances,
-        description,
-      });
+    if (sourceData === undefined) {
+      return failAll('Source data is no longer available');
     }
-  });
-  
-  return results;
-};
 
-// Custom comparison function for array-based custom types
-const compareCustomArrayData = (
-  instanceData: Record<string, Record<string, unknown>[]>,
-  instanceIds: string[],
-  customType: CustomComparisonType,
-  baseInstanceId?: string
-): ComparisonResult[] => {
-  const results: ComparisonResult[] = [];
-  
-  if (!customType.identifierField) return results;
-  
-  // Create a map of all unique items across all instances
-  const allItemIds = new Set<string>();
-  const instanceItemMaps = new Map<string, Map<string, Record<string, unknown>>>();
-  
-  // Build item maps for each instance
-  instanceIds.forEach(instanceId => {
-    const items = instanceData[instanceId] || [];
-    const itemMap = new Map<string, Record<string, unknown>>();
-    
-    items.forEach(item => {
-      const identifier = String(item[customType.identifierField!]);
-      if (identifier) {
-        allItemIds.add(identifier);
-        itemMap.set(identifier, item);
-      }
-    });
-    
-    instanceItemMaps.set(instanceId, itemMap);
-  });
-  
-  // Compare each item across all instances
-  allItemIds.forEach(itemId => {
-    const values: Record<string, unknown> = {};
-    const affectedInstances: string[] = [];
-    let hasBaseValue = false;
-    let baseValue: unknown;
-    let hasDifference = false;
-    
-    // Collect values from all instances for comparison fields
-    instanceIds.forEach(instanceId => {
-      const itemMap = instanceItemMaps.get(instanceId);
-      const item = itemMap?.get(itemId);
-      
-      if (item) {
-        const itemValues: Record<string, unknown> = {};
-        customType.comparisonFields.forEach(field => {
-          itemValues[field] = getValueAtPath(item, field);
-        });
-        values[instanceId] = itemValues;
-        affectedInstances.push(instanceId);
-        
-        if (baseInstanceId && instanceId === baseInstanceId) {
-          hasBaseValue = true;
-          baseValue = itemValues;
-        }
-      } else {
-        values[instanceId] = 'MISSING';
-      }
-    });
-    
-    // Determine if there are differences
-    if (baseInstanceId && hasBaseValue) {
-      instanceIds.forEach(instanceId => {
-        if (instanceId !== baseInstanceId) {
-          const otherValue = values[instanceId];
-          if (JSON.stringify(otherValue) !== JSON.stringify(baseValue) && otherValue !== 'MISSING') {
-            hasDifference = true;
-          } else if (otherValue === 'MISSING') {
-            hasDifference = true;
-          }
-        }
-      });
-    } else {
-      const uniqueValues = new Set(Object.values(values).map(v => JSON.stringify(v)));
-      hasDifference = uniqueValues.size > 1;
-    }
-    
-    // Add result if there are differences
-    if (hasDifference) {
-      let type: ComparisonResult['type'] = 'edited';
-      let description = '';
-      
-      const missingInstances = instanceIds.filter(id => values[id] === 'MISSING');
-      const presentInstances = instanceIds.filter(id => values[id] !== 'MISSING');
-      
-      if (missingInstances.length > 0 && presentInstances.length > 0) {
-        if (baseInstanceId) {
-          if (values[baseInstanceId] === 'MISSING') {
-            type = 'added';
-            description = `${customType.label} item "${itemId}" added in ${presentInstances.length} instance(s) (not present in base)`;
-          } else {
-            type = 'deleted';
-            description = `${customType.label} item "${itemId}" deleted in ${missingInstances.length} instance(s) (present in base)`;
-          }
-        } else {
-          if (missingInstances.length < presentInstances.length) {
-            type = 'added';
-            description = `${customType.label} item "${itemId}" added in ${presentInstances.length} instance(s), missing in ${missingInstances.length}`;
-          } else {
-            type = 'deleted';
-            description = `${customType.label} item "${itemId}" deleted in ${missingInstances.length} instance(s), present in ${presentInstances.length}`;
-          }
-        }
-      } else if (presentInstances.length === instanceIds.length) {
-        type = 'edited';
-        if (baseInstanceId && hasBaseValue) {
-          const differentInstances = instanceIds.filter(id => id !== baseInstanceId && JSON.stringify(values[id]) !== JSON.stringify(baseValue));
-          description = `${customType.label} item "${itemId}" differs from base in ${differentInstances.length} instance(s)`;
-        } else {
-          description = `${customType.label} item "${itemId}" has inconsistent values across instances`;
-        }
-      }
-      
-      results.push({
-        path: itemId,
-        type,
-        values,
-        affectedInstances,
-        description,
-      });
+    const outcome = await runComparisonInWorker(
+      {
+        ...buildComparisonJob(state, [sourceInstanceId, targetInstanceId], {
+          [sourceInstanceId]: sourceData,
+          [targetInstanceId]: targetData,
+        }, sourceInstanceId),
+        comparisonType,
+      },
+      () => undefined
+    );
+
+    const checkedAt = new Date().toISOString();
+    const differing = new Map(outcome.results.filter(r => r.type !== 'unchanged').map(r => [r.path, r]));
+    return {
+      sessionId,
+      sourceInstanceId,
+      targetInstanceId,
+      checkedAt,
+      checks: Object.fromEntries(paths.map(path => {
+        const result = differing.get(path);
+        const pickedFieldsMatch = !!result && result.type === 'edited' && !!fields[path]?.length &&
+          !result.fieldDiffs?.some(diff => fields[path].includes(diff.field));
+        return [path, result && !pickedFieldsMatch
+          ? { state: 'still-different', checkedAt, targetValue: result.values[targetInstanceId] }
+          : { state: 'verified', checkedAt }];
+      })),
+    };
+  }
+);
+
+const withoutMissing = (value: unknown) => (value === 'MISSING' ? undefined : value);
+
+/**
+ * Async thunk comparing one instance with its own past. Each pair of
+ * consecutive snapshots is diffed (older one as base) to build the change log;
+ * the session results are the net change from the first to the last snapshot.
+ */
+export const runTemporalComparison = createAsyncThunk(
+  'comparison/runTemporal',
+  async ({
+    name,
+    instanceId,
+    endpoint,
+    snapshots,
+  }: {
+    name: string;
+    instanceId: string;
+    endpoint: string;
+    snapshots: SnapshotRef[];
+  }, { getState, dispatch, signal }) => {
+    if (snapshots.length < 2) {
+      throw new Error('At least 2 snapshots are required for a comparison over time');
     }
-  });
-  
-  return results;
-};
 
-// Custom comparison function for object-based custom types
-const compareCustomObjectData = (
-  instanceData: Record<string, SettingsData | CodeTableData>,
-  instanceIds: string[],
-  customType: CustomComparisonType,
-  baseInstanceId?: string
-): ComparisonResult[] => {
-  const results: ComparisonResult[] = [];
-  
-  // Only compare specified fields
-  customType.comparisonFields.forEach(fieldPath => {
-    const values: Record<string, unknown> = {};
-    const affectedInstances: string[] = [];
-    let hasBaseValue = false;
-    let baseValue: unknown;
-    let hasDifference = false;
-    
-    // Collect values from all instances for this field
-    instanceIds.forEach(instanceId => {
-      const data = instanceData[instanceId];
-      if (data) {
-        const value = getValueAtPath(data, fieldPath);
-        if (value !== undefined) {
-          values[instanceId] = value;
-          affectedInstances.push(instanceId);
-          
-          if (baseInstanceId && instanceId === baseInstanceId) {
-            hasBaseValue = true;
-            baseValue = value;
-          }
-        } else {
-          values[instanceId] = 'MISSING';
-        }
-      } else {
-        values[instanceId] = 'MISSING';
-      }
-    });
-    
-    // Determine if there are differences
-    if (baseInstanceId && hasBaseValue) {
-      instanceIds.forEach(instanceId => {
-        if (instanceId !== baseInstanceId) {
-          const otherValue = values[instanceId];
-          if (JSON.stringify(otherValue) !== JSON.stringify(baseValue) && otherValue !== 'MISSING') {
-            hasDifference = true;
-          } else if (otherValue === 'MISSING') {
-            hasDifference = true;
-          }
-        }
-      });
-    } else {
-      const uniqueValues = new Set(Object.values(values).map(v => JSON.stringify(v)));
-      hasDifference = uniqueValues.size > 1;
+    const ordered = [...snapshots].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    const snapshotData: Record<string, unknown> = {};
+    await Promise.all(ordered.map(async snapshot => {
+      snapshotData[snapshot.id] = await loadSnapshotData(snapshot.id);
+    }));
+
+    const state = (getState() as { comparison: ComparisonState }).comparison;
+    // Accepted divergences describe instances, not points in time
+    const temporalState = { ...state, acceptedDivergences: [] };
+    const onProgress = (progress: ComparisonProgress) => dispatch(comparisonSlice.actions.setComparisonProgress(progress));
+    const compare = (from: SnapshotRef, to: SnapshotRef) => runComparisonInWorker(
+      buildComparisonJob(temporalState, [from.id, to.id], { [from.id]: snapshotData[from.id], [to.id]: snapshotData[to.id] }, from.id),
+      onProgress,
+      signal
+    );
+
+    const changeLog: ChangeLogEntry[] = [];
+    let outcome: Awaited<ReturnType<typeof compare>> | null = null;
+    for (let i = 1; i < ordered.length; i++) {
+      const from = ordered[i - 1];
+      const to = ordered[i];
+      outcome = await compare(from, to);
+      outcome.results.forEach(result => changeLog.push({
+        fromSnapshotId: from.id,
+        toSnapshotId: to.id,
+        timestamp: to.timestamp,
+        path: result.path,
+        type: result.type,
+        description: result.description,
+        before: withoutMissing(result.values[from.id]),
+        after: withoutMissing(result.values[to.id]),
+      }));
     }
-    
-    // Add result if there are differences
-    if (hasDifference) {
-      let type: ComparisonResult['type'] = 'edited';
-      let description = '';
-      
-      const missingInstances = instanceIds.filter(id => values[id] === 'MISSING');
-      const presentInstances = instanceIds.filter(id => values[id] !== 'MISSING');
-      
-      if (missingInstances.length > 0 && presentInstances.length > 0) {
-        if (baseInstanceId) {
-          if (values[baseInstanceId] === 'MISSING') {
-            type = 'added';
-            description = `${customType.label} field "${fieldPath}" added in ${presentInstances.length} instance(s) (not present in base)`;
-          } else {
-            type = 'deleted';
-            description = `${customType.label} field "${fieldPath}" deleted in ${missingInstances.length} instance(s) (present in base)`;
-          }
-        } else {
-          if (missingInstances.length < presentInstances.length) {
-            type = 'added';
-            description = `${customType.label} field "${fieldPath}" added in ${presentInstances.length} instance(s), missing in ${missingInstances.length}`;
-          } else {
-            type = 'deleted';
-            description = `${customType.label} field "${fieldPath}" deleted in ${missingInstances.length} instance(s), present in ${presentInstances.length}`;
-          }
-        }
-      } else if (presentInstances.length === instanceIds.length) {
-        type = 'edited';
-        if (baseInstanceId && hasBaseValue) {
-          const differentInstances = instanceIds.filter(id => id !== baseInstanceId && JSON.stringify(values[id]) !== JSON.stringify(baseValue));
-          description = `${customType.label} field "${fieldPath}" differs from base value in ${differentInstances.length} instance(s)`;
-        } else {
-          description = `${customType.label} field "${fieldPath}" has inconsistent values across instances`;
-        }
-      }
-      
-      results.push({
-        path: fieldPath,
-        type,
-        values,
-        affectedInstances,
-        description,
-      });
+
+    // With more than two snapshots the net change needs its own comparison
+    const first = ordered[0];
+    const last = ordered[ordered.length - 1];
+    if (ordered.length > 2) {
+      outcome = await compare(first, last);
     }
-  });
-  
-  return results;
-};
+
+    const session: ComparisonSession = {
+      id: Date.now().toString(),
+      name,
+      instanceIds: [first.id, last.id],
+      endpoint,
+      comparisonType: state.comparisonType,
+      timestamp: new Date().toISOString(),
+      results: outcome.results,
+      summary: outcome.summary,
+      ...(outcome.suppressed.length > 0 ? { suppressed: outcome.suppressed } : {}),
+      temporal: { instanceId, snapshots: ordered, changeLog },
+    };
+    return session;
+  }
+);
+
+// Lazily load the results of a session restored from IndexedDB
+export const loadSessionResults = createAsyncThunk(
+  'comparison/loadSessionResults',
+  (sessionId: string) => loadStoredSessionResults(sessionId)
+);
 
 const comparisonSlice = createSlice({
   name: 'comparison',
@@ -1072,21 +712,88 @@ const comparisonSlice = createSlice({
       type: string; 
       fetchEndpoint: string; 
       saveEndpoint: string; 
-      requestBody?: Record<string, unknown> 
+      requestBody?: Record<string, unknown>;
+      saveResultPath?: string 
     }>) => {
-      const { type, fetchEndpoint, saveEndpoint, requestBody } = action.payload;
+      const { type, fetchEndpoint, saveEndpoint, requestBody, saveResultPath } = action.payload;
       state.builtInEndpoints[type] = { 
         fetchEndpoint, 
         saveEndpoint,
-        ...(requestBody ? { requestBody } : {})
+        ...(requestBody ? { requestBody } : {}),
+        ...(saveResultPath ? { saveResultPath } : {})
       };
       // Update current endpoints if this is the active type
       if (state.comparisonType === type) {
         state.currentFetchEndpoint = fetchEndpoint;
         state.currentSaveEndpoint = saveEndpoint;
       }
-      // Save to localStorage
-      saveBuiltInEndpointsToLocalStorage(state.builtInEndpoints);
+    },
+    setFeatureToggleFields: (state, action: PayloadAction<string[]>) => {
+      state.featureToggleFields = action.payload;
+    },
+    setArrayMatching: (state, action: PayloadAction<ArrayMatchingConfig>) => {
+      state.arrayMatching = action.payload;
+    },
+    addIgnoreRule: (state, action: PayloadAction<Omit<IgnoreRule, 'id'>>) => {
+      state.ignoreRules.push({
+        ...action.payload,
+        id: `ignore-${Date.now()}`,
+      });
+    },
+    updateIgnoreRule: (state, action: PayloadAction<IgnoreRule>) => {
+      const index = state.ignoreRules.findIndex(r => r.id === action.payload.id);
+      if (index !== -1) {
+        state.ignoreRules[index] = action.payload;
+      }
+    },
+    deleteIgnoreRule: (state, action: PayloadAction<string>) => {
+      state.ignoreRules = state.ignoreRules.filter(r => r.id !== action.payload);
+    },
+    addNormalizationRule: (state, action: PayloadAction<Omit<NormalizationRule, 'id'>>) => {
+      state.normalizationRules.push({
+        ...action.payload,
+        id: `normalize-${Date.now()}`,
+      });
+    },
+    deleteNormalizationRule: (state, action: PayloadAction<string>) => {
+      state.normalizationRules = state.normalizationRules.filter(r => r.id !== action.payload);
+    },
+    acceptDivergence: (state, action: PayloadAction<{ sessionId: string; divergence: Omit<AcceptedDivergence, 'id' | 'acceptedAt'> }>) => {
+      const divergence: AcceptedDivergence = {
+        ...action.payload.divergence,
+        id: `accepted-${Date.now()}`,
+        acceptedAt: new Date().toISOString(),
+      };
+      state.acceptedDivergences.push(divergence);
+
+      // Reclassify the result in the session it was accepted from
+      const session = state.sessions.find(s => s.id === action.payload.sessionId);
+      if (session && session.resultsLoaded !== false) {
+        session.results = session.results.map(result =>
+          result.path === divergence.path && result.type === divergence.resultType
+            ? {
+                ...result,
+                type: 'accepted',
+                acceptance: toResultAcceptance(divergence, result.type),
+              }
+            : result
+        );
+        session.summary = summarizeResults(session.results);
+      }
+    },
+    revokeDivergence: (state, action: PayloadAction<string>) => {
+      state.acceptedDivergences = state.acceptedDivergences.filter(d => d.id !== action.payload);
+
+      // Results accepted through this divergence become differences again
+      state.sessions.forEach(session => {
+        if (!session.results.some(r => r.acceptance?.divergenceId === action.payload)) return;
+        session.results = session.results.map(result => {
+          if (result.acceptance?.divergenceId !== action.payload) return result;
+          const { acceptance, ...rest } = result;
+          return { ...rest, type: acceptance.originalType };
+        });
+        session.summary = summarizeResults(session.results);
+      });
     },
     addCustomComparisonType: (state, action: PayloadAction<Omit<CustomComparisonType, 'id' | 'createdAt'>>) => {
       const newType: CustomComparisonType = {
@@ -1095,13 +802,11 @@ const comparisonSlice = createSlice({
         createdAt: new Date().toISOString(),
       };
       state.customTypes.push(newType);
-      saveCustomTypesToLocalStorage(state.customTypes);
     },
     updateCustomComparisonType: (state, action: PayloadAction<CustomComparisonType>) => {
       const index = state.customTypes.findIndex(t => t.id === action.payload.id);
       if (index !== -1) {
         state.customTypes[index] = action.payload;
-        saveCustomTypesToLocalStorage(state.customTypes);
         // Update current endpoints if this is the active type
         if (state.comparisonType === action.payload.id) {
           state.currentFetchEndpoint = action.payload.fetchEndpoint;
@@ -1111,7 +816,6 @@ const comparisonSlice = createSlice({
     },
     deleteCustomComparisonType: (state, action: PayloadAction<string>) => {
       state.customTypes = state.customTypes.filter(t => t.id !== action.payload);
-      saveCustomTypesToLocalStorage(state.customTypes);
       // If the deleted type was currently selected, reset to settings
       if (state.comparisonType === action.payload) {
         state.comparisonType = 'settings';
@@ -1120,100 +824,8 @@ const comparisonSlice = createSlice({
         state.currentSaveEndpoint = settingsConfig.saveEndpoint;
       }
     },
-    createComparisonSession: (state, action: PayloadAction<{
-      name: string;
-      instanceIds: string[];
-      endpoint: string;
-      instanceData: Record<string, ComparisonData>;
-    }>) => {
-      const { name, instanceIds, endpoint, instanceData } = action.payload;
-      
-      if (instanceIds.length < 2) {
-        state.error = 'At least 2 instances are required for comparison';
-        return;
-      }
-
-      const results: ComparisonResult[] = [];
-
-      // Use specialized comparison based on comparison type
-      const customType = state.customTypes.find(t => t.id === state.comparisonType);
-      
-      if (state.comparisonType === 'featureToggle') {
-        const featureToggleData: Record<string, FeatureToggle[]> = {};
-        instanceIds.forEach(id => {
-          if (instanceData[id]) {
-            featureToggleData[id] = instanceData[id] as FeatureToggle[];
-          }
-        });
-        results.push(...compareFeatureToggles(featureToggleData, instanceIds, state.baseInstanceId || undefined));
-      } else if (state.comparisonType === 'settings') {
-        const settingsData: Record<string, SettingItem[]> = {};
-        instanceIds.forEach(id => {
-          if (instanceData[id]) {
-            settingsData[id] = instanceData[id] as SettingItem[];
-          }
-        });
-        results.push(...compareSettings(settingsData, instanceIds, state.baseInstanceId || undefined));
-      } else if (state.comparisonType === 'codeTable') {
-        const codeTableData: Record<string, CodeTableItem[]> = {};
-        instanceIds.forEach(id => {
-          if (instanceData[id]) {
-            codeTableData[id] = instanceData[id] as CodeTableItem[];
-          }
-        });
-        results.push(...compareCodeTables(codeTableData, instanceIds, state.baseInstanceId || undefined));
-      } else if (customType && customType.identifierField) {
-        // Custom type with array data (like feature toggles)
-        const customArrayData: Record<string, Record<string, unknown>[]> = {};
-        instanceIds.forEach(id => {
-          if (instanceData[id]) {
-            customArrayData[id] = instanceData[id] as unknown as Record<string, unknown>[];
-          }
-        });
-        results.push(...compareCustomArrayData(customArrayData, instanceIds, customType, state.baseInstanceId || undefined));
-      } else if (customType && customType.comparisonFields.length > 0) {
-        // Custom type with object data and specific fields
-        const genericData: Record<string, SettingsData | CodeTableData> = {};
-        instanceIds.forEach(id => {
-          if (instanceData[id]) {
-            genericData[id] = instanceData[id] as SettingsData | CodeTableData;
-          }
-        });
-        results.push(...compareCustomObjectData(genericData, instanceIds, customType, state.baseInstanceId || undefined));
-      } else {
-        // Use generic comparison for settings and codeTable
-        const genericData: Record<string, SettingsData | CodeTableData> = {};
-        instanceIds.forEach(id => {
-          if (instanceData[id]) {
-            genericData[id] = instanceData[id] as SettingsData | CodeTableData;
-          }
-        });
-        results.push(...compareGenericData(genericData, instanceIds, state.baseInstanceId || undefined));
-      }
-
-      // Calculate summary
-      const summary = {
-        totalDifferences: results.length,
-        added: results.filter(r => r.type === 'added').length,
-        deleted: results.filter(r => r.type === 'deleted').length,
-        edited: results.filter(r => r.type === 'edited').length,
-      };
-
-      const session: ComparisonSession = {
-        id: Date.now().toString(),
-        name,
-        instanceIds,
-        endpoint,
-        timestamp: new Date().toISOString(),
-        results,
-        summary,
-      };
-
-      state.sessions.push(session);
-      state.activeSessionId = session.id;
-      
-      // Save to localStorage
-      saveComparisonSessionsToLocalStorage(state.sessions);
+    setComparisonProgress: (state, action: PayloadAction<ComparisonProgress>) => {
+      state.comparisonProgress = action.payload;
     },
     setActiveSession: (state, action: PayloadAction<string>) => {
       state.activeSessionId = action.payload;
@@ -1234,17 +846,116 @@ const comparisonSlice = createSlice({
       state.error = null;
     },
   },
+  extraReducers: (builder) => {
+    builder
+      .addCase(hydrateStorage.fulfilled, (state, action) => {
+        // Sessions created while loading are kept alongside the stored ones
+        const inMemoryIds = new Set(state.sessions.map(s => s.id));
+        state.sessions = [
+          ...action.payload.sessions.filter(s => !inMemoryIds.has(s.id)),
+          ...state.sessions,
+        ];
+        if (!state.activeSessionId) {
+          state.activeSessionId = state.sessions[0]?.id || null;
+        }
+      })
+      .addCase(loadSessionResults.pending, (state, action) => {
+        state.loadingResultsFor = action.meta.arg;
+      })
+      .addCase(verifyMigration.fulfilled, (state, action) => {
+        const { sessionId, sourceInstanceId, targetInstanceId, checks } = action.payload;
+        const session = state.sessions.find(s => s.id === sessionId);
+        if (!session || session.resultsLoaded === false) return;
+
+        // Record the check and the target's current value on each migrated result
+        session.results = session.results.map(result => {
+          const check = checks[result.path];
+          if (!check) return result;
+          const { targetValue, ...migrationCheck } = check;
+          const values = { ...result.values };
+          if (check.state === 'verified') values[targetInstanceId] = result.values[sourceInstanceId];
+          if (check.state === 'still-different') values[targetInstanceId] = targetValue;
+          return {
+            ...result,
+            values,
+            migrationChecks: { ...result.migrationChecks, [targetInstanceId]: migrationCheck },
+          };
+        });
+      })
+      .addCase(loadSessionResults.fulfilled, (state, action) => {
+        state.loadingResultsFor = null;
+        const session = state.sessions.find(s => s.id === action.meta.arg);
+        if (!session) return;
+        // Divergences revoked while the results were unloaded no longer apply
+        const divergenceIds = new Set(state.acceptedDivergences.map(d => d.id));
+        const isRevoked = (result: ComparisonResult) => !!result.acceptance && !divergenceIds.has(result.acceptance.divergenceId);
+        session.results = action.payload.results.map(result => {
+          if (!isRevoked(result)) return result;
+          const { acceptance, ...rest } = result;
+          return { ...rest, type: acceptance.originalType };
+        });
+        if (action.payload.results.some(isRevoked)) {
+          session.summary = summarizeResults(session.results);
+        }
+        if (action.payload.suppressed) session.suppressed = action.payload.suppressed;
+        delete session.resultsLoaded;
+      })
+      .addCase(loadSessionResults.rejected, (state, action) => {
+        state.loadingResultsFor = null;
+        state.error = action.error.message || 'Failed to load session results';
+      })
+      .addMatcher(isAnyOf(runComparison.pending, runTemporalComparison.pending), (state) => {
+        state.loading = true;
+        state.comparisonProgress = null;
+        state.error = null;
+      })
+      .addMatcher(isAnyOf(runComparison.fulfilled, runTemporalComparison.fulfilled), (state, action) => {
+        state.loading = false;
+        state.comparisonProgress = null;
+        state.sessions.push(action.payload);
+        state.activeSessionId = action.payload.id;
+      })
+      .addMatcher(isAnyOf(runComparison.rejected, runTemporalComparison.rejected), (state, action) => {
+        state.loading = false;
+        state.comparisonProgress = null;
+        // A cancelled comparison is not an error
+        state.error = action.meta.aborted ? null : action.error.message || 'Comparison failed';
+      });
+  },
 });
 
+/**
+ * Persist the configuration that changed since the previous state. Called from
+ * a store subscriber so reducers stay free of side effects; sessions are
+ * written to IndexedDB by persistStoredData.
+ */
+export const persistComparisonState = (state: ComparisonState, previous: ComparisonState) => {
+  if (state.customTypes !== previous.customTypes) saveCustomTypesToLocalStorage(state.customTypes);
+  if (state.builtInEndpoints !== previous.builtInEndpoints) saveBuiltInEndpointsToLocalStorage(state.builtInEndpoints);
+  if (state.featureToggleFields !== previous.featureToggleFields) saveFeatureToggleFieldsToLocalStorage(state.featureToggleFields);
+  if (state.arrayMatching !== previous.arrayMatching) saveArrayMatchingToLocalStorage(state.arrayMatching);
+  if (state.ignoreRules !== previous.ignoreRules) saveIgnoreRulesToLocalStorage(state.ignoreRules);
+  if (state.normalizationRules !== previous.normalizationRules) saveNormalizationRulesToLocalStorage(state.normalizationRules);
+  if (state.acceptedDivergences !== previous.acceptedDivergences) saveAcceptedDivergencesToLocalStorage(state.acceptedDivergences);
+};
+
 export const {
   setSelectedInstances,
   setBaseInstanceId,
   setComparisonType,
   updateBuiltInEndpoints,
+  setFeatureToggleFields,
+  setArrayMatching,
+  addIgnoreRule,
+  updateIgnoreRule,
+  deleteIgnoreRule,
+  addNormalizationRule,
+  deleteNormalizationRule,
+  acceptDivergence,
+  revokeDivergence,
   addCustomComparisonType,
   updateCustomComparisonType,
   deleteCustomComparisonType,
-  createComparisonSession,
   setActiveSession,
   deleteSession,
   setLoading,
@@ -1,10 +1,33 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import { saveSnapshot } from '@/utils/indexedDbStorage';
+import { hydrateStorage, storageWriteFailed } from './storageSlice';
+import { recordSaveCall, SaveAuditContext } from './auditSlice';
+import type { Snapshot } from './snapshotsSlice';
+import { InstanceRequestError, InstanceResponse, requestInstance } from '@/utils/httpClient';
+
+export type InstanceAuthMode = 'queryKey' | 'headerKey' | 'bearer' | 'basic' | 'oauth2';
+
+// How requests to an instance are authenticated; secrets are kept in the vault
+export interface InstanceAuth {
+  mode: InstanceAuthMode;
+  headerName?: string; // headerKey: defaults to X-API-Key
+  username?: string; // basic
+  tokenUrl?: string; // oauth2: client-credentials token endpoint
+  clientId?: string; // oauth2
+  scope?: string; // oauth2
+}
+
+// Credentials of an instance: the key or token (query key, header key, bearer), basic password, OAuth2 client secret
+export type InstanceSecretField = 'authKey' | 'password' | 'clientSecret';
 
 export interface Instance {
   id: string;
   name: string;
   url: string;
-  authKey: string;
+  auth?: InstanceAuth; // Absent: the key is sent as the authkey query parameter
+  secretIds?: Partial<Record<InstanceSecretField, string>>; // Vault ids of the credentials
+  authKey?: string; // Plain-text key of instances saved before the vault; moved into it on unlock
+  timeoutMs?: number; // Per request attempt; defaults to DEFAULT_TIMEOUT_MS
   isActive: boolean;
   lastSync?: string;
   status?: 'connected' | 'disconnected' | 'loading' | 'error';
@@ -14,12 +37,25 @@ export interface InstanceData {
   instanceId: string;
   data: unknown;
   timestamp: string;
+  comparisonType?: string; // Comparison type the data was fetched for
+  snapshotId?: string; // Snapshot holding this fetch
+  error?: string;
+}
+
+export type FetchStatus = 'idle' | 'loading' | 'succeeded' | 'failed';
+
+// Latest fetch of one comparison type from one instance; kept for the session only
+export interface FetchState {
+  status: FetchStatus; // idle: never fetched, cancelled, or its data was replaced by another type's
+  requestId?: string;
+  durationMs?: number;
+  bytes?: number;
+  attempts?: number;
   error?: string;
 }
 
-// Local storage utilities
+// Local storage utilities; fetched data is kept in IndexedDB
 const INSTANCES_STORAGE_KEY = 'json-sync-diff-instances';
-const INSTANCE_DATA_STORAGE_KEY = 'json-sync-diff-instance-data';
 
 const saveInstancesToLocalStorage = (instances: Instance[]) => {
   try {
@@ -39,53 +75,38 @@ const loadInstancesFromLocalStorage = (): Instance[] => {
   }
 };
 
-const saveInstanceDataToLocalStorage = (instanceData: Record<string, InstanceData>) => {
-  try {
-    localStorage.setItem(INSTANCE_DATA_STORAGE_KEY, JSON.stringify(instanceData));
-  } catch (error) {
-    // Failed to save instance data to localStorage
-  }
-};
-
-const loadInstanceDataFromLocalStorage = (): Record<string, InstanceData> => {
-  try {
-    const stored = localStorage.getItem(INSTANCE_DATA_STORAGE_KEY);
-    return stored ? JSON.parse(stored) : {};
-  } catch (error) {
-    // Failed to load instance data from localStorage
-    return {};
-  }
-};
-
 interface InstancesState {
   instances: Instance[];
   instanceData: Record<string, InstanceData>;
-  loading: boolean;
+  fetchStates: Record<string, Record<string, FetchState>>; // By instance id, then comparison type
+  loading: boolean; // Posts only; fetches are tracked in fetchStates
   error: string | null;
 }
 
 const loadedInstances = loadInstancesFromLocalStorage();
-const loadedInstanceData = loadInstanceDataFromLocalStorage();
 
 const initialState: InstancesState = {
   instances: loadedInstances,
-  instanceData: loadedInstanceData,
+  instanceData: {}, // Loaded by hydrateStorage
+  fetchStates: {},
   loading: false,
   error: null,
 };
 
-// Async thunk for fetching data from an instance
+// Async thunk for fetching data from an instance; every fetch is kept as a snapshot
 export const fetchInstanceData = createAsyncThunk(
   'instances/fetchData',
   async ({ 
     instanceId, 
     endpoint, 
+    comparisonType,
     requestBody 
   }: { 
     instanceId: string; 
     endpoint: string; 
+    comparisonType: string;
     requestBody?: Record<string, unknown> 
-  }, { getState }) => {
+  }, { getState, dispatch, signal, requestId }) => {
     const state = getState() as { instances: InstancesState };
     const instance = state.instances.instances.find(i => i.id === instanceId);
     
@@ -93,32 +114,67 @@ export const fetchInstanceData = createAsyncThunk(
       throw new Error('Instance not found');
     }
 
-    const response = await fetch(`${instance.url}${endpoint}?authkey=${instance.authKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody || { action: 'fetch' }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch data: ${response.statusText}`);
+    // Fetches only read, so they are safe to retry
+    let response: InstanceResponse;
+    try {
+      response = await requestInstance(instance, endpoint, {
+        action: 'fetch data',
+        body: JSON.stringify(requestBody || { action: 'fetch' }),
+        idempotent: true,
+        signal,
+      });
+    } catch (error) {
+      // The rejected action only carries the message
+      if (error instanceof InstanceRequestError) {
+        dispatch(instancesSlice.actions.setFetchTiming({ instanceId, comparisonType, requestId, durationMs: error.durationMs, attempts: error.attempts }));
+      }
+      throw error;
     }
+    const { data, durationMs, bytes, attempts } = response;
+    const timestamp = new Date().toISOString();
 
-    const data = await response.json();
+    const snapshot: Snapshot = {
+      id: `${instanceId}:${comparisonType}:${timestamp}`,
+      instanceId,
+      comparisonType,
+      endpoint,
+      timestamp,
+      size: new Blob([JSON.stringify(data)]).size,
+    };
+    let snapshotSaved = true;
+    try {
+      await saveSnapshot(snapshot, data);
+    } catch (error) {
+      // The fetch itself succeeded; report the storage failure separately
+      snapshotSaved = false;
+      dispatch(storageWriteFailed(error instanceof Error ? error.message : 'Failed to save snapshot'));
+    }
     
     return {
       instanceId,
       data,
-      timestamp: new Date().toISOString(),
+      timestamp,
+      comparisonType,
+      request: { durationMs, bytes, attempts },
+      ...(snapshotSaved ? { snapshotId: snapshot.id, snapshot } : {}),
     };
   }
 );
 
-// Async thunk for posting data to an instance
+// Async thunk for posting data to an instance; every call is recorded in the audit log
 export const postInstanceData = createAsyncThunk(
   'instances/postData',
-  async ({ instanceId, endpoint, data }: { instanceId: string; endpoint: string; data: unknown }, { getState }) => {
+  async ({ 
+    instanceId, 
+    endpoint, 
+    data,
+    audit 
+  }: { 
+    instanceId: string; 
+    endpoint: string; 
+    data: unknown;
+    audit?: SaveAuditContext 
+  }, { getState, dispatch }) => {
     const state = getState() as { instances: InstancesState };
     const instance = state.instances.instances.find(i => i.id === instanceId);
     
@@ -126,19 +182,29 @@ export const postInstanceData = createAsyncThunk(
       throw new Error('Instance not found');
     }
 
-    const response = await fetch(`${instance.url}${endpoint}?authkey=${instance.authKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(data),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to post data: ${response.statusText}`);
+    const body = JSON.stringify(data);
+    let responseStatus: number | null = null;
+    let error: string | undefined;
+    try {
+      // Saves are sent once: a retry could apply the same change twice
+      const response = await requestInstance(instance, endpoint, { action: 'post data', body });
+      responseStatus = response.status;
+      return response.data;
+    } catch (postError) {
+      if (postError instanceof InstanceRequestError) responseStatus = postError.status;
+      error = postError instanceof Error ? postError.message : 'Failed to post data';
+      throw postError;
+    } finally {
+      await dispatch(recordSaveCall({
+        targetInstanceId: instanceId,
+        endpoint,
+        body,
+        responseStatus,
+        succeeded: error === undefined,
+        error,
+        context: audit,
+      }));
     }
-
-    return await response.json();
   }
 );
 
@@ -165,8 +231,8 @@ const instancesSlice = createSlice({
     removeInstance: (state, action: PayloadAction<string>) => {
       state.instances = state.instances.filter(i => i.id !== action.payload);
       delete state.instanceData[action.payload];
+      delete state.fetchStates[action.payload];
       saveInstancesToLocalStorage(state.instances);
-      saveInstanceDataToLocalStorage(state.instanceData);
     },
     toggleInstanceActive: (state, action: PayloadAction<string>) => {
       const instance = state.instances.find(i => i.id === action.payload);
@@ -185,17 +251,37 @@ const instancesSlice = createSlice({
     clearError: (state) => {
       state.error = null;
     },
+    setFetchTiming: (state, action: PayloadAction<{ instanceId: string; comparisonType: string; requestId: string; durationMs: number; attempts: number }>) => {
+      const { instanceId, comparisonType, requestId, durationMs, attempts } = action.payload;
+      const fetchState = state.fetchStates[instanceId]?.[comparisonType];
+      if (fetchState?.requestId === requestId) {
+        fetchState.durationMs = durationMs;
+        fetchState.attempts = attempts;
+      }
+    },
   },
   extraReducers: (builder) => {
     builder
-      .addCase(fetchInstanceData.pending, (state) => {
-        state.loading = true;
-        state.error = null;
+      .addCase(fetchInstanceData.pending, (state, action) => {
+        const { instanceId, comparisonType } = action.meta.arg;
+        state.fetchStates[instanceId] = {
+          ...state.fetchStates[instanceId],
+          [comparisonType]: { status: 'loading', requestId: action.meta.requestId },
+        };
       })
       .addCase(fetchInstanceData.fulfilled, (state, action) => {
-        state.loading = false;
-        state.instanceData[action.payload.instanceId] = action.payload;
-        saveInstanceDataToLocalStorage(state.instanceData);
+        const { snapshot: _snapshot, request, ...instanceData } = action.payload;
+        const fetchStates = state.fetchStates[action.payload.instanceId] || {};
+        // A newer fetch of this type has started since; its outcome wins
+        if (fetchStates[action.payload.comparisonType]?.requestId !== action.meta.requestId) return;
+        state.instanceData[action.payload.instanceId] = instanceData;
+        fetchStates[action.payload.comparisonType] = { status: 'succeeded', requestId: action.meta.requestId, ...request };
+        // instanceData holds one type per instance; data fetched for the other types was just replaced
+        Object.entries(fetchStates).forEach(([comparisonType, fetchState]) => {
+          if (comparisonType !== action.payload.comparisonType && fetchState.status === 'succeeded') {
+            fetchStates[comparisonType] = { status: 'idle', requestId: fetchState.requestId };
+          }
+        });
         const instance = state.instances.find(i => i.id === action.payload.instanceId);
         if (instance) {
           instance.status = 'connected';
@@ -204,12 +290,15 @@ const instancesSlice = createSlice({
         }
       })
       .addCase(fetchInstanceData.rejected, (state, action) => {
-        state.loading = false;
-        state.error = action.error.message || 'Failed to fetch data';
-        const instanceId = action.meta.arg.instanceId;
+        const { instanceId, comparisonType } = action.meta.arg;
+        const fetchState = state.fetchStates[instanceId]?.[comparisonType];
+        if (fetchState?.requestId !== action.meta.requestId) return;
+        // A cancelled fetch says nothing about the instance
+        fetchState.status = action.meta.aborted ? 'idle' : 'failed';
+        fetchState.error = action.meta.aborted ? undefined : action.error.message || 'Failed to fetch data';
         const instance = state.instances.find(i => i.id === instanceId);
         if (instance) {
-          instance.status = 'error';
+          instance.status = action.meta.aborted ? 'disconnected' : 'error';
         }
       })
       .addCase(postInstanceData.pending, (state) => {
@@ -222,6 +311,10 @@ const instancesSlice = createSlice({
       .addCase(postInstanceData.rejected, (state, action) => {
         state.loading = false;
         state.error = action.error.message || 'Failed to post data';
+      })
+      .addCase(hydrateStorage.fulfilled, (state, action) => {
+        // Data fetched while loading is newer than the stored copy
+        state.instanceData = { ...action.payload.instanceData, ...state.instanceData };
       });
   },
 });
@@ -0,0 +1,207 @@
+import { createSlice, createAsyncThunk, ThunkDispatch, UnknownAction } from '@reduxjs/toolkit';
+import { saveMigrationRecord } from '@/utils/indexedDbStorage';
+import { parseItemResults, MigrationItemResult } from '@/utils/migration';
+import { postInstanceData, Instance } from './instancesSlice';
+import { fetchCurrentData, ComparisonState } from './comparisonSlice';
+import { hydrateStorage, storageWriteFailed } from './storageSlice';
+
+export type MigrationOrigin = 'summary' | 'configManagement';
+
+// The target's values of every touched item, captured before posting
+export interface MigrationBackup {
+  capturedAt: string; // When the target data the values were taken from was fetched
+  body: unknown; // Request body posting the captured values back
+  itemCount: number;
+  createdItems: string[]; // Items the migration added; a rollback cannot remove them
+}
+
+export interface MigrationRecord {
+  id: string;
+  kind: 'migration' | 'rollback';
+  origin: MigrationOrigin;
+  timestamp: string;
+  sourceInstanceId?: string; // Absent for rollbacks
+  targetInstanceId: string;
+  comparisonType: string;
+  endpoint: string;
+  body: unknown; // Exact request body posted
+  itemCount: number;
+  itemLabel: string;
+  itemIds: string[]; // Selected paths or identifiers of the migrated items
+  status: 'succeeded' | 'partial' | 'failed'; // Partial: the save endpoint rejected some of the items
+  error?: string;
+  itemResults?: MigrationItemResult[]; // Per-item outcomes, when the type has a save result path
+  backup?: MigrationBackup; // Migrations only; taken from the target's data fetched right before posting
+  rollbackOf?: string; // Rollbacks: the migration being restored
+  rolledBackBy?: string; // Migrations: the rollback that restored them
+}
+
+export type MigrationRequest = Omit<MigrationRecord, 'id' | 'kind' | 'timestamp' | 'status' | 'error' | 'itemResults' | 'rollbackOf' | 'rolledBackBy'> & {
+  resultPath?: string; // Where the save response lists per-item results
+  postedItemIds?: string[]; // Identifier of every posted item, in payload order
+};
+
+// A target's data as fetched for a migration
+export interface MigrationTargetData {
+  instanceId: string;
+  comparisonType: string;
+  data: unknown;
+  timestamp: string; // When it was fetched
+}
+
+// Items a migration posted that the save endpoint rejected
+export const getFailedItems = (record: MigrationRecord) =>
+  record.itemResults?.filter(result => !result.succeeded) || [];
+
+interface MigrationsState {
+  records: MigrationRecord[]; // Oldest first
+  rollingBack: string | null; // Migration being rolled back
+}
+
+const initialState: MigrationsState = {
+  records: [], // Loaded by hydrateStorage
+  rollingBack: null,
+};
+
+export const canRollBack = (record: MigrationRecord) =>
+  record.kind === 'migration' && record.status !== 'failed' && !record.rolledBackBy && !!record.backup && record.backup.itemCount > 0;
+
+const storeRecord = async (record: MigrationRecord, dispatch: ThunkDispatch<unknown, unknown, UnknownAction>) => {
+  try {
+    await saveMigrationRecord(record);
+  } catch (error) {
+    // The post itself is done; report the storage failure separately
+    dispatch(storageWriteFailed(error instanceof Error ? error.message : 'Failed to save migration record'));
+  }
+};
+
+// Post a record's body through its save endpoint and store the outcome
+const postAndRecord = async (
+  record: Omit<MigrationRecord, 'status' | 'error' | 'itemResults'>,
+  dispatch: ThunkDispatch<unknown, unknown, UnknownAction>,
+  results?: { path?: string; itemIds: string[] }
+): Promise<MigrationRecord> => {
+  const result = await dispatch(postInstanceData({
+    instanceId: record.targetInstanceId,
+    endpoint: record.endpoint,
+    data: record.body,
+    audit: {
+      kind: record.kind,
+      sourceInstanceId: record.sourceInstanceId,
+      comparisonType: record.comparisonType,
+      itemIds: record.itemIds,
+    },
+  }));
+  let completed: MigrationRecord;
+  if (!postInstanceData.fulfilled.match(result)) {
+    completed = { ...record, status: 'failed', error: result.error?.message || 'Failed to post data' };
+  } else {
+    const itemResults = parseItemResults(result.payload, results?.path, results?.itemIds || []);
+    const failedCount = itemResults?.filter(item => !item.succeeded).length || 0;
+    completed = failedCount === 0
+      ? { ...record, status: 'succeeded', ...(itemResults ? { itemResults } : {}) }
+      : {
+          ...record,
+          status: failedCount === itemResults.length ? 'failed' : 'partial',
+          error: `${failedCount} of ${itemResults.length} item(s) rejected by the save endpoint`,
+          itemResults,
+        };
+  }
+  await storeRecord(completed, dispatch);
+  return completed;
+};
+
+/**
+ * Fetch the target's current data for the migrated comparison type. Previews
+ * and backups use it instead of whatever was fetched last, which may be old
+ * or belong to another type. Nothing is kept: no snapshot is stored and the
+ * target's held data stays as it was.
+ */
+export const fetchMigrationTarget = createAsyncThunk(
+  'migrations/fetchTarget',
+  async ({ instanceId, comparisonType }: { instanceId: string; comparisonType: string }, { getState }): Promise<MigrationTargetData> => {
+    const state = getState() as { comparison: ComparisonState; instances: { instances: Instance[] } };
+    const data = await fetchCurrentData(state, instanceId, comparisonType);
+    return { instanceId, comparisonType, data, timestamp: new Date().toISOString() };
+  }
+);
+
+// Post a migration; the returned record tells whether it succeeded
+export const runMigration = createAsyncThunk(
+  'migrations/run',
+  async ({ resultPath, postedItemIds, ...request }: MigrationRequest, { dispatch }) => {
+    const timestamp = new Date().toISOString();
+    return postAndRecord({
+      ...request,
+      id: `${Date.now()}-${request.targetInstanceId}-${Math.random().toString(36).slice(2, 8)}`,
+      kind: 'migration',
+      timestamp,
+    }, dispatch, { path: resultPath, itemIds: postedItemIds || [] });
+  }
+);
+
+// Post a migration's backup back to its target through the same save endpoint
+export const rollbackMigration = createAsyncThunk(
+  'migrations/rollback',
+  async (migrationId: string, { getState, dispatch }) => {
+    const state = getState() as { migrations: MigrationsState };
+    const migration = state.migrations.records.find(r => r.id === migrationId);
+
+    if (!migration || !canRollBack(migration)) {
+      throw new Error('Migration cannot be rolled back');
+    }
+
+    const rollback = await postAndRecord({
+      id: `${Date.now()}-${migration.targetInstanceId}-rollback`,
+      kind: 'rollback',
+      origin: migration.origin,
+      timestamp: new Date().toISOString(),
+      targetInstanceId: migration.targetInstanceId,
+      comparisonType: migration.comparisonType,
+      endpoint: migration.endpoint,
+      body: migration.backup.body,
+      itemCount: migration.backup.itemCount,
+      itemLabel: migration.itemLabel,
+      itemIds: migration.itemIds,
+      rollbackOf: migration.id,
+    }, dispatch);
+
+    if (rollback.status !== 'succeeded') {
+      return { rollback, migration };
+    }
+
+    const rolledBack = { ...migration, rolledBackBy: rollback.id };
+    await storeRecord(rolledBack, dispatch);
+    return { rollback, migration: rolledBack };
+  }
+);
+
+const migrationsSlice = createSlice({
+  name: 'migrations',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      .addCase(hydrateStorage.fulfilled, (state, action) => {
+        const storedIds = new Set(action.payload.migrations.map(r => r.id));
+        state.records = [...action.payload.migrations, ...state.records.filter(r => !storedIds.has(r.id))];
+      })
+      .addCase(runMigration.fulfilled, (state, action) => {
+        state.records.push(action.payload);
+      })
+      .addCase(rollbackMigration.pending, (state, action) => {
+        state.rollingBack = action.meta.arg;
+      })
+      .addCase(rollbackMigration.fulfilled, (state, action) => {
+        const { rollback, migration } = action.payload;
+        state.rollingBack = null;
+        state.records = state.records.map(r => (r.id === migration.id ? migration : r));
+        state.records.push(rollback);
+      })
+      .addCase(rollbackMigration.rejected, (state) => {
+        state.rollingBack = null;
+      });
+  },
+});
+
+export default migrationsSlice.reducer;
@@ -0,0 +1,77 @@
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import { deleteSnapshot as deleteStoredSnapshot } from '@/utils/indexedDbStorage';
+import { fetchInstanceData } from './instancesSlice';
+import { setComparisonType } from './comparisonSlice';
+import { hydrateStorage } from './storageSlice';
+
+// An immutable copy of one fetch; the payload is stored separately in IndexedDB
+export interface Snapshot {
+  id: string; // `${instanceId}:${comparisonType}:${timestamp}`
+  instanceId: string;
+  comparisonType: string;
+  endpoint: string;
+  timestamp: string;
+  size: number; // Payload size in bytes as JSON
+}
+
+interface SnapshotsState {
+  snapshots: Snapshot[]; // Oldest first
+  selectedSnapshots: Record<string, string>; // Snapshot to compare per instance; latest fetch when absent
+}
+
+const initialState: SnapshotsState = {
+  snapshots: [], // Loaded by hydrateStorage
+  selectedSnapshots: {},
+};
+
+export const getInstanceSnapshots = (snapshots: Snapshot[], instanceId: string, comparisonType?: string) =>
+  snapshots.filter(s => s.instanceId === instanceId && (!comparisonType || s.comparisonType === comparisonType));
+
+export const deleteSnapshot = createAsyncThunk(
+  'snapshots/delete',
+  async (snapshotId: string) => {
+    await deleteStoredSnapshot(snapshotId);
+    return snapshotId;
+  }
+);
+
+const snapshotsSlice = createSlice({
+  name: 'snapshots',
+  initialState,
+  reducers: {
+    selectSnapshot: (state, action: PayloadAction<{ instanceId: string; snapshotId: string | null }>) => {
+      const { instanceId, snapshotId } = action.payload;
+      if (snapshotId) {
+        state.selectedSnapshots[instanceId] = snapshotId;
+      } else {
+        delete state.selectedSnapshots[instanceId];
+      }
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(hydrateStorage.fulfilled, (state, action) => {
+        const storedIds = new Set(action.payload.snapshots.map(s => s.id));
+        state.snapshots = [...action.payload.snapshots, ...state.snapshots.filter(s => !storedIds.has(s.id))];
+      })
+      .addCase(fetchInstanceData.fulfilled, (state, action) => {
+        if (action.payload.snapshot) {
+          state.snapshots.push(action.payload.snapshot);
+        }
+      })
+      .addCase(deleteSnapshot.fulfilled, (state, action) => {
+        state.snapshots = state.snapshots.filter(s => s.id !== action.payload);
+        Object.keys(state.selectedSnapshots).forEach(instanceId => {
+          if (state.selectedSnapshots[instanceId] === action.payload) delete state.selectedSnapshots[instanceId];
+        });
+      })
+      .addCase(setComparisonType, (state) => {
+        // Selected snapshots belong to the previous comparison type
+        state.selectedSnapshots = {};
+      });
+  },
+});
+
+export const { selectSnapshot } = snapshotsSlice.actions;
+
+export default snapshotsSlice.reducer;
@@ -0,0 +1,139 @@
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import type { ComparisonSession } from './comparisonSlice';
+import type { InstanceData } from './instancesSlice';
+import {
+  deleteInstanceData,
+  deleteStoredSession,
+  getStorageEstimate,
+  loadAllInstanceData,
+  loadAuditLog,
+  loadMigrationRecords,
+  loadSessionSummaries,
+  loadSnapshots,
+  migrateFromLocalStorage,
+  saveInstanceData,
+  saveSession,
+  MigrationReport,
+} from '@/utils/indexedDbStorage';
+
+interface StorageState {
+  hydrated: boolean; // Stored sessions and payloads have been loaded
+  usage: number | null; // Bytes, null when the browser does not report it
+  quota: number | null;
+  migration: MigrationReport | null; // Set when this load migrated localStorage data
+  error: string | null; // Last failed read or write
+}
+
+const initialState: StorageState = {
+  hydrated: false,
+  usage: null,
+  quota: null,
+  migration: null,
+  error: null,
+};
+
+// The parts of the root state kept in IndexedDB
+interface PersistedState {
+  instances: { instanceData: Record<string, InstanceData> };
+  comparison: { sessions: ComparisonSession[] };
+}
+
+// Load stored sessions (without results), payloads, snapshots, migration records and the audit log, migrating localStorage data first
+export const hydrateStorage = createAsyncThunk(
+  'storage/hydrate',
+  async (_, { getState }) => {
+    const migration = await migrateFromLocalStorage();
+    const [sessions, instanceData, snapshots, migrations, auditLog, estimate] = await Promise.all([
+      loadSessionSummaries(),
+      loadAllInstanceData(),
+      loadSnapshots(),
+      loadMigrationRecords(),
+      loadAuditLog(),
+      getStorageEstimate(),
+    ]);
+
+    // Data created before hydration finished is not written by the subscriber
+    const state = getState() as PersistedState;
+    await Promise.all([
+      ...state.comparison.sessions.filter(session => session.resultsLoaded !== false).map(saveSession),
+      ...Object.values(state.instances.instanceData).map(saveInstanceData),
+    ]);
+
+    return { sessions, instanceData, snapshots, migrations, auditLog, migration, estimate };
+  }
+);
+
+export const refreshStorageEstimate = createAsyncThunk('storage/estimate', () => getStorageEstimate());
+
+/**
+ * Write sessions and payloads that changed since the previous state. Sessions
+ * whose results are not loaded are skipped, as are sessions whose only change
+ * is that their stored results were just loaded.
+ */
+export const persistStoredData = (state: PersistedState, previous: PersistedState): Promise<void>[] => {
+  const writes: Promise<void>[] = [];
+
+  const { sessions } = state.comparison;
+  const previousSessions = previous.comparison.sessions;
+  if (sessions !== previousSessions) {
+    const previousById = new Map(previousSessions.map(session => [session.id, session]));
+    sessions.forEach(session => {
+      const before = previousById.get(session.id);
+      if (before === session || session.resultsLoaded === false) return;
+      if (before?.resultsLoaded === false && before.summary === session.summary) return;
+      writes.push(saveSession(session));
+    });
+    const currentIds = new Set(sessions.map(session => session.id));
+    previousSessions
+      .filter(session => !currentIds.has(session.id))
+      .forEach(session => writes.push(deleteStoredSession(session.id)));
+  }
+
+  const { instanceData } = state.instances;
+  const previousInstanceData = previous.instances.instanceData;
+  if (instanceData !== previousInstanceData) {
+    Object.values(instanceData)
+      .filter(record => previousInstanceData[record.instanceId] !== record)
+      .forEach(record => writes.push(saveInstanceData(record)));
+    Object.keys(previousInstanceData)
+      .filter(instanceId => !instanceData[instanceId])
+      .forEach(instanceId => writes.push(deleteInstanceData(instanceId)));
+  }
+
+  return writes;
+};
+
+const storageSlice = createSlice({
+  name: 'storage',
+  initialState,
+  reducers: {
+    storageWriteFailed: (state, action: PayloadAction<string>) => {
+      state.error = action.payload;
+    },
+    clearStorageError: (state) => {
+      state.error = null;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(hydrateStorage.fulfilled, (state, action) => {
+        state.hydrated = true;
+        state.migration = action.payload.migration;
+        state.usage = action.payload.estimate?.usage ?? null;
+        state.quota = action.payload.estimate?.quota ?? null;
+      })
+      .addCase(hydrateStorage.rejected, (state, action) => {
+        // Keep working in memory; writes are attempted and reported from here on
+        state.hydrated = true;
+        state.error = action.error.message || 'Failed to load stored data';
+      })
+      .addCase(refreshStorageEstimate.fulfilled, (state, action) => {
+        state.usage = action.payload?.usage ?? null;
+        state.quota = action.payload?.quota ?? null;
+      });
+  },
+});
+
+export const { storageWriteFailed, clearStorageError } = storageSlice.actions;
+
+export default storageSlice.reducer;
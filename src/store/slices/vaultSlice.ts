@@ -0,0 +1,170 @@
+import { createSlice, createAsyncThunk, isAnyOf, ThunkDispatch, UnknownAction } from '@reduxjs/toolkit';
+import {
+  createSecretId,
+  createVault as createSecretVault,
+  getSecretIds,
+  hasVault,
+  lockVault as lockSecretVault,
+  restoreVaultSession as restoreSecretVaultSession,
+  unlockVault as unlockSecretVault,
+  updateSecrets,
+} from '@/utils/secretVault';
+import { updateInstance, Instance, InstanceSecretField } from './instancesSlice';
+
+// Secrets themselves never enter the store
+interface VaultState {
+  status: 'none' | 'locked' | 'unlocked';
+  secretCount: number;
+  unlocking: boolean;
+  error: string | null;
+}
+
+const initialState: VaultState = {
+  status: hasVault() ? 'locked' : 'none',
+  secretCount: 0,
+  unlocking: false,
+  error: null,
+};
+
+type LegacyInstance = Instance & { auth?: { password?: string; clientSecret?: string } };
+
+// Move plain-text credentials saved before the vault existed into it
+const moveLegacySecrets = async (instances: LegacyInstance[], dispatch: ThunkDispatch<unknown, unknown, UnknownAction>) => {
+  for (const instance of instances) {
+    const { authKey, secretIds = {}, ...rest } = instance;
+    const { password, clientSecret, ...auth } = instance.auth || { mode: 'queryKey' as const };
+    const plain: Partial<Record<InstanceSecretField, string>> = { authKey, password, clientSecret };
+    const fields = (Object.keys(plain) as InstanceSecretField[]).filter(field => plain[field]);
+    if (fields.length === 0 && authKey === undefined) continue;
+
+    const nextSecretIds = { ...secretIds };
+    const values: Record<string, string> = {};
+    fields.forEach(field => {
+      nextSecretIds[field] = nextSecretIds[field] || createSecretId();
+      values[nextSecretIds[field]!] = plain[field]!;
+    });
+    await updateSecrets(values);
+    dispatch(updateInstance({
+      ...rest,
+      ...(instance.auth ? { auth } : {}),
+      ...(Object.keys(nextSecretIds).length > 0 ? { secretIds: nextSecretIds } : {}),
+    }));
+  }
+};
+
+// Unlock with the key kept for this browser session, if any
+export const restoreVaultSession = createAsyncThunk(
+  'vault/restoreSession',
+  async () => {
+    const unlocked = await restoreSecretVaultSession();
+    return { unlocked, secretCount: getSecretIds().length };
+  }
+);
+
+export const createVault = createAsyncThunk(
+  'vault/create',
+  async (passphrase: string, { getState, dispatch }) => {
+    await createSecretVault(passphrase);
+    await moveLegacySecrets((getState() as { instances: { instances: Instance[] } }).instances.instances, dispatch);
+    return getSecretIds().length;
+  }
+);
+
+export const unlockVault = createAsyncThunk(
+  'vault/unlock',
+  async (passphrase: string, { getState, dispatch }) => {
+    await unlockSecretVault(passphrase);
+    await moveLegacySecrets((getState() as { instances: { instances: Instance[] } }).instances.instances, dispatch);
+    return getSecretIds().length;
+  }
+);
+
+// Forget the key, in memory and for the rest of the browser session
+export const lockVault = createAsyncThunk(
+  'vault/lock',
+  async () => {
+    await lockSecretVault();
+    return hasVault();
+  }
+);
+
+/**
+ * Store entered credentials of an instance, reusing its existing secret ids.
+ * Empty values keep the stored secret; `remove` drops the listed ones.
+ * Returns the instance's secret ids after the write.
+ */
+export const saveInstanceSecrets = createAsyncThunk(
+  'vault/saveInstanceSecrets',
+  async ({
+    secretIds = {},
+    values,
+    remove = [],
+  }: {
+    secretIds?: Instance['secretIds'];
+    values: Partial<Record<InstanceSecretField, string>>;
+    remove?: InstanceSecretField[];
+  }) => {
+    const nextSecretIds = { ...secretIds };
+    const stored: Record<string, string> = {};
+    (Object.keys(values) as InstanceSecretField[]).forEach(field => {
+      if (!values[field]) return;
+      nextSecretIds[field] = nextSecretIds[field] || createSecretId();
+      stored[nextSecretIds[field]!] = values[field]!;
+    });
+    const removeIds = remove.map(field => nextSecretIds[field]).filter(Boolean) as string[];
+    remove.forEach(field => delete nextSecretIds[field]);
+
+    if (Object.keys(stored).length > 0 || removeIds.length > 0) {
+      await updateSecrets(stored, removeIds);
+    }
+    return { secretIds: nextSecretIds, secretCount: getSecretIds().length };
+  }
+);
+
+export const deleteInstanceSecrets = createAsyncThunk(
+  'vault/deleteInstanceSecrets',
+  async (secretIds: Instance['secretIds']) => {
+    await updateSecrets({}, Object.values(secretIds || {}));
+    return getSecretIds().length;
+  }
+);
+
+const vaultSlice = createSlice({
+  name: 'vault',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      .addCase(restoreVaultSession.fulfilled, (state, action) => {
+        if (action.payload.unlocked) {
+          state.status = 'unlocked';
+          state.secretCount = action.payload.secretCount;
+        }
+      })
+      .addCase(lockVault.fulfilled, (state, action) => {
+        state.status = action.payload ? 'locked' : 'none';
+        state.secretCount = 0;
+      })
+      .addCase(saveInstanceSecrets.fulfilled, (state, action) => {
+        state.secretCount = action.payload.secretCount;
+      })
+      .addCase(deleteInstanceSecrets.fulfilled, (state, action) => {
+        state.secretCount = action.payload;
+      })
+      .addMatcher(isAnyOf(createVault.pending, unlockVault.pending), (state) => {
+        state.unlocking = true;
+        state.error = null;
+      })
+      .addMatcher(isAnyOf(createVault.fulfilled, unlockVault.fulfilled), (state, action) => {
+        state.unlocking = false;
+        state.status = 'unlocked';
+        state.secretCount = action.payload;
+      })
+      .addMatcher(isAnyOf(createVault.rejected, unlockVault.rejected), (state, action) => {
+        state.unlocking = false;
+        state.error = action.error.message || 'Failed to unlock vault';
+      });
+  },
+});
+
+export default vaultSlice.reducer;
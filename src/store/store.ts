@@ -1,13 +1,46 @@
 import { configureStore } from '@reduxjs/toolkit';
 import instancesReducer from './slices/instancesSlice';
-import comparisonReducer from './slices/comparisonSlice';
+import comparisonReducer, { persistComparisonState } from './slices/comparisonSlice';
+import snapshotsReducer from './slices/snapshotsSlice';
+import migrationsReducer from './slices/migrationsSlice';
+import auditReducer from './slices/auditSlice';
+import vaultReducer, { restoreVaultSession } from './slices/vaultSlice';
+import storageReducer, { hydrateStorage, persistStoredData, refreshStorageEstimate, storageWriteFailed } from './slices/storageSlice';
 
 export const store = configureStore({
   reducer: {
     instances: instancesReducer,
     comparison: comparisonReducer,
+    snapshots: snapshotsReducer,
+    migrations: migrationsReducer,
+    audit: auditReducer,
+    vault: vaultReducer,
+    storage: storageReducer,
   },
 });
 
+// Comparison reducers are pure; changed state is written to storage here
+let previousState = store.getState();
+store.subscribe(() => {
+  const state = store.getState();
+  if (state.comparison !== previousState.comparison) {
+    persistComparisonState(state.comparison, previousState.comparison);
+  }
+
+  // Sessions and payloads are only written once the stored copies are loaded
+  if (state.storage.hydrated && previousState.storage.hydrated) {
+    const writes = persistStoredData(state, previousState);
+    if (writes.length > 0) {
+      Promise.all(writes)
+        .then(() => store.dispatch(refreshStorageEstimate()))
+        .catch((error: Error) => store.dispatch(storageWriteFailed(error.message)));
+    }
+  }
+  previousState = state;
+});
+
+store.dispatch(hydrateStorage());
+store.dispatch(restoreVaultSession());
+
 export type RootState = ReturnType<typeof store.getState>;
-export type AppDispatch = typeof store.dispatch;
\ No newline at end of file
+export type AppDispatch = typeof store.dispatch;
@@ -0,0 +1,106 @@
+/**
+ * Accepted divergences record differences that are intentional (e.g. a
+ * Production-only endpoint). Matching results are classified as 'accepted'
+ * until the acceptance expires, after which they are reported again.
+ */
+import type { ComparisonResult } from '@/store/slices/comparisonSlice';
+import { stableStringify } from '@/utils/arrayDiff';
+
+export interface AcceptedDivergence {
+  id: string;
+  comparisonType: string;
+  resultType: ComparisonResult['type']; // Difference type that was accepted, e.g. 'edited'
+  path: string;
+  instanceIds: string[]; // Instances whose divergence is accepted
+  reason: string;
+  author: string;
+  acceptedAt: string;
+  expiresAt?: string; // ISO timestamp after which the acceptance lapses
+}
+
+export interface ResultAcceptance {
+  divergenceId: string;
+  reason: string;
+  author: string;
+  acceptedAt: string;
+  expiresAt?: string;
+  originalType: ComparisonResult['type'];
+  expired?: boolean; // Matched an acceptance that has lapsed, the result is a real difference again
+}
+
+export const isDivergenceExpired = (divergence: AcceptedDivergence, now: Date = new Date()) =>
+  !!divergence.expiresAt && new Date(divergence.expiresAt).getTime() < now.getTime();
+
+/**
+ * Instances whose value diverges, measured against the base instance when it
+ * has a value and otherwise against the most common value.
+ */
+export const getDivergingInstances = (result: ComparisonResult, baseInstanceId?: string): string[] => {
+  if (result.fieldDiffs && result.fieldDiffs.length > 0) {
+    return Array.from(new Set(result.fieldDiffs.flatMap(diff => diff.differingInstances)));
+  }
+
+  const values = result.normalizedValues || result.values;
+  const serialized: Record<string, string> = {};
+  Object.entries(values).forEach(([id, value]) => {
+    serialized[id] = stableStringify(value);
+  });
+
+  let reference: string | undefined;
+  if (baseInstanceId && serialized[baseInstanceId] !== undefined && values[baseInstanceId] !== 'MISSING') {
+    reference = serialized[baseInstanceId];
+  } else {
+    const counts = new Map<string, number>();
+    Object.values(serialized).forEach(text => counts.set(text, (counts.get(text) || 0) + 1));
+    counts.forEach((count, text) => {
+      if (reference === undefined || count > counts.get(reference)!) reference = text;
+    });
+  }
+
+  return Object.keys(serialized).filter(id => serialized[id] !== reference);
+};
+
+export const toResultAcceptance = (
+  divergence: AcceptedDivergence,
+  originalType: ComparisonResult['type'],
+  expired = false
+): ResultAcceptance => ({
+  divergenceId: divergence.id,
+  reason: divergence.reason,
+  author: divergence.author,
+  acceptedAt: divergence.acceptedAt,
+  ...(divergence.expiresAt ? { expiresAt: divergence.expiresAt } : {}),
+  originalType,
+  ...(expired ? { expired } : {}),
+});
+
+/**
+ * Classify results covered by an acceptance as 'accepted'. A result matches
+ * when type and path are equal and every diverging instance was accepted.
+ */
+export const applyAcceptedDivergences = (
+  results: ComparisonResult[],
+  divergences: AcceptedDivergence[],
+  comparisonType: string,
+  baseInstanceId?: string,
+  now: Date = new Date()
+): ComparisonResult[] => {
+  const candidates = divergences.filter(d => d.comparisonType === comparisonType);
+  if (candidates.length === 0) return results;
+
+  return results.map(result => {
+    const matching = candidates.filter(d => d.path === result.path && d.resultType === result.type);
+    if (matching.length === 0) return result;
+
+    const diverging = getDivergingInstances(result, baseInstanceId);
+    const covering = matching.filter(d => diverging.every(id => d.instanceIds.includes(id)));
+    if (covering.length === 0) return result;
+
+    const active = covering.find(d => !isDivergenceExpired(d, now));
+    if (active) {
+      return { ...result, type: 'accepted', acceptance: toResultAcceptance(active, result.type) };
+    }
+    // Surface lapsed acceptances so the difference is reviewed again
+    return { ...result, acceptance: toResultAcceptance(covering[0], result.type, true) };
+  });
+};
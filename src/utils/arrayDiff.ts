@@ -0,0 +1,322 @@
+/**
+ * Array-aware structural diff used for generic and custom object comparisons.
+ * Objects are descended key by key; arrays are descended element by element
+ * using a matching strategy so reordered elements are not reported as edits.
+ */
+import type { ComparisonResult } from '@/store/slices/comparisonSlice';
+import type { FieldNormalizer } from '@/utils/normalization';
+
+export type ArrayMatchStrategy = 'index' | 'key' | 'lcs';
+
+export interface ArrayMatchingConfig {
+  defaultStrategy: ArrayMatchStrategy;
+  keyFields: Record<string, string>; // Array path pattern (e.g. "servers" or "groups[].members") -> key field
+}
+
+export const DEFAULT_ARRAY_MATCHING: ArrayMatchingConfig = {
+  defaultStrategy: 'index',
+  keyFields: {},
+};
+
+interface DiffContext {
+  instanceIds: string[];
+  baseInstanceId?: string;
+  matching: ArrayMatchingConfig;
+  subject: (path: string) => string;
+  normalize?: FieldNormalizer; // Applied to leaf values, keyed by array path pattern
+  results: ComparisonResult[];
+}
+
+interface MatchedElement {
+  index: number;
+  value: unknown;
+}
+
+const MISSING = 'MISSING';
+
+// Above this many LCS cells, moves are detected by position only
+const MAX_LCS_CELLS = 4_000_000;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Serialize with sorted keys so equal content matches regardless of key order
+export const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (isPlainObject(value)) {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'undefined';
+};
+
+// FNV-1a hash, short enough to be readable inside a path
+const hashContent = (content: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const joinPath = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+const resolveStrategy = (schemaPath: string, matching: ArrayMatchingConfig): { strategy: ArrayMatchStrategy; keyField?: string } => {
+  const keyField = matching.keyFields[schemaPath];
+  if (keyField) return { strategy: 'key', keyField };
+  // A key strategy needs a key field, fall back to positions
+  return { strategy: matching.defaultStrategy === 'key' ? 'index' : matching.defaultStrategy };
+};
+
+// Give every element an identity that is stable across instances for the chosen strategy
+const identifyElements = (array: unknown[], strategy: ArrayMatchStrategy, keyField?: string): Map<string, MatchedElement> => {
+  const elements = new Map<string, MatchedElement>();
+  const occurrences = new Map<string, number>();
+
+  array.forEach((value, index) => {
+    let identity: string;
+    if (strategy === 'key' && keyField && isPlainObject(value) && value[keyField] !== undefined) {
+      identity = `${keyField}=${String(value[keyField])}`;
+    } else if (strategy === 'lcs') {
+      // Short primitives identify themselves, everything else by content hash
+      const content = stableStringify(value);
+      identity = !isPlainObject(value) && !Array.isArray(value) && content.length <= 40
+        ? `=${content}`
+        : `#${hashContent(content)}`;
+    } else {
+      identity = String(index);
+    }
+
+    // Repeated keys or content get an occurrence suffix
+    const seen = occurrences.get(identity) ?? 0;
+    occurrences.set(identity, seen + 1);
+    elements.set(seen > 0 ? `${identity}~${seen}` : identity, { index, value });
+  });
+
+  return elements;
+};
+
+// Identities that keep their relative order between two sequences
+const longestCommonSubsequence = (left: string[], right: string[]): Set<string> => {
+  if (left.length * right.length > MAX_LCS_CELLS) {
+    return new Set(left.filter((id, index) => right[index] === id));
+  }
+
+  const table: number[][] = Array.from({ length: left.length + 1 }, () => new Array(right.length + 1).fill(0));
+  for (let i = left.length - 1; i >= 0; i--) {
+    for (let j = right.length - 1; j >= 0; j--) {
+      table[i][j] = left[i] === right[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const common = new Set<string>();
+  let i = 0;
+  let j = 0;
+  while (i < left.length && j < right.length) {
+    if (left[i] === right[j]) {
+      common.add(left[i]);
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return common;
+};
+
+// Classify a leaf (or a node missing in some instances) and record it when it differs
+const recordDifference = (path: string, schemaPath: string, values: Record<string, unknown>, ctx: DiffContext) => {
+  const { instanceIds, baseInstanceId } = ctx;
+  const serialized: Record<string, string> = {};
+  const normalizedValues: Record<string, unknown> = {};
+  let isNormalized = false;
+  instanceIds.forEach(id => {
+    if (values[id] === MISSING) {
+      serialized[id] = MISSING;
+      normalizedValues[id] = MISSING;
+      return;
+    }
+    const normalized = ctx.normalize ? ctx.normalize(schemaPath, values[id]) : values[id];
+    normalizedValues[id] = normalized;
+    serialized[id] = stableStringify(normalized);
+    isNormalized = isNormalized || normalized !== values[id];
+  });
+
+  const hasBaseValue = !!baseInstanceId && values[baseInstanceId] !== MISSING;
+  const hasDifference = hasBaseValue
+    ? instanceIds.some(id => id !== baseInstanceId && serialized[id] !== serialized[baseInstanceId!])
+    : new Set(Object.values(serialized)).size > 1;
+
+  if (!hasDifference) return;
+
+  const missingInstances = instanceIds.filter(id => values[id] === MISSING);
+  const presentInstances = instanceIds.filter(id => values[id] !== MISSING);
+  const subject = ctx.subject(path);
+  let type: ComparisonResult['type'] = 'edited';
+  let description = '';
+
+  if (missingInstances.length > 0 && presentInstances.length > 0) {
+    if (baseInstanceId) {
+      if (values[baseInstanceId] === MISSING) {
+        type = 'added';
+        description = `${subject} added in ${presentInstances.length} instance(s) (not present in base)`;
+      } else {
+        type = 'deleted';
+        description = `${subject} deleted in ${missingInstances.length} instance(s) (present in base)`;
+      }
+    } else if (missingInstances.length < presentInstances.length) {
+      type = 'added';
+      description = `${subject} added in ${presentInstances.length} instance(s), missing in ${missingInstances.length}`;
+    } else {
+      type = 'deleted';
+      description = `${subject} deleted in ${missingInstances.length} instance(s), present in ${presentInstances.length}`;
+    }
+  } else if (hasBaseValue) {
+    const differentInstances = instanceIds.filter(id => id !== baseInstanceId && serialized[id] !== serialized[baseInstanceId!]);
+    description = `${subject} differs from base value in ${differentInstances.length} instance(s)`;
+  } else {
+    description = `${subject} has inconsistent values across instances`;
+  }
+
+  ctx.results.push({
+    path,
+    type,
+    values,
+    affectedInstances: presentInstances,
+    description,
+    ...(isNormalized ? { normalizedValues } : {}),
+  });
+};
+
+const diffArrays = (path: string, schemaPath: string, arrays: Record<string, unknown[]>, ctx: DiffContext) => {
+  const { instanceIds, baseInstanceId } = ctx;
+  const elementSchemaPath = `${schemaPath}[]`;
+  const { strategy, keyField } = resolveStrategy(schemaPath, ctx.matching);
+
+  const elementMaps: Record<string, Map<string, MatchedElement>> = {};
+  instanceIds.forEach(id => {
+    elementMaps[id] = identifyElements(arrays[id], strategy, keyField);
+  });
+
+  // Reference order: the base instance when selected, otherwise the first instance
+  const referenceId = baseInstanceId && elementMaps[baseInstanceId] ? baseInstanceId : instanceIds[0];
+  const identities: string[] = [];
+  const seen = new Set<string>();
+  [referenceId, ...instanceIds.filter(id => id !== referenceId)].forEach(id => {
+    elementMaps[id].forEach((_, identity) => {
+      if (!seen.has(identity)) {
+        seen.add(identity);
+        identities.push(identity);
+      }
+    });
+  });
+
+  identities.forEach(identity => {
+    const elementValues: Record<string, unknown> = {};
+    instanceIds.forEach(id => {
+      const element = elementMaps[id].get(identity);
+      elementValues[id] = element ? element.value : MISSING;
+    });
+    diffNode(`${path}[${identity}]`, elementSchemaPath, elementValues, ctx);
+  });
+
+  if (strategy === 'index') return;
+
+  // Equal elements that lost their relative order are reported as moved
+  const referenceOrder = Array.from(elementMaps[referenceId].keys());
+  const movedIn = new Map<string, string[]>();
+  instanceIds.filter(id => id !== referenceId).forEach(id => {
+    const order = Array.from(elementMaps[id].keys()).filter(identity => elementMaps[referenceId].has(identity));
+    const inOrder = longestCommonSubsequence(referenceOrder.filter(identity => elementMaps[id].has(identity)), order);
+    order.forEach(identity => {
+      if (!inOrder.has(identity)) {
+        movedIn.set(identity, [...(movedIn.get(identity) || []), id]);
+      }
+    });
+  });
+
+  movedIn.forEach((movedInstances, identity) => {
+    const present = instanceIds.filter(id => elementMaps[id].has(identity));
+    const contents = new Set(present.map(id => stableStringify(elementMaps[id].get(identity)!.value)));
+    // Elements whose content also changed are already reported as edits
+    if (present.length !== instanceIds.length || contents.size > 1) return;
+
+    const values: Record<string, unknown> = {};
+    instanceIds.forEach(id => {
+      values[id] = elementMaps[id].get(identity)!.value;
+    });
+    const referenceIndex = elementMaps[referenceId].get(identity)!.index;
+    const positions = movedInstances.map(id => elementMaps[id].get(identity)!.index).join(', ');
+    const elementPath = `${path}[${identity}]`;
+
+    ctx.results.push({
+      path: elementPath,
+      type: 'moved',
+      values,
+      affectedInstances: present,
+      description: `${ctx.subject(elementPath)} moved from position ${referenceIndex} to ${positions} in ${movedInstances.length} instance(s)`,
+    });
+  });
+};
+
+const diffNode = (path: string, schemaPath: string, values: Record<string, unknown>, ctx: DiffContext) => {
+  const presentValues = ctx.instanceIds.map(id => values[id]).filter(value => value !== MISSING);
+
+  // Only descend when every instance has the same kind of container
+  if (presentValues.length === ctx.instanceIds.length) {
+    if (presentValues.every(isPlainObject)) {
+      const keys = new Set<string>();
+      presentValues.forEach(value => Object.keys(value as Record<string, unknown>).forEach(key => keys.add(key)));
+      keys.forEach(key => {
+        const childValues: Record<string, unknown> = {};
+        ctx.instanceIds.forEach(id => {
+          const child = (values[id] as Record<string, unknown>)[key];
+          childValues[id] = child === undefined ? MISSING : child;
+        });
+        diffNode(joinPath(path, key), joinPath(schemaPath, key), childValues, ctx);
+      });
+      return;
+    }
+
+    if (presentValues.every(Array.isArray)) {
+      diffArrays(path, schemaPath, values as Record<string, unknown[]>, ctx);
+      return;
+    }
+  }
+
+  recordDifference(path, schemaPath, values, ctx);
+};
+
+/**
+ * Diff the value at `path` across instances. Values that are missing in an
+ * instance must be passed as 'MISSING'. Root calls pass an empty path.
+ */
+export const diffStructures = (
+  values: Record<string, unknown>,
+  instanceIds: string[],
+  options: {
+    path?: string;
+    baseInstanceId?: string;
+    matching?: ArrayMatchingConfig;
+    subject: (path: string) => string;
+    normalize?: FieldNormalizer;
+  }
+): ComparisonResult[] => {
+  const ctx: DiffContext = {
+    instanceIds,
+    baseInstanceId: options.baseInstanceId,
+    matching: options.matching || DEFAULT_ARRAY_MATCHING,
+    subject: options.subject,
+    normalize: options.normalize,
+    results: [],
+  };
+  const path = options.path || '';
+  // Array patterns are written without element identities
+  const schemaPath = path.replace(/\[[^\]]*\]/g, '[]');
+  diffNode(path, schemaPath, values, ctx);
+  return ctx.results;
+};
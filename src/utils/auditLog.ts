@@ -0,0 +1,88 @@
+/**
+ * Helpers for the save audit log: hashing posted payloads, searching entries
+ * and exporting them.
+ */
+import type { AuditEntry } from '@/store/slices/auditSlice';
+
+const toHex = (buffer: ArrayBuffer) =>
+  [...new Uint8Array(buffer)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+// 32-bit FNV-1a, for pages served without WebCrypto (plain http)
+const fnv1a = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Hash of a posted request body, prefixed with the algorithm used. SHA-256
+ * when WebCrypto is available, FNV-1a otherwise.
+ */
+export const hashPayload = async (body: string): Promise<string> => {
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(body));
+    return `sha256:${toHex(digest)}`;
+  }
+  return `fnv1a:${fnv1a(body)}`;
+};
+
+// Entries matching every whitespace-separated term in any searchable field
+export const searchAuditEntries = (entries: AuditEntry[], query: string): AuditEntry[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return entries;
+
+  return entries.filter(entry => {
+    const haystack = [
+      entry.operator,
+      entry.kind,
+      entry.sourceName,
+      entry.targetName,
+      entry.comparisonType,
+      entry.endpoint,
+      entry.payloadHash,
+      entry.responseStatus?.toString(),
+      entry.error,
+      ...entry.itemIds,
+    ].filter(Boolean).join(' ').toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+};
+
+const CSV_COLUMNS: Array<{ header: string; value: (entry: AuditEntry) => unknown }> = [
+  { header: 'Timestamp', value: entry => entry.timestamp },
+  { header: 'Operator', value: entry => entry.operator },
+  { header: 'Kind', value: entry => entry.kind },
+  { header: 'Source', value: entry => entry.sourceName },
+  { header: 'Target', value: entry => entry.targetName },
+  { header: 'Comparison Type', value: entry => entry.comparisonType },
+  { header: 'Endpoint', value: entry => entry.endpoint },
+  { header: 'Items', value: entry => entry.itemIds.join('; ') },
+  { header: 'Payload Hash', value: entry => entry.payloadHash },
+  { header: 'Payload Bytes', value: entry => entry.payloadSize },
+  { header: 'Response Status', value: entry => entry.responseStatus },
+  { header: 'Succeeded', value: entry => entry.succeeded },
+  { header: 'Error', value: entry => entry.error },
+];
+
+const escapeCsv = (value: unknown) => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const auditEntriesToCsv = (entries: AuditEntry[]) =>
+  [
+    CSV_COLUMNS.map(column => column.header).join(','),
+    ...entries.map(entry => CSV_COLUMNS.map(column => escapeCsv(column.value(entry))).join(',')),
+  ].join('\n');
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
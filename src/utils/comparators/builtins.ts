@@ -0,0 +1,185 @@
+/**
+ * Comparators for the built-in comparison types and for user-defined
+ * custom types.
+ */
+import type {
+  CodeTableItem,
+  CodeTableRecord,
+  CustomComparisonType,
+  FeatureToggle,
+  SettingItem,
+} from '@/store/slices/comparisonSlice';
+import { getValueAtPath } from './engine';
+import type { ItemComparator, StructureComparator } from './types';
+
+// Fields of a feature toggle that can be compared between environments
+export const FEATURE_TOGGLE_COMPARABLE_FIELDS = [
+  'CurrentValue',
+  'IsOnByDefault',
+  'ToggleType',
+  'ModuleName',
+  'ToggleTags',
+  'DBValue',
+  'ToggleDescription',
+  'ToggleWorkItemId',
+  'AddedDate',
+] as const;
+
+// Record columns compared between instances (Key is the record identity)
+export const CODE_TABLE_RECORD_FIELDS = ['Code', 'Description', 'Expired'] as const;
+
+// Scope fields that, together with Entity, identify a single setting override
+export const SETTING_SCOPE_FIELDS = ['Role', 'Profile', 'OverriddenFor'] as const;
+
+// Composite identity for a setting: the same Entity may be overridden per Role/Profile/OverriddenFor
+export const getSettingScopeKey = (setting: Pick<SettingItem, 'Entity' | 'Role' | 'Profile' | 'OverriddenFor'>): string => {
+  const scope = SETTING_SCOPE_FIELDS.map(field => `${field}=${setting[field] ?? ''}`).join(';');
+  return `${setting.Entity}[${scope}]`;
+};
+
+// Human readable label for the scope part of a setting identity
+export const formatSettingScope = (scope: Record<string, unknown> | undefined): string => {
+  if (!scope) return '';
+  return SETTING_SCOPE_FIELDS
+    .filter(field => scope[field] !== undefined && scope[field] !== null && scope[field] !== '')
+    .map(field => `${field} ${scope[field]}`)
+    .join(', ');
+};
+
+const getSettingScope = (setting: SettingItem): Record<string, unknown> => ({
+  Role: setting.Role,
+  Profile: setting.Profile,
+  OverriddenFor: setting.OverriddenFor,
+});
+
+const asArray = <T>(data: unknown): T[] => (Array.isArray(data) ? (data as T[]) : []);
+
+export const featureToggleComparator: ItemComparator<FeatureToggle> = {
+  kind: 'items',
+  items: data => asArray<FeatureToggle>(data),
+  identify: feature => feature.FeatureName,
+  fields: ctx => (ctx.fieldSelections.featureToggle?.length ? ctx.fieldSelections.featureToggle : ['CurrentValue']),
+  fieldDiffs: true,
+  // Flipped flags are told apart from metadata drift
+  decorate: (_, result) => result.type === 'edited'
+    ? { category: result.fieldDiffs?.some(d => d.field === 'CurrentValue') ? 'value' : 'metadata' }
+    : {},
+  describe: {
+    subject: name => `Feature "${name}"`,
+    deleted: ({ subject, hasBase, baseItem, presentCount, missingCount }) => hasBase
+      ? `${subject} deleted in ${missingCount} instance(s) (present in base with value ${baseItem?.CurrentValue})`
+      : `${subject} deleted in ${missingCount} instance(s), present in ${presentCount}`,
+    edited: ({ subject, baseItem, differingCount, fieldDiffs }) => {
+      const changedFields = fieldDiffs.map(d => d.field).join(', ');
+      if (fieldDiffs.some(d => d.field === 'CurrentValue')) {
+        return baseItem
+          ? `${subject} flipped from base value ${baseItem.CurrentValue} in ${differingCount} instance(s) (${changedFields})`
+          : `${subject} has inconsistent values across instances (${changedFields})`;
+      }
+      return baseItem
+        ? `${subject} metadata differs from base in ${differingCount} instance(s) (${changedFields})`
+        : `${subject} has inconsistent metadata across instances (${changedFields})`;
+    },
+  },
+};
+
+export const settingsComparator: ItemComparator<SettingItem> = {
+  kind: 'items',
+  items: data => asArray<SettingItem>(data),
+  identify: getSettingScopeKey,
+  fields: () => ['Data'],
+  value: record => record.Data,
+  // Scoped overrides are listed under their entity
+  group: setting => setting.Entity,
+  decorate: setting => ({ scope: getSettingScope(setting) }),
+  describe: {
+    subject: (_, setting) => {
+      const scopeLabel = formatSettingScope(getSettingScope(setting));
+      return scopeLabel ? `Setting "${setting.Entity}" (${scopeLabel})` : `Setting "${setting.Entity}"`;
+    },
+    deleted: ({ subject, hasBase, baseItem, presentCount, missingCount }) => hasBase
+      ? `${subject} deleted in ${missingCount} instance(s) (present in base with value "${baseItem?.Data}")`
+      : `${subject} deleted in ${missingCount} instance(s), present in ${presentCount}`,
+    edited: ({ subject, baseItem, differingCount }) => baseItem
+      ? `${subject} differs from base value "${baseItem.Data}" in ${differingCount} instance(s)`
+      : `${subject} has inconsistent values across instances`,
+  },
+};
+
+const codeTableRecordComparator: ItemComparator<CodeTableRecord> = {
+  kind: 'items',
+  // Defensively skip malformed rows
+  items: table => asArray<CodeTableRecord>((table as CodeTableItem).CtData)
+    .filter(record => record && typeof record === 'object' && 'Key' in record && 'Code' in record),
+  identify: record => String(record.Key),
+  fields: () => [...CODE_TABLE_RECORD_FIELDS],
+  fieldDiffs: true,
+  value: (record, item) => ({ Key: item.Key, ...record }),
+  describe: {
+    subject: (key, _, tableName) => `Code table "${tableName}" record with Key ${key}`,
+  },
+};
+
+export const codeTableComparator: ItemComparator<CodeTableItem> = {
+  kind: 'items',
+  items: data => asArray<CodeTableItem>(data).filter(table => table && typeof table === 'object' && 'Name' in table),
+  identify: table => table.Name,
+  // Tables themselves are only compared for presence, their records below
+  fields: () => [],
+  value: () => 'PRESENT',
+  describe: {
+    subject: name => `Code table "${name}"`,
+  },
+  children: [codeTableRecordComparator],
+};
+
+// Arbitrary JSON: descends into objects and arrays
+export const genericComparator: StructureComparator = {
+  kind: 'structure',
+  // Instances without data are compared as empty documents so every path is reported missing
+  roots: (instanceData, ctx) => {
+    const values: Record<string, unknown> = {};
+    ctx.instanceIds.forEach(instanceId => {
+      values[instanceId] = instanceData[instanceId] ?? {};
+    });
+    return [{ values }];
+  },
+  subject: path => `Setting at "${path}"`,
+};
+
+/**
+ * Custom types with an identifier field compare items like feature toggles;
+ * types with comparison fields compare only those fields structurally.
+ */
+export const createCustomTypeComparator = (customType: CustomComparisonType): ItemComparator<Record<string, unknown>> | StructureComparator => {
+  if (customType.identifierField) {
+    return {
+      kind: 'items',
+      items: data => asArray<Record<string, unknown>>(data),
+      identify: item => String(item[customType.identifierField!]),
+      fields: () => customType.comparisonFields,
+      fieldDiffs: true,
+      describe: {
+        subject: itemId => `${customType.label} item "${itemId}"`,
+      },
+    };
+  }
+
+  if (customType.comparisonFields.length > 0) {
+    return {
+      kind: 'structure',
+      roots: (instanceData, ctx) => customType.comparisonFields.map(fieldPath => {
+        const values: Record<string, unknown> = {};
+        ctx.instanceIds.forEach(instanceId => {
+          const data = instanceData[instanceId];
+          const value = data ? getValueAtPath(data, fieldPath) : undefined;
+          values[instanceId] = value !== undefined ? value : 'MISSING';
+        });
+        return { path: fieldPath, values };
+      }),
+      subject: path => `${customType.label} field "${path}"`,
+    };
+  }
+
+  return genericComparator;
+};
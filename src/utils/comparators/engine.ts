@@ -0,0 +1,234 @@
+/**
+ * Core comparison engine shared by every comparator: presence and difference
+ * classification against the base instance, or consensus when no base is set.
+ */
+import type { ComparisonResult, FieldDiff } from '@/store/slices/comparisonSlice';
+import { diffStructures, stableStringify } from '@/utils/arrayDiff';
+import type { Comparator, ComparisonContext, DescriptionInfo, DescriptionTemplates, ItemComparator } from './types';
+
+const MISSING = 'MISSING';
+
+interface ItemVersion<T> {
+  item: T;
+  record: Record<string, unknown>; // Compared fields as fetched
+  normalized: Record<string, unknown>; // Compared fields after normalization
+  comparable: string;
+}
+
+export const getValueAtPath = (obj: unknown, path: string): unknown => {
+  return path.split('.').reduce((current: unknown, key: string) => {
+    return current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined;
+  }, obj);
+};
+
+const defaultTemplates: Required<Omit<DescriptionTemplates<unknown>, 'subject'>> = {
+  added: ({ subject, hasBase, presentCount, missingCount }) => hasBase
+    ? `${subject} added in ${presentCount} instance(s) (not present in base)`
+    : `${subject} added in ${presentCount} instance(s), missing in ${missingCount}`,
+  deleted: ({ subject, hasBase, presentCount, missingCount }) => hasBase
+    ? `${subject} deleted in ${missingCount} instance(s) (present in base)`
+    : `${subject} deleted in ${missingCount} instance(s), present in ${presentCount}`,
+  edited: ({ subject, baseItem, differingCount, fieldDiffs }) => {
+    const changedFields = fieldDiffs.length > 0 ? ` (${fieldDiffs.map(d => d.field).join(', ')})` : '';
+    return baseItem !== undefined
+      ? `${subject} differs from base in ${differingCount} instance(s)${changedFields}`
+      : `${subject} has inconsistent values across instances${changedFields}`;
+  },
+};
+
+// Per-field breakdown for an item present in several instances.
+// Without a base instance every present instance is reported once a field is inconsistent.
+const buildFieldDiffs = <T>(
+  versions: Record<string, ItemVersion<T>>,
+  presentInstances: string[],
+  fields: string[],
+  baseInstanceId?: string
+): FieldDiff[] => {
+  const fieldDiffs: FieldDiff[] = [];
+
+  fields.forEach(field => {
+    const values: Record<string, unknown> = {};
+    const comparable: Record<string, string> = {};
+    presentInstances.forEach(id => {
+      values[id] = versions[id].record[field];
+      comparable[id] = stableStringify(versions[id].normalized[field]);
+    });
+
+    let differingInstances: string[] = [];
+    if (baseInstanceId) {
+      differingInstances = presentInstances.filter(id => id !== baseInstanceId && comparable[id] !== comparable[baseInstanceId]);
+    } else if (new Set(Object.values(comparable)).size > 1) {
+      differingInstances = presentInstances;
+    }
+
+    if (differingInstances.length > 0) {
+      fieldDiffs.push({ field, values, differingInstances });
+    }
+  });
+
+  return fieldDiffs;
+};
+
+// Identities in first-seen order, with the members of a group kept together
+const orderIdentities = <T>(identities: string[], firstItems: Map<string, T>, group?: (item: T) => string): string[] => {
+  if (!group) return identities;
+  const groups = new Map<string, string[]>();
+  identities.forEach(identity => {
+    const key = group(firstItems.get(identity)!);
+    groups.set(key, [...(groups.get(key) || []), identity]);
+  });
+  return Array.from(groups.values()).flat();
+};
+
+const compareItemLists = <T>(
+  comparator: ItemComparator<T>,
+  lists: Record<string, T[] | undefined>,
+  ctx: ComparisonContext,
+  parent?: { identity: string; path: string }
+): ComparisonResult[] => {
+  const { instanceIds, baseInstanceId, normalize, reportProgress } = ctx;
+  const fields = comparator.fields(ctx);
+  const templates = { ...defaultTemplates, ...comparator.describe };
+  const results: ComparisonResult[] = [];
+
+  // Index items by identity per instance
+  const itemMaps: Record<string, Map<string, T>> = {};
+  const firstItems = new Map<string, T>();
+  const identities: string[] = [];
+  instanceIds.forEach(instanceId => {
+    const itemMap = new Map<string, T>();
+    (lists[instanceId] || []).forEach(item => {
+      const identity = comparator.identify(item);
+      if (!identity) return;
+      itemMap.set(identity, item);
+      if (!firstItems.has(identity)) {
+        firstItems.set(identity, item);
+        identities.push(identity);
+      }
+    });
+    itemMaps[instanceId] = itemMap;
+    // Only top-level lists count as processing an instance
+    if (!parent) reportProgress?.({ instancesProcessed: 1 });
+  });
+  reportProgress?.({ itemsFound: identities.length });
+
+  orderIdentities(identities, firstItems, comparator.group).forEach(identity => {
+    const versions: Record<string, ItemVersion<T>> = {};
+    let isNormalized = false;
+
+    instanceIds.forEach(instanceId => {
+      const item = itemMaps[instanceId].get(identity);
+      if (item === undefined) return;
+      const record: Record<string, unknown> = {};
+      const normalized: Record<string, unknown> = {};
+      fields.forEach(field => {
+        record[field] = getValueAtPath(item, field);
+        normalized[field] = normalize(field, record[field]);
+        isNormalized = isNormalized || normalized[field] !== record[field];
+      });
+      versions[instanceId] = { item, record, normalized, comparable: stableStringify(normalized) };
+    });
+
+    const presentInstances = instanceIds.filter(id => versions[id]);
+    const missingInstances = instanceIds.filter(id => !versions[id]);
+    const base = baseInstanceId ? versions[baseInstanceId] : undefined;
+
+    // Measured against the base when it has the item, otherwise against each other
+    const differingInstances = base
+      ? presentInstances.filter(id => id !== baseInstanceId && versions[id].comparable !== base.comparable)
+      : new Set(presentInstances.map(id => versions[id].comparable)).size > 1 ? presentInstances : [];
+
+    const path = parent ? `${parent.path}.${identity}` : identity;
+
+    if (missingInstances.length > 0 || differingInstances.length > 0) {
+      let type: 'added' | 'deleted' | 'edited' = 'edited';
+      if (missingInstances.length > 0) {
+        if (baseInstanceId) {
+          type = base ? 'deleted' : 'added';
+        } else {
+          type = missingInstances.length < presentInstances.length ? 'added' : 'deleted';
+        }
+      }
+
+      const fieldDiffs = comparator.fieldDiffs
+        ? buildFieldDiffs(versions, presentInstances, fields, base ? baseInstanceId : undefined)
+        : [];
+      const referenceItem = (base || versions[presentInstances[0]]).item;
+
+      const info: DescriptionInfo<T> = {
+        subject: templates.subject(identity, referenceItem, parent?.identity),
+        hasBase: !!baseInstanceId,
+        baseItem: base?.item,
+        presentCount: presentInstances.length,
+        missingCount: missingInstances.length,
+        differingCount: differingInstances.length,
+        fieldDiffs,
+      };
+
+      const values: Record<string, unknown> = {};
+      const normalizedValues: Record<string, unknown> = {};
+      instanceIds.forEach(id => {
+        const version = versions[id];
+        values[id] = !version ? MISSING : comparator.value ? comparator.value(version.record, version.item) : version.record;
+        normalizedValues[id] = !version ? MISSING : comparator.value ? comparator.value(version.normalized, version.item) : version.normalized;
+      });
+
+      const result: ComparisonResult = {
+        path,
+        type,
+        values,
+        affectedInstances: presentInstances,
+        description: templates[type](info),
+        ...(comparator.group ? { group: comparator.group(referenceItem) } : {}),
+        ...(fieldDiffs.length > 0 ? { fieldDiffs } : {}),
+        ...(isNormalized ? { normalizedValues } : {}),
+      };
+      results.push({ ...result, ...comparator.decorate?.(referenceItem, result) });
+    }
+
+    reportProgress?.({ itemsCompared: 1 });
+
+    // Nested lists are compared within the item, a missing parent counts as empty
+    comparator.children?.forEach(child => {
+      const childLists: Record<string, unknown[]> = {};
+      instanceIds.forEach(id => {
+        childLists[id] = versions[id] ? child.items(versions[id].item) : [];
+      });
+      results.push(...compareItemLists(child, childLists, ctx, { identity, path }));
+    });
+  });
+
+  return results;
+};
+
+/**
+ * Run a comparator over the fetched data of the given instances. Instances
+ * without data are treated as having no items.
+ */
+export const runComparator = (
+  comparator: Comparator,
+  instanceData: Record<string, unknown>,
+  ctx: ComparisonContext
+): ComparisonResult[] => {
+  if (comparator.kind === 'structure') {
+    const roots = comparator.roots(instanceData, ctx);
+    ctx.reportProgress?.({ instancesProcessed: ctx.instanceIds.length, itemsFound: roots.length });
+    return roots.flatMap(root => {
+      const results = diffStructures(root.values, ctx.instanceIds, {
+        path: root.path,
+        baseInstanceId: ctx.baseInstanceId,
+        matching: ctx.arrayMatching,
+        subject: comparator.subject,
+        normalize: ctx.normalize,
+      });
+      ctx.reportProgress?.({ itemsCompared: 1 });
+      return results;
+    });
+  }
+
+  const lists: Record<string, unknown[] | undefined> = {};
+  ctx.instanceIds.forEach(id => {
+    lists[id] = instanceData[id] !== undefined ? comparator.items(instanceData[id]) : undefined;
+  });
+  return compareItemLists(comparator, lists, ctx);
+};
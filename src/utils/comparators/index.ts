@@ -0,0 +1,15 @@
+// Loaded first so its comparators are registered before any other
+import './registrations';
+
+export { registerComparator, resolveComparator, isComparatorAvailableInWorker } from './registry';
+export { runComparator, getValueAtPath } from './engine';
+export { runComparisonJob, summarizeResults } from './pipeline';
+export {
+  CODE_TABLE_RECORD_FIELDS,
+  FEATURE_TOGGLE_COMPARABLE_FIELDS,
+  SETTING_SCOPE_FIELDS,
+  getSettingScopeKey,
+  formatSettingScope,
+} from './builtins';
+export type { ComparisonJob, ComparisonOutcome, ComparisonProgress } from './pipeline';
+export type { Comparator, ComparisonContext, ItemComparator, StructureComparator, DescriptionTemplates } from './types';
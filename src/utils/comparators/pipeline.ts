@@ -0,0 +1,97 @@
+/**
+ * The full comparison run: comparator, ignore rules, accepted divergences and
+ * summary. Kept free of store and browser storage access so it can run inside
+ * the comparison worker.
+ */
+import type { ComparisonResult, ComparisonSession, CustomComparisonType } from '@/store/slices/comparisonSlice';
+import type { ArrayMatchingConfig } from '@/utils/arrayDiff';
+import { applyIgnoreRules, getRulesForType, IgnoreRule, SuppressionCount } from '@/utils/ignoreRules';
+import { createFieldNormalizer, NormalizationRule } from '@/utils/normalization';
+import { applyAcceptedDivergences, AcceptedDivergence } from '@/utils/acceptedDivergences';
+import { runComparator } from './engine';
+import { resolveComparator } from './registry';
+
+export interface ComparisonJob {
+  comparisonType: string;
+  customTypes: CustomComparisonType[];
+  instanceIds: string[];
+  baseInstanceId?: string;
+  instanceData: Record<string, unknown>;
+  arrayMatching: ArrayMatchingConfig;
+  fieldSelections: Record<string, string[]>;
+  normalizationRules: NormalizationRule[];
+  ignoreRules: IgnoreRule[];
+  acceptedDivergences: AcceptedDivergence[];
+}
+
+export interface ComparisonProgress {
+  phase: 'indexing' | 'comparing' | 'finishing';
+  instancesProcessed: number;
+  totalInstances: number;
+  itemsCompared: number;
+  totalItems: number; // Grows while nested items are discovered
+}
+
+export interface ComparisonOutcome {
+  results: ComparisonResult[];
+  summary: ComparisonSession['summary'];
+  suppressed: SuppressionCount[];
+}
+
+// Progress is reported at most this often
+const PROGRESS_INTERVAL_MS = 100;
+
+export const summarizeResults = (results: ComparisonResult[]): ComparisonSession['summary'] => ({
+  totalDifferences: results.filter(r => r.type !== 'accepted').length,
+  added: results.filter(r => r.type === 'added').length,
+  deleted: results.filter(r => r.type === 'deleted').length,
+  edited: results.filter(r => r.type === 'edited').length,
+  moved: results.filter(r => r.type === 'moved').length,
+  accepted: results.filter(r => r.type === 'accepted').length,
+});
+
+export const runComparisonJob = (job: ComparisonJob, onProgress?: (progress: ComparisonProgress) => void): ComparisonOutcome => {
+  const progress: ComparisonProgress = {
+    phase: 'indexing',
+    instancesProcessed: 0,
+    totalInstances: job.instanceIds.length,
+    itemsCompared: 0,
+    totalItems: 0,
+  };
+  let lastReport = 0;
+  const report = (force = false) => {
+    const now = Date.now();
+    if (onProgress && (force || now - lastReport >= PROGRESS_INTERVAL_MS)) {
+      lastReport = now;
+      onProgress({ ...progress });
+    }
+  };
+
+  // The comparator registered for the type describes how its data is compared
+  const comparator = resolveComparator(job.comparisonType, job.customTypes);
+  const rawResults = runComparator(comparator, job.instanceData, {
+    instanceIds: job.instanceIds,
+    baseInstanceId: job.baseInstanceId,
+    normalize: createFieldNormalizer(job.normalizationRules, job.comparisonType),
+    arrayMatching: job.arrayMatching,
+    fieldSelections: job.fieldSelections,
+    reportProgress: update => {
+      progress.instancesProcessed += update.instancesProcessed || 0;
+      progress.totalItems += update.itemsFound || 0;
+      progress.itemsCompared += update.itemsCompared || 0;
+      if (update.itemsCompared) progress.phase = 'comparing';
+      report();
+    },
+  });
+
+  progress.phase = 'finishing';
+  report(true);
+
+  // Drop differences that are expected to vary per environment
+  const { results: keptResults, suppressed } = applyIgnoreRules(rawResults, getRulesForType(job.ignoreRules, job.comparisonType));
+
+  // Classify intentional differences as accepted
+  const results = applyAcceptedDivergences(keptResults, job.acceptedDivergences, job.comparisonType, job.baseInstanceId);
+
+  return { results, summary: summarizeResults(results), suppressed };
+};
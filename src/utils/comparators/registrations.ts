@@ -0,0 +1,17 @@
+/**
+ * Comparators of the built-in comparison types. This module is loaded on the
+ * main thread and in the comparison worker, so a comparator registered here
+ * is used wherever a comparison runs; register new comparison types here too.
+ * Custom types need no registration: their comparator is built from the
+ * definition sent with each comparison job. Comparators registered anywhere
+ * else exist on the main thread only, and comparisons of their type are run
+ * there instead of in the worker.
+ */
+import { codeTableComparator, featureToggleComparator, settingsComparator } from './builtins';
+import { finishSharedRegistrations, registerComparator } from './registry';
+
+registerComparator('featureToggle', featureToggleComparator);
+registerComparator('settings', settingsComparator);
+registerComparator('codeTable', codeTableComparator);
+
+finishSharedRegistrations();
@@ -0,0 +1,39 @@
+/**
+ * Comparator registry. Each comparison type registers a comparator describing
+ * its data, and a comparison run resolves the comparator for the selected
+ * type. Types without a registered comparator fall back to their custom type
+ * definition, then to a generic structural diff.
+ *
+ * The registry is per thread and starts empty: registrations.ts registers the
+ * comparators both the main thread and the comparison worker know.
+ */
+import type { CustomComparisonType } from '@/store/slices/comparisonSlice';
+import { createCustomTypeComparator, genericComparator } from './builtins';
+import type { Comparator } from './types';
+
+const comparators = new Map<string, Comparator>();
+// Types registered after registrations.ts ran; the worker cannot resolve them
+const mainThreadComparators = new Set<string>();
+let sharedRegistrationsDone = false;
+
+export const registerComparator = (comparisonType: string, comparator: Comparator) => {
+  comparators.set(comparisonType, comparator);
+  if (sharedRegistrationsDone) mainThreadComparators.add(comparisonType);
+  else mainThreadComparators.delete(comparisonType);
+};
+
+// Called by registrations.ts once its comparators are registered
+export const finishSharedRegistrations = () => {
+  sharedRegistrationsDone = true;
+};
+
+// Whether the comparison worker resolves the same comparator for the type as this thread
+export const isComparatorAvailableInWorker = (comparisonType: string) => !mainThreadComparators.has(comparisonType);
+
+export const resolveComparator = (comparisonType: string, customTypes: CustomComparisonType[]): Comparator => {
+  const registered = comparators.get(comparisonType);
+  if (registered) return registered;
+
+  const customType = customTypes.find(t => t.id === comparisonType);
+  return customType ? createCustomTypeComparator(customType) : genericComparator;
+};
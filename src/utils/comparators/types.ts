@@ -0,0 +1,66 @@
+import type { ComparisonResult, FieldDiff } from '@/store/slices/comparisonSlice';
+import type { ArrayMatchingConfig } from '@/utils/arrayDiff';
+import type { FieldNormalizer } from '@/utils/normalization';
+
+// Everything a comparator needs besides the fetched data
+export interface ComparisonContext {
+  instanceIds: string[];
+  baseInstanceId?: string;
+  normalize: FieldNormalizer;
+  arrayMatching: ArrayMatchingConfig;
+  fieldSelections: Record<string, string[]>; // User-chosen compared fields per comparison type
+  reportProgress?: (update: ProgressUpdate) => void;
+}
+
+// Increments reported by the engine while a comparison runs
+export interface ProgressUpdate {
+  instancesProcessed?: number;
+  itemsFound?: number;
+  itemsCompared?: number;
+}
+
+// What description templates know about one differing item
+export interface DescriptionInfo<T> {
+  subject: string;
+  hasBase: boolean; // A base instance is selected
+  baseItem?: T; // The item in the base instance, when the base has it
+  presentCount: number;
+  missingCount: number;
+  differingCount: number; // Present instances whose compared fields differ
+  fieldDiffs: FieldDiff[];
+}
+
+export interface DescriptionTemplates<T> {
+  subject: (identity: string, item: T, parentIdentity?: string) => string;
+  added?: (info: DescriptionInfo<T>) => string;
+  deleted?: (info: DescriptionInfo<T>) => string;
+  edited?: (info: DescriptionInfo<T>) => string;
+}
+
+/**
+ * Compares lists of identifiable items (feature toggles, settings, code
+ * tables). The shared engine matches items by identity across instances and
+ * classifies presence and field differences; the comparator only describes
+ * the shape of its data.
+ */
+export interface ItemComparator<T = unknown> {
+  kind: 'items';
+  items: (data: unknown) => T[]; // Items of an instance's data, or of a parent item for children
+  identify: (item: T) => string | undefined;
+  fields: (ctx: ComparisonContext) => string[]; // Compared fields, dotted paths allowed
+  fieldDiffs?: boolean; // Attach a per-field breakdown to results
+  value?: (record: Record<string, unknown>, item: T) => unknown; // Value shown per instance, defaults to the compared fields
+  group?: (item: T) => string; // Results of one group are kept together
+  decorate?: (item: T, result: ComparisonResult) => Partial<ComparisonResult>;
+  describe: DescriptionTemplates<T>;
+  children?: ItemComparator[]; // Nested item lists, compared within each parent item
+}
+
+// Compares arbitrary JSON structurally, one diff per root
+export interface StructureComparator {
+  kind: 'structure';
+  roots: (instanceData: Record<string, unknown>, ctx: ComparisonContext) => { path?: string; values: Record<string, unknown> }[];
+  subject: (path: string) => string;
+}
+
+export type Comparator = ItemComparator | StructureComparator;
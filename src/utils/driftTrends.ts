@@ -0,0 +1,120 @@
+/**
+ * Drift trends across comparison sessions of the same instances and
+ * comparison type: difference counts over time, paths that keep appearing
+ * and disappearing, and how long differences take to be resolved.
+ */
+import type { ComparisonResult, ComparisonSession } from '@/store/slices/comparisonSlice';
+
+export interface TrendPoint {
+  sessionId: string;
+  timestamp: string;
+  added: number;
+  deleted: number;
+  edited: number;
+  total: number;
+}
+
+export interface FlappingPath {
+  path: string;
+  transitions: number; // Times the path switched between differing and in sync
+  differingSessions: number;
+}
+
+export interface ResolutionStats {
+  resolved: number; // Differences that disappeared in a later session
+  open: number; // Differences present in the latest session
+  meanTimeToResolveMs: number | null;
+}
+
+// Results that count as an unresolved difference
+const isOpenDifference = (result: ComparisonResult) => result.type !== 'unchanged' && result.type !== 'accepted';
+
+/**
+ * Key grouping sessions comparing the same instances with the same type.
+ * Comparisons over time are grouped per instance.
+ */
+export const getTrendGroupKey = (session: ComparisonSession) =>
+  session.temporal
+    ? `${session.comparisonType || 'unknown'}|over-time:${session.temporal.instanceId}`
+    : `${session.comparisonType || 'unknown'}|${[...session.instanceIds].sort().join(',')}`;
+
+export const getTrendPoints = (sessions: ComparisonSession[]): TrendPoint[] =>
+  [...sessions]
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    .map(session => ({
+      sessionId: session.id,
+      timestamp: session.timestamp,
+      added: session.summary.added,
+      deleted: session.summary.deleted,
+      edited: session.summary.edited,
+      total: session.summary.totalDifferences,
+    }));
+
+// Which paths differ in each session, oldest session first
+const getDifferingPaths = (sessions: ComparisonSession[]) =>
+  [...sessions]
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    .map(session => ({
+      timestamp: session.timestamp,
+      paths: new Set(session.results.filter(isOpenDifference).map(result => result.path)),
+    }));
+
+/**
+ * Paths ordered by how often they switched between differing and in sync.
+ * Only sessions with loaded results should be passed in.
+ */
+export const getFlappingPaths = (sessions: ComparisonSession[], limit = 10): FlappingPath[] => {
+  const history = getDifferingPaths(sessions);
+  const allPaths = new Set(history.flatMap(entry => [...entry.paths]));
+
+  return [...allPaths]
+    .map(path => {
+      let transitions = 0;
+      history.forEach((entry, index) => {
+        if (index > 0 && entry.paths.has(path) !== history[index - 1].paths.has(path)) transitions++;
+      });
+      return {
+        path,
+        transitions,
+        differingSessions: history.filter(entry => entry.paths.has(path)).length,
+      };
+    })
+    .filter(flapping => flapping.transitions >= 2)
+    .sort((a, b) => b.transitions - a.transitions || a.path.localeCompare(b.path))
+    .slice(0, limit);
+};
+
+/**
+ * A difference is resolved in the first session where its path no longer
+ * differs; time-to-resolve runs from the session where it first appeared.
+ */
+export const getResolutionStats = (sessions: ComparisonSession[]): ResolutionStats => {
+  const history = getDifferingPaths(sessions);
+  const openSince = new Map<string, string>();
+  const durations: number[] = [];
+
+  history.forEach(entry => {
+    openSince.forEach((since, path) => {
+      if (!entry.paths.has(path)) {
+        durations.push(new Date(entry.timestamp).getTime() - new Date(since).getTime());
+        openSince.delete(path);
+      }
+    });
+    entry.paths.forEach(path => {
+      if (!openSince.has(path)) openSince.set(path, entry.timestamp);
+    });
+  });
+
+  return {
+    resolved: durations.length,
+    open: openSince.size,
+    meanTimeToResolveMs: durations.length > 0 ? durations.reduce((sum, d) => sum + d, 0) / durations.length : null,
+  };
+};
+
+export const formatDuration = (ms: number) => {
+  const hours = ms / (1000 * 60 * 60);
+  if (hours < 1) return `${Math.max(1, Math.round(ms / (1000 * 60)))} min`;
+  if (hours < 48) return `${hours.toFixed(1)} h`;
+  return `${(hours / 24).toFixed(1)} days`;
+};
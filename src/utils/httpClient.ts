@@ -0,0 +1,176 @@
+/**
+ * Requests to instances: a timeout per attempt, retries with exponential
+ * backoff and full jitter for idempotent requests, cancellation through an
+ * AbortSignal, and errors that say what failed without leaking credentials.
+ */
+import type { Instance } from '@/store/slices/instancesSlice';
+import { authorizedFetch } from '@/utils/instanceAuth';
+
+export const DEFAULT_TIMEOUT_MS = 30000;
+const MAX_RETRIES = 2; // Attempts after the first
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 8000;
+const BODY_EXCERPT_LENGTH = 300;
+
+export type RequestFailureKind = 'http' | 'network' | 'timeout' | 'cancelled' | 'parse';
+
+export class InstanceRequestError extends Error {
+  readonly kind: RequestFailureKind;
+  readonly status: number | null;
+  readonly bodyExcerpt?: string;
+  readonly durationMs: number;
+  readonly url: string; // Credentials redacted
+  readonly attempts: number;
+
+  constructor(
+    action: string,
+    details: { kind: RequestFailureKind; status: number | null; statusText?: string; bodyExcerpt?: string; durationMs: number; url: string; attempts: number }
+  ) {
+    const reason = {
+      http: `HTTP ${details.status}${details.statusText ? ` ${details.statusText}` : ''}`,
+      network: 'Network error',
+      timeout: 'Timed out',
+      cancelled: 'Cancelled',
+      parse: 'Response is not valid JSON',
+    }[details.kind];
+    const attempts = details.attempts > 1 ? ` after ${details.attempts} attempts` : '';
+    super(`Failed to ${action}: ${reason}${attempts} (${details.durationMs} ms, ${details.url})${details.bodyExcerpt ? ` - ${details.bodyExcerpt}` : ''}`);
+    this.name = 'InstanceRequestError';
+    this.kind = details.kind;
+    this.status = details.status;
+    this.bodyExcerpt = details.bodyExcerpt;
+    this.durationMs = details.durationMs;
+    this.url = details.url;
+    this.attempts = details.attempts;
+  }
+}
+
+export interface InstanceResponse {
+  data: unknown;
+  status: number;
+  durationMs: number; // All attempts, including backoff
+  bytes: number;
+  attempts: number;
+}
+
+const SECRET_PARAM_PATTERN = /auth|key|token|secret|password/i;
+
+// The URL with credential-like query parameters and user info masked
+export const redactUrl = (url: string) => {
+  try {
+    const parsed = new URL(url);
+    parsed.username = '';
+    parsed.password = '';
+    parsed.searchParams.forEach((_, name) => {
+      if (SECRET_PARAM_PATTERN.test(name)) parsed.searchParams.set(name, '***');
+    });
+    return parsed.toString();
+  } catch (error) {
+    // Not an absolute URL; mask query values by pattern instead
+    return url.replace(/([?&][^=&]*(?:auth|key|token|secret|password)[^=&]*=)[^&]*/gi, '$1***');
+  }
+};
+
+// Gateways and overloaded servers are worth another try, client errors are not
+const isRetryableStatus = (status: number) => status === 408 || status === 429 || status >= 500;
+
+const getBackoffDelay = (attempt: number, retryAfter: string | null) => {
+  const retryAfterSeconds = retryAfter ? Number(retryAfter) : NaN;
+  if (!Number.isNaN(retryAfterSeconds)) return Math.min(retryAfterSeconds * 1000, BACKOFF_MAX_MS);
+  return Math.random() * Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * POST a JSON body to an endpoint of the instance and parse the JSON
+ * response. `idempotent` requests are retried on network errors, timeouts
+ * and retryable statuses; others are sent exactly once.
+ */
+export const requestInstance = async (
+  instance: Instance,
+  endpoint: string,
+  { action, body, idempotent = false, signal }: { action: string; body: string; idempotent?: boolean; signal?: AbortSignal }
+): Promise<InstanceResponse> => {
+  const started = Date.now();
+  const timeoutMs = instance.timeoutMs || DEFAULT_TIMEOUT_MS;
+  const maxAttempts = idempotent ? MAX_RETRIES + 1 : 1;
+  const url = redactUrl(`${instance.url}${endpoint}`);
+  const fail = (kind: RequestFailureKind, attempts: number, extra: { status?: number; statusText?: string; bodyExcerpt?: string } = {}) =>
+    new InstanceRequestError(action, { kind, status: extra.status ?? null, ...extra, durationMs: Date.now() - started, url, attempts });
+
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) throw fail('cancelled', attempt - 1);
+
+    // One controller per attempt, aborted by the timeout or the caller
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    let failure: InstanceRequestError;
+    let retryAfter: string | null = null;
+    try {
+      const response = await authorizedFetch(instance, endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+        signal: controller.signal,
+      });
+      const text = await response.text();
+
+      if (response.ok) {
+        try {
+          return {
+            data: JSON.parse(text),
+            status: response.status,
+            durationMs: Date.now() - started,
+            bytes: new TextEncoder().encode(text).length,
+            attempts: attempt,
+          };
+        } catch (error) {
+          throw fail('parse', attempt, { status: response.status, bodyExcerpt: text.slice(0, BODY_EXCERPT_LENGTH) });
+        }
+      }
+
+      failure = fail('http', attempt, {
+        status: response.status,
+        statusText: response.statusText,
+        bodyExcerpt: text.slice(0, BODY_EXCERPT_LENGTH) || undefined,
+      });
+      if (!isRetryableStatus(response.status)) throw failure;
+      retryAfter = response.headers.get('Retry-After');
+    } catch (error) {
+      if (error instanceof InstanceRequestError) throw error;
+      if (signal?.aborted) throw fail('cancelled', attempt);
+      // Errors before a request is sent, e.g. a locked vault, are not retried
+      if (!(error instanceof TypeError) && !timedOut) throw error;
+      failure = fail(timedOut ? 'timeout' : 'network', attempt);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+
+    if (attempt >= maxAttempts) throw failure;
+    try {
+      await sleep(getBackoffDelay(attempt - 1, retryAfter), signal);
+    } catch (error) {
+      throw fail('cancelled', attempt);
+    }
+  }
+};
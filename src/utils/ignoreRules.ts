@@ -0,0 +1,139 @@
+/**
+ * Ignore rules suppress differences that are expected to vary per environment
+ * (hostnames, audit fields, timestamps) before a comparison session is stored.
+ */
+import type { ComparisonResult } from '@/store/slices/comparisonSlice';
+
+export type IgnoreRuleKind = 'path' | 'glob' | 'regex' | 'value';
+
+export interface IgnoreRule {
+  id: string;
+  name: string;
+  comparisonType: string; // Comparison type id, or '*' for every type
+  kind: IgnoreRuleKind;
+  pattern: string;
+  enabled: boolean;
+}
+
+export interface SuppressionCount {
+  ruleId: string;
+  ruleName: string;
+  results: number; // Whole results removed
+  fields: number; // Field-level differences removed from results that were kept
+}
+
+export const IGNORE_RULE_KINDS: { value: IgnoreRuleKind; label: string; hint: string }[] = [
+  { value: 'path', label: 'Exact path', hint: 'e.g. database.host or MyFeature.AddedDate' },
+  { value: 'glob', label: 'Wildcard path', hint: '* matches one segment, ** any depth, e.g. **.UpdatedBy' },
+  { value: 'regex', label: 'Identifier regex', hint: 'Tested against the result identifier, e.g. ^Cache\\.' },
+  { value: 'value', label: 'Value regex', hint: 'Suppress when every value matches, e.g. \\.example\\.com$' },
+];
+
+const escapeRegex = (text: string) => text.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+
+// Translate a wildcard path into an anchored regular expression
+export const globToRegExp = (glob: string): RegExp => {
+  const source = glob
+    .split('**')
+    .map(part => escapeRegex(part).replace(/\*/g, '[^.]*').replace(/\?/g, '[^.]'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+};
+
+const compileRule = (rule: IgnoreRule): ((text: string) => boolean) | null => {
+  try {
+    switch (rule.kind) {
+      case 'path':
+        return text => text === rule.pattern;
+      case 'glob': {
+        const regex = globToRegExp(rule.pattern);
+        return text => regex.test(text);
+      }
+      case 'regex':
+      case 'value': {
+        const regex = new RegExp(rule.pattern);
+        return text => regex.test(text);
+      }
+    }
+  } catch (error) {
+    // Invalid patterns never match
+  }
+  return null;
+};
+
+const valueToText = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value));
+
+const allValuesMatch = (values: Record<string, unknown>, matches: (text: string) => boolean) => {
+  const present = Object.values(values).filter(value => value !== 'MISSING');
+  return present.length > 0 && present.every(value => matches(valueToText(value)));
+};
+
+export const getRulesForType = (rules: IgnoreRule[], comparisonType: string) =>
+  rules.filter(rule => rule.enabled && (rule.comparisonType === '*' || rule.comparisonType === comparisonType));
+
+/**
+ * Remove results (and individual field differences) matched by the given rules.
+ * Identifier rules match the result path or its group; path rules also match
+ * `<path>.<field>` for field-level differences.
+ */
+export const applyIgnoreRules = (
+  results: ComparisonResult[],
+  rules: IgnoreRule[]
+): { results: ComparisonResult[]; suppressed: SuppressionCount[] } => {
+  const compiled = rules
+    .map(rule => ({ rule, matches: compileRule(rule) }))
+    .filter((entry): entry is { rule: IgnoreRule; matches: (text: string) => boolean } => entry.matches !== null);
+  const counts = new Map<string, SuppressionCount>();
+
+  const count = (rule: IgnoreRule, key: 'results' | 'fields') => {
+    if (!counts.has(rule.id)) {
+      counts.set(rule.id, { ruleId: rule.id, ruleName: rule.name, results: 0, fields: 0 });
+    }
+    counts.get(rule.id)![key]++;
+  };
+
+  const kept: ComparisonResult[] = [];
+
+  results.forEach(result => {
+    // Whole-result rules
+    const resultRule = compiled.find(({ rule, matches }) => {
+      if (rule.kind === 'value') return allValuesMatch(result.values, matches);
+      if (rule.kind === 'regex') return matches(result.path) || (!!result.group && matches(result.group));
+      return matches(result.path);
+    });
+    if (resultRule) {
+      count(resultRule.rule, 'results');
+      return;
+    }
+
+    if (!result.fieldDiffs || result.fieldDiffs.length === 0) {
+      kept.push(result);
+      return;
+    }
+
+    // Field-level rules
+    const removedBy: IgnoreRule[] = [];
+    const fieldDiffs = result.fieldDiffs.filter(diff => {
+      const fieldRule = compiled.find(({ rule, matches }) => {
+        if (rule.kind === 'value') return allValuesMatch(diff.values, matches);
+        if (rule.kind === 'regex') return false;
+        return matches(`${result.path}.${diff.field}`);
+      });
+      if (fieldRule) {
+        removedBy.push(fieldRule.rule);
+        return false;
+      }
+      return true;
+    });
+
+    // An edit whose every differing field is ignored is no longer a difference
+    if (result.type === 'edited' && fieldDiffs.length === 0) {
+      count(removedBy[0], 'results');
+      return;
+    }
+    removedBy.forEach(rule => count(rule, 'fields'));
+    kept.push(removedBy.length === 0 ? result : { ...result, fieldDiffs });
+  });
+
+  return { results: kept, suppressed: Array.from(counts.values()) };
+};
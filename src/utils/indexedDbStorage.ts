@@ -0,0 +1,306 @@
+/**
+ * IndexedDB storage for fetched instance payloads, snapshots, comparison
+ * sessions, migration records and the save audit log. Summaries and bulky data (session results, snapshot payloads) live
+ * in separate object stores so lists load without reading every payload. Failures reject with a
+ * StorageError instead of being swallowed, so a full quota is reported.
+ */
+import type { ComparisonSession } from '@/store/slices/comparisonSlice';
+import type { InstanceData } from '@/store/slices/instancesSlice';
+import type { MigrationRecord } from '@/store/slices/migrationsSlice';
+import type { AuditEntry } from '@/store/slices/auditSlice';
+import type { Snapshot } from '@/store/slices/snapshotsSlice';
+
+const DB_NAME = 'json-sync-diff';
+const DB_VERSION = 4;
+
+const INSTANCE_DATA_STORE = 'instanceData';
+const SESSIONS_STORE = 'sessions'; // Sessions without results
+const SESSION_RESULTS_STORE = 'sessionResults';
+const SNAPSHOTS_STORE = 'snapshots'; // Snapshots without their payload
+const SNAPSHOT_DATA_STORE = 'snapshotData';
+const META_STORE = 'meta';
+const MIGRATIONS_STORE = 'migrations'; // Migration and rollback records with their backups
+const AUDIT_LOG_STORE = 'auditLog'; // One entry per save endpoint call
+
+// Keys previously used for payloads in localStorage, migrated once
+const LEGACY_SESSIONS_KEY = 'json-sync-diff-comparison-sessions';
+const LEGACY_INSTANCE_DATA_KEY = 'json-sync-diff-instance-data';
+const MIGRATION_META_KEY = 'localStorageMigration';
+const VAULT_KEY_META_KEY = 'vaultKey';
+
+export class StorageError extends Error {
+  readonly isQuotaError: boolean;
+
+  constructor(message: string, isQuotaError = false) {
+    super(message);
+    this.name = 'StorageError';
+    this.isQuotaError = isQuotaError;
+  }
+}
+
+export interface StorageEstimate {
+  usage: number; // Bytes used by this origin
+  quota: number; // Bytes available to this origin
+}
+
+export interface MigrationReport {
+  sessions: number;
+  instances: number;
+}
+
+interface StoredSessionResults {
+  id: string;
+  results: ComparisonSession['results'];
+  suppressed?: ComparisonSession['suppressed'];
+}
+
+const toStorageError = (error: unknown, action: string): StorageError => {
+  if (error instanceof StorageError) return error;
+  const name = error instanceof DOMException ? error.name : '';
+  if (name === 'QuotaExceededError') {
+    return new StorageError(`Browser storage is full, could not ${action}`, true);
+  }
+  const reason = error instanceof Error ? error.message : 'unknown error';
+  return new StorageError(`Could not ${action}: ${reason}`);
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new StorageError('IndexedDB is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(INSTANCE_DATA_STORE)) db.createObjectStore(INSTANCE_DATA_STORE, { keyPath: 'instanceId' });
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(SESSION_RESULTS_STORE)) db.createObjectStore(SESSION_RESULTS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: 'key' });
+        // Added in version 2
+        if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(SNAPSHOT_DATA_STORE)) db.createObjectStore(SNAPSHOT_DATA_STORE, { keyPath: 'id' });
+        // Added in version 3
+        if (!db.objectStoreNames.contains(MIGRATIONS_STORE)) db.createObjectStore(MIGRATIONS_STORE, { keyPath: 'id' });
+        // Added in version 4
+        if (!db.objectStoreNames.contains(AUDIT_LOG_STORE)) db.createObjectStore(AUDIT_LOG_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry when opening failed
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Quota errors surface as a transaction abort, so wait for completion
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const write = async (storeNames: string[], action: string, work: (transaction: IDBTransaction) => void) => {
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeNames, 'readwrite');
+    work(transaction);
+    await transactionDone(transaction);
+  } catch (error) {
+    throw toStorageError(error, action);
+  }
+};
+
+const read = async <T>(storeName: string, action: string, work: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  try {
+    const db = await openDatabase();
+    return await requestResult(work(db.transaction(storeName, 'readonly').objectStore(storeName)));
+  } catch (error) {
+    throw toStorageError(error, action);
+  }
+};
+
+const splitSession = (session: ComparisonSession): { summary: ComparisonSession; details: StoredSessionResults } => {
+  const { results, suppressed, resultsLoaded: _resultsLoaded, ...summary } = session;
+  return {
+    summary: { ...summary, results: [] },
+    details: { id: session.id, results, ...(suppressed ? { suppressed } : {}) },
+  };
+};
+
+export const loadAllInstanceData = async (): Promise<Record<string, InstanceData>> => {
+  const records = await read(INSTANCE_DATA_STORE, 'load fetched data', store => store.getAll() as IDBRequest<InstanceData[]>);
+  const instanceData: Record<string, InstanceData> = {};
+  records.forEach(record => {
+    instanceData[record.instanceId] = record;
+  });
+  return instanceData;
+};
+
+export const saveInstanceData = (instanceData: InstanceData) =>
+  write([INSTANCE_DATA_STORE], `save fetched data for instance ${instanceData.instanceId}`, transaction => {
+    transaction.objectStore(INSTANCE_DATA_STORE).put(instanceData);
+  });
+
+export const deleteInstanceData = (instanceId: string) =>
+  write([INSTANCE_DATA_STORE], 'delete fetched data', transaction => {
+    transaction.objectStore(INSTANCE_DATA_STORE).delete(instanceId);
+  });
+
+/**
+ * Sessions without their results, oldest first. Results are loaded on demand
+ * with loadSessionResults.
+ */
+export const loadSessionSummaries = async (): Promise<ComparisonSession[]> => {
+  const sessions = await read(SESSIONS_STORE, 'load comparison sessions', store => store.getAll() as IDBRequest<ComparisonSession[]>);
+  return sessions
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    .map(session => ({ ...session, results: [], resultsLoaded: false }));
+};
+
+export const loadSessionResults = async (sessionId: string): Promise<Pick<ComparisonSession, 'results' | 'suppressed'>> => {
+  const stored = await read(SESSION_RESULTS_STORE, 'load session results', store => store.get(sessionId) as IDBRequest<StoredSessionResults | undefined>);
+  return { results: stored?.results || [], ...(stored?.suppressed ? { suppressed: stored.suppressed } : {}) };
+};
+
+export const saveSession = (session: ComparisonSession) =>
+  write([SESSIONS_STORE, SESSION_RESULTS_STORE], `save session "${session.name}"`, transaction => {
+    const { summary, details } = splitSession(session);
+    transaction.objectStore(SESSIONS_STORE).put(summary);
+    transaction.objectStore(SESSION_RESULTS_STORE).put(details);
+  });
+
+export const deleteStoredSession = (sessionId: string) =>
+  write([SESSIONS_STORE, SESSION_RESULTS_STORE], 'delete session', transaction => {
+    transaction.objectStore(SESSIONS_STORE).delete(sessionId);
+    transaction.objectStore(SESSION_RESULTS_STORE).delete(sessionId);
+  });
+
+/**
+ * Snapshots are immutable: they are written once, when fetched, and can only
+ * be deleted afterwards.
+ */
+export const saveSnapshot = (snapshot: Snapshot, data: unknown) =>
+  write([SNAPSHOTS_STORE, SNAPSHOT_DATA_STORE], `save snapshot of instance ${snapshot.instanceId}`, transaction => {
+    transaction.objectStore(SNAPSHOTS_STORE).add(snapshot);
+    transaction.objectStore(SNAPSHOT_DATA_STORE).add({ id: snapshot.id, data });
+  });
+
+// All snapshots without payloads, oldest first
+export const loadSnapshots = async (): Promise<Snapshot[]> => {
+  const snapshots = await read(SNAPSHOTS_STORE, 'load snapshots', store => store.getAll() as IDBRequest<Snapshot[]>);
+  return snapshots.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+};
+
+export const loadSnapshotData = async (snapshotId: string): Promise<unknown> => {
+  const stored = await read(SNAPSHOT_DATA_STORE, 'load snapshot data', store => store.get(snapshotId) as IDBRequest<{ id: string; data: unknown } | undefined>);
+  if (!stored) throw new StorageError(`Snapshot ${snapshotId} is no longer stored`);
+  return stored.data;
+};
+
+export const deleteSnapshot = (snapshotId: string) =>
+  write([SNAPSHOTS_STORE, SNAPSHOT_DATA_STORE], 'delete snapshot', transaction => {
+    transaction.objectStore(SNAPSHOTS_STORE).delete(snapshotId);
+    transaction.objectStore(SNAPSHOT_DATA_STORE).delete(snapshotId);
+  });
+
+// Migration records, oldest first
+export const loadMigrationRecords = async (): Promise<MigrationRecord[]> => {
+  const records = await read(MIGRATIONS_STORE, 'load migration history', store => store.getAll() as IDBRequest<MigrationRecord[]>);
+  return records.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+};
+
+export const saveMigrationRecord = (record: MigrationRecord) =>
+  write([MIGRATIONS_STORE], 'save migration record', transaction => {
+    transaction.objectStore(MIGRATIONS_STORE).put(record);
+  });
+
+// Audit entries, oldest first
+export const loadAuditLog = async (): Promise<AuditEntry[]> => {
+  const entries = await read(AUDIT_LOG_STORE, 'load audit log', store => store.getAll() as IDBRequest<AuditEntry[]>);
+  return entries.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+};
+
+// Audit entries are append-only
+export const saveAuditEntry = (entry: AuditEntry) =>
+  write([AUDIT_LOG_STORE], 'save audit entry', transaction => {
+    transaction.objectStore(AUDIT_LOG_STORE).add(entry);
+  });
+
+// The vault's key is non-extractable: IndexedDB keeps the CryptoKey without exposing its bytes
+export const saveVaultKey = (key: CryptoKey) =>
+  write([META_STORE], 'remember vault key', transaction => {
+    transaction.objectStore(META_STORE).put({ key: VAULT_KEY_META_KEY, cryptoKey: key });
+  });
+
+export const loadVaultKey = async (): Promise<CryptoKey | null> => {
+  const stored = await read(META_STORE, 'load vault key', store => store.get(VAULT_KEY_META_KEY) as IDBRequest<{ cryptoKey: CryptoKey } | undefined>);
+  return stored?.cryptoKey || null;
+};
+
+export const deleteVaultKey = () =>
+  write([META_STORE], 'forget vault key', transaction => {
+    transaction.objectStore(META_STORE).delete(VAULT_KEY_META_KEY);
+  });
+
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+  } catch (error) {
+    // Estimates are informational only
+    return null;
+  }
+};
+
+const readLegacyKey = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch (error) {
+    // Unreadable legacy data is dropped
+    return fallback;
+  }
+};
+
+/**
+ * Move sessions and fetched payloads out of localStorage, once. Returns what
+ * was migrated, or null when the migration already ran.
+ */
+export const migrateFromLocalStorage = async (): Promise<MigrationReport | null> => {
+  const done = await read(META_STORE, 'check storage migration', store => store.get(MIGRATION_META_KEY));
+  if (done) return null;
+
+  const sessions = readLegacyKey<ComparisonSession[]>(LEGACY_SESSIONS_KEY, []);
+  const instanceData = readLegacyKey<Record<string, InstanceData>>(LEGACY_INSTANCE_DATA_KEY, {});
+  const report: MigrationReport = { sessions: sessions.length, instances: Object.keys(instanceData).length };
+
+  await write([SESSIONS_STORE, SESSION_RESULTS_STORE, INSTANCE_DATA_STORE, META_STORE], 'migrate data from localStorage', transaction => {
+    sessions.forEach(session => {
+      const { summary, details } = splitSession(session);
+      transaction.objectStore(SESSIONS_STORE).put(summary);
+      transaction.objectStore(SESSION_RESULTS_STORE).put(details);
+    });
+    Object.values(instanceData).forEach(record => transaction.objectStore(INSTANCE_DATA_STORE).put(record));
+    transaction.objectStore(META_STORE).put({ key: MIGRATION_META_KEY, migratedAt: new Date().toISOString(), ...report });
+  });
+
+  // Only drop the old copies once they are safely stored
+  localStorage.removeItem(LEGACY_SESSIONS_KEY);
+  localStorage.removeItem(LEGACY_INSTANCE_DATA_KEY);
+  return report;
+};
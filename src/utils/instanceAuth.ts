@@ -0,0 +1,192 @@
+/**
+ * Authentication of requests to an instance: the key as a query parameter or
+ * header, a bearer token, basic auth or an OAuth2 client-credentials token,
+ * which is cached until shortly before it expires. Credentials are read from
+ * the secret vault, which must be unlocked.
+ */
+import type { Instance, InstanceAuth, InstanceAuthMode, InstanceSecretField } from '@/store/slices/instancesSlice';
+import { getSecret, isVaultUnlocked, VaultLockedError } from '@/utils/secretVault';
+import { DEFAULT_TIMEOUT_MS } from '@/utils/httpClient';
+
+export const AUTH_MODE_LABELS: Record<InstanceAuthMode, string> = {
+  queryKey: 'Query key (authkey)',
+  headerKey: 'API key header',
+  bearer: 'Bearer token',
+  basic: 'Basic auth',
+  oauth2: 'OAuth2 client credentials',
+};
+
+export const DEFAULT_API_KEY_HEADER = 'X-API-Key';
+
+// Tokens are refreshed this long before they expire
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+// Used when the token response has no expires_in
+const DEFAULT_TOKEN_LIFETIME_S = 300;
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+// Only lives as long as the page
+const tokenCache = new Map<string, CachedToken>();
+// Requests fetching in parallel share one token request
+const pendingTokens = new Map<string, Promise<CachedToken>>();
+
+// Editing the client credentials of an instance starts a new cache entry
+const getTokenCacheKey = (instance: Instance, auth: InstanceAuth) =>
+  [instance.id, auth.tokenUrl, auth.clientId, auth.scope, instance.secretIds?.clientSecret].join('|');
+
+// The credential each mode reads from the vault
+export const AUTH_MODE_SECRET_FIELDS: Record<InstanceAuthMode, InstanceSecretField[]> = {
+  queryKey: ['authKey'],
+  headerKey: ['authKey'],
+  bearer: ['authKey'],
+  basic: ['password'],
+  oauth2: ['clientSecret'],
+};
+
+export const getInstanceAuth = (instance: Instance): InstanceAuth => instance.auth || { mode: 'queryKey' };
+
+// The token endpoint must be an absolute http(s) URL
+export const isValidTokenUrl = (tokenUrl: string | undefined) => {
+  try {
+    return !!tokenUrl && ['http:', 'https:'].includes(new URL(tokenUrl).protocol);
+  } catch (error) {
+    return false;
+  }
+};
+
+// Whether requests to the instance carry any credentials
+export const hasInstanceAuth = (instance: Instance) => {
+  const auth = getInstanceAuth(instance);
+  if (auth.mode === 'basic') return !!auth.username;
+  if (auth.mode === 'oauth2') return !!auth.tokenUrl && !!auth.clientId;
+  return !!instance.secretIds?.authKey || !!instance.authKey;
+};
+
+// A credential of the instance; empty when none is stored
+const readSecret = (instance: Instance, field: InstanceSecretField) => {
+  const secretId = instance.secretIds?.[field];
+  if (!secretId) return field === 'authKey' ? instance.authKey || '' : '';
+  if (!isVaultUnlocked()) {
+    throw new VaultLockedError(`Unlock the secret vault to use the credentials of ${instance.name}`);
+  }
+  return getSecret(secretId) || '';
+};
+
+export const clearCachedToken = (instance: Instance) => {
+  tokenCache.delete(getTokenCacheKey(instance, getInstanceAuth(instance)));
+};
+
+const toBase64 = (text: string) => btoa(String.fromCharCode(...new TextEncoder().encode(text)));
+
+// Bounded by the instance's timeout; shared by every request waiting for the token
+const requestToken = async (instance: Instance, auth: InstanceAuth): Promise<CachedToken> => {
+  if (!isValidTokenUrl(auth.tokenUrl)) {
+    throw new Error(`Failed to get access token for ${instance.name}: the token URL is not a valid http(s) URL`);
+  }
+  const params = new URLSearchParams({ grant_type: 'client_credentials', client_id: auth.clientId || '' });
+  const clientSecret = readSecret(instance, 'clientSecret');
+  if (clientSecret) params.set('client_secret', clientSecret);
+  if (auth.scope) params.set('scope', auth.scope);
+
+  const timeoutMs = instance.timeoutMs || DEFAULT_TIMEOUT_MS;
+  let response: Response;
+  try {
+    response = await fetch(auth.tokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: params.toString(),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'TimeoutError') {
+      throw new Error(`Failed to get access token for ${instance.name}: timed out after ${timeoutMs} ms`);
+    }
+    throw error;
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to get access token for ${instance.name}: ${response.statusText}`);
+  }
+  const token = await response.json();
+  if (!token?.access_token) {
+    throw new Error(`Token response for ${instance.name} has no access_token`);
+  }
+  return {
+    accessToken: token.access_token,
+    expiresAt: Date.now() + (Number(token.expires_in) || DEFAULT_TOKEN_LIFETIME_S) * 1000,
+  };
+};
+
+// Settles like the promise, or rejects as soon as the signal aborts
+const unlessAborted = <T>(promise: Promise<T>, signal?: AbortSignal | null) => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+// A cancelled request stops waiting for the token without cancelling it for the others
+const getAccessToken = async (instance: Instance, auth: InstanceAuth, signal?: AbortSignal | null) => {
+  const cacheKey = getTokenCacheKey(instance, auth);
+  const cached = tokenCache.get(cacheKey);
+  if (cached && cached.expiresAt - TOKEN_EXPIRY_MARGIN_MS > Date.now()) {
+    return cached.accessToken;
+  }
+  if (!pendingTokens.has(cacheKey)) {
+    pendingTokens.set(cacheKey, requestToken(instance, auth).finally(() => pendingTokens.delete(cacheKey)));
+  }
+  const token = await unlessAborted(pendingTokens.get(cacheKey)!, signal);
+  tokenCache.set(cacheKey, token);
+  return token.accessToken;
+};
+
+// URL and headers of a request to the instance with its credentials applied
+export const authorizeRequest = async (
+  instance: Instance,
+  endpoint: string,
+  signal?: AbortSignal | null
+): Promise<{ url: string; headers: Record<string, string> }> => {
+  const auth = getInstanceAuth(instance);
+  const url = `${instance.url}${endpoint}`;
+
+  switch (auth.mode) {
+    case 'headerKey': {
+      const key = readSecret(instance, 'authKey');
+      return { url, headers: key ? { [auth.headerName || DEFAULT_API_KEY_HEADER]: key } : {} };
+    }
+    case 'bearer': {
+      const token = readSecret(instance, 'authKey');
+      return { url, headers: token ? { Authorization: `Bearer ${token}` } : {} };
+    }
+    case 'basic':
+      return { url, headers: { Authorization: `Basic ${toBase64(`${auth.username || ''}:${readSecret(instance, 'password')}`)}` } };
+    case 'oauth2':
+      return { url, headers: { Authorization: `Bearer ${await getAccessToken(instance, auth, signal)}` } };
+    default:
+      return { url: `${url}?authkey=${readSecret(instance, 'authKey')}`, headers: {} };
+  }
+};
+
+/**
+ * fetch() to an endpoint of the instance with its credentials. An OAuth2
+ * token the server rejects is dropped and the request retried once with a
+ * fresh one.
+ */
+export const authorizedFetch = async (instance: Instance, endpoint: string, init: RequestInit): Promise<Response> => {
+  const send = async () => {
+    const { url, headers } = await authorizeRequest(instance, endpoint, init.signal);
+    return fetch(url, { ...init, headers: { ...(init.headers as Record<string, string>), ...headers } });
+  };
+
+  const response = await send();
+  if (response.status === 401 && getInstanceAuth(instance).mode === 'oauth2') {
+    clearCachedToken(instance);
+    return send();
+  }
+  return response;
+};
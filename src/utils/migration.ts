@@ -0,0 +1,768 @@
+/**
+ * Migration payloads: building the save-endpoint request body from selected
+ * comparison results, and simulating its effect on the target's data so a
+ * migration can be previewed before anything is posted.
+ */
+import {
+  getSettingScopeKey,
+  ComparisonResult,
+  CustomComparisonType,
+  SettingItem,
+} from '@/store/slices/comparisonSlice';
+import { DEFAULT_ARRAY_MATCHING, stableStringify } from '@/utils/arrayDiff';
+import { createFieldNormalizer } from '@/utils/normalization';
+import { resolveComparator, runComparator, getValueAtPath, FEATURE_TOGGLE_COMPARABLE_FIELDS } from '@/utils/comparators';
+
+// How the payload items are applied by the save endpoint
+export type MigrationPayloadKind = 'settings' | 'codeTable' | 'items' | 'object';
+
+export interface MigrationPlan {
+  kind: MigrationPayloadKind;
+  comparisonType: string;
+  body: { Data: unknown }; // The exact request body posted to the save endpoint
+  itemCount: number;
+  itemLabel: string; // e.g. "settings", "code table item(s)"
+  identifierField?: string; // Identifies items of kind 'items'
+  codeTableStrategy?: CodeTableMergeStrategy; // Code tables only
+}
+
+/**
+ * How a code table migration treats the target's records. Every strategy
+ * upserts the source records; they differ in what happens to records only
+ * the target has and to keys the target uses for a different code.
+ */
+export type CodeTableMergeStrategy = 'upsert' | 'mirror' | 'expire' | 'remap';
+
+export const CODE_TABLE_STRATEGIES: Record<CodeTableMergeStrategy, { label: string; description: string }> = {
+  upsert: { label: 'Upsert only', description: 'Add and update source records, leave target-only records as they are' },
+  mirror: { label: 'Mirror', description: 'Also delete records that only exist on the target' },
+  expire: { label: 'Expire instead of delete', description: 'Mark records that only exist on the target as expired' },
+  remap: { label: 'Remap colliding keys', description: 'Give source records a new key where the target uses theirs for a different code' },
+};
+
+export interface MigrationPlanError {
+  title: string;
+  description: string;
+}
+
+export interface MigrationSelection {
+  comparisonType: string;
+  customTypes: CustomComparisonType[];
+  sourceInstanceId: string;
+  sourceData: unknown;
+  selectedPaths: string[];
+  results: ComparisonResult[];
+  codeTableStrategy?: CodeTableMergeStrategy; // Defaults to 'upsert'
+  fieldSelections?: Record<string, string[]>; // Cherry-picked fields per selected item path
+  targetData?: unknown; // The target's fetched data, which cherry-picked fields are merged into
+}
+
+interface CodeTableRecordLike { Key: number; Code: string; Description: string; Expired: boolean }
+interface CodeTableLike {
+  Name: string;
+  CtData?: CodeTableRecordLike[];
+  ctdata?: CodeTableRecordLike[];
+  // Posted with migrated tables so the save endpoint applies the same strategy
+  MergeStrategy?: CodeTableMergeStrategy;
+  DeleteKeys?: number[]; // Mirror: target-only records to delete
+  KeyRemap?: Record<string, number>; // Remap: source key -> key posted instead
+}
+
+const FEATURE_TOGGLE_RESPONSE_FIELDS = ['FeatureName', 'CurrentValue'];
+
+// Exact ids only: a custom type named like a built-in keeps its own definition
+const isSettingsType = (comparisonType: string) => comparisonType === 'settings';
+
+const isCodeTableType = (comparisonType: string) => comparisonType === 'codeTable';
+
+// Identifiers are compared as strings, as the comparator identifies items
+const getItemId = (item: Record<string, unknown>, identifierField: string) => String(item[identifierField]);
+
+// Copy the given (possibly dotted) fields of an object
+export const filterObjectFields = (obj: Record<string, unknown>, responseFields: string[]): Record<string, unknown> => {
+  const filtered: Record<string, unknown> = {};
+
+  responseFields.forEach(field => {
+    if (field.includes('.')) {
+      // Handle nested fields like "user.name"
+      const parts = field.split('.');
+      let source = obj;
+      let target = filtered;
+
+      for (let i = 0; i < parts.length - 1; i++) {
+        const part = parts[i];
+        if (source && typeof source === 'object' && part in source) {
+          source = source[part] as Record<string, unknown>;
+          if (!(part in target)) {
+            target[part] = {};
+          }
+          target = target[part] as Record<string, unknown>;
+        } else {
+          return; // Skip this field if path doesn't exist
+        }
+      }
+
+      const finalPart = parts[parts.length - 1];
+      if (source && typeof source === 'object' && finalPart in source) {
+        target[finalPart] = source[finalPart];
+      }
+    } else if (field in obj) {
+      filtered[field] = obj[field];
+    }
+  });
+
+  return filtered;
+};
+
+const getCodeTableRecords = (table: CodeTableLike): CodeTableRecordLike[] =>
+  Array.isArray(table.CtData) ? table.CtData : (Array.isArray(table.ctdata) ? table.ctdata : []);
+
+type PathToken = { key: string } | { element: string };
+
+// "config.servers[name=a].host" -> config, servers, [name=a], host
+const parsePathTokens = (path: string): PathToken[] =>
+  Array.from(path.matchAll(/([^.[\]]+)|\[([^\]]*)\]/g), match =>
+    match[1] !== undefined ? { key: match[1] } : { element: match[2] });
+
+/**
+ * Index in `array` of the element a comparison path identity refers to:
+ * a position ("0") or a key ("name=a"), either with an occurrence suffix
+ * ("~1"). Content identities of the LCS strategy cannot be resolved.
+ */
+const findElementIndex = (array: unknown[], identity: string): number | null => {
+  const [base, occurrence] = identity.split(/~(?=\d+$)/);
+  if (/^\d+$/.test(base)) return Number(base);
+  const keyMatch = /^([^=#]+)=(.*)$/.exec(base);
+  if (!keyMatch) return null;
+  const [, keyField, keyValue] = keyMatch;
+  let remaining = Number(occurrence || 0);
+  const index = array.findIndex(element =>
+    isPlainObject(element) && element[keyField] !== undefined && String(element[keyField]) === keyValue && remaining-- === 0);
+  return index;
+};
+
+/**
+ * Nested object holding the source value of every selected path. An array
+ * on a path is posted whole: the target's array with the selected elements
+ * replaced or, when the target lacks them, appended.
+ */
+const buildPathObject = (selection: MigrationSelection): { data: Record<string, unknown>; error?: MigrationPlanError } => {
+  const migrationData: Record<string, unknown> = {};
+  for (const path of selection.selectedPaths) {
+    const result = selection.results.find(r => r.path === path);
+    const sourceValue = result?.values?.[selection.sourceInstanceId];
+    if (sourceValue === undefined || sourceValue === 'MISSING') continue;
+
+    const tokens = parsePathTokens(path);
+    let current: Record<string, unknown> | unknown[] = migrationData;
+    let targetNode: unknown = selection.targetData;
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      const isLast = i === tokens.length - 1;
+
+      if ('key' in token) {
+        const container = current as Record<string, unknown>;
+        const targetValue = isPlainObject(targetNode) ? targetNode[token.key] : undefined;
+        if (isLast) {
+          container[token.key] = sourceValue;
+        } else if (typeof container[token.key] !== 'object' || container[token.key] === null) {
+          if ('element' in tokens[i + 1]) {
+            if (!Array.isArray(targetValue)) {
+              return {
+                data: migrationData,
+                error: { title: 'Target Data Required', description: `Fetch the target instance to migrate array elements of "${path}"` },
+              };
+            }
+            container[token.key] = clone(targetValue);
+          } else {
+            container[token.key] = {};
+          }
+        }
+        current = container[token.key] as Record<string, unknown> | unknown[];
+        targetNode = targetValue;
+        continue;
+      }
+
+      const array = current as unknown[];
+      const index = Array.isArray(array) ? findElementIndex(array, token.element) : null;
+      if (index === null) {
+        return {
+          data: migrationData,
+          error: { title: 'Unsupported Path', description: `"${path}" identifies array elements by content and cannot be migrated on its own; select the whole array instead` },
+        };
+      }
+      if (isLast) {
+        if (index === -1 || index >= array.length) array.push(sourceValue);
+        else array[index] = sourceValue;
+      } else {
+        if (index === -1 || index >= array.length) {
+          return {
+            data: migrationData,
+            error: { title: 'Element Not Found', description: `The target has no array element matching "${path}"` },
+          };
+        }
+        current = array[index] as Record<string, unknown> | unknown[];
+        targetNode = Array.isArray(targetNode) ? targetNode[index] : undefined;
+      }
+    }
+  }
+  return { data: migrationData };
+};
+
+const buildSettingItems = (sourceArray: Record<string, unknown>[], selectedPaths: string[]) => {
+  // For settings, the path IS the composite Entity + scope identity
+  const selectedItems: Record<string, unknown>[] = [];
+  new Set(selectedPaths).forEach(identifier => {
+    const sourceItem = sourceArray.find(item => getSettingScopeKey(item as unknown as SettingItem) === identifier);
+    if (sourceItem) {
+      selectedItems.push(sourceItem);
+    }
+  });
+  return selectedItems;
+};
+
+const buildCodeTableItems = (
+  sourceArray: Record<string, unknown>[],
+  selectedPaths: string[],
+  strategy: CodeTableMergeStrategy,
+  targetArray: Record<string, unknown>[]
+) => {
+  // Support selecting entire table (path === tableName) or individual records (tableName.recordKey)
+  type TableSelection = { all: boolean; keys: Set<number> };
+  const tableSelections = new Map<string, TableSelection>();
+  selectedPaths.forEach(path => {
+    if (path.includes('.') && /\.\d+$/.test(path)) {
+      const lastDot = path.lastIndexOf('.');
+      const tableName = path.substring(0, lastDot);
+      const keyNum = parseInt(path.substring(lastDot + 1), 10);
+      if (!Number.isNaN(keyNum)) {
+        if (!tableSelections.has(tableName)) tableSelections.set(tableName, { all: false, keys: new Set() });
+        const sel = tableSelections.get(tableName)!;
+        if (!sel.all) sel.keys.add(keyNum);
+      }
+    } else if (!tableSelections.has(path)) {
+      tableSelections.set(path, { all: true, keys: new Set() });
+    } else {
+      tableSelections.get(path)!.all = true; // upgrade
+    }
+  });
+
+  const selectedItems: Record<string, unknown>[] = [];
+  tableSelections.forEach((sel, tableName) => {
+    const found = sourceArray.find(item => item['Name'] === tableName);
+    if (!found) return;
+    const sourceRecords = getCodeTableRecords(found as unknown as CodeTableLike);
+    const records = sel.all ? sourceRecords : sourceRecords.filter(r => sel.keys.has(r.Key));
+    const targetTable = targetArray.find(item => item['Name'] === tableName);
+    const targetRecords = targetTable ? getCodeTableRecords(targetTable as unknown as CodeTableLike) : [];
+    const table: CodeTableLike = { Name: tableName, CtData: records, MergeStrategy: strategy };
+
+    if (strategy === 'remap') {
+      // Colliding records take the target's key for their code, or the next free key
+      let nextKey = Math.max(0, ...sourceRecords.map(r => r.Key), ...targetRecords.map(r => r.Key)) + 1;
+      const keyRemap: Record<string, number> = {};
+      table.CtData = records.map(record => {
+        const collision = targetRecords.find(r => r.Key === record.Key && r.Code !== record.Code);
+        if (!collision) return record;
+        const newKey = targetRecords.find(r => r.Code === record.Code)?.Key ?? nextKey++;
+        keyRemap[record.Key] = newKey;
+        return { ...record, Key: newKey };
+      });
+      if (Object.keys(keyRemap).length > 0) table.KeyRemap = keyRemap;
+    } else if (strategy === 'mirror' || strategy === 'expire') {
+      // Target-only records of a whole table, or the selected ones
+      const sourceKeys = new Set(sourceRecords.map(r => r.Key));
+      const targetOnly = targetRecords.filter(r => !sourceKeys.has(r.Key) && (sel.all || sel.keys.has(r.Key)));
+      if (strategy === 'mirror' && targetOnly.length > 0) {
+        table.DeleteKeys = targetOnly.map(r => r.Key);
+      } else if (strategy === 'expire') {
+        table.CtData = [...records, ...targetOnly.filter(r => !r.Expired).map(r => ({ ...r, Expired: true }))];
+      }
+    }
+
+    if (table.CtData.length > 0 || table.DeleteKeys) selectedItems.push(table as unknown as Record<string, unknown>);
+  });
+  return selectedItems;
+};
+
+const getFieldValue = (value: unknown, field: string) =>
+  value && typeof value === 'object' ? (value as Record<string, unknown>)[field] : undefined;
+
+/**
+ * The selected paths whose value on the target differs from the source, so a
+ * target is only sent the items that would change there. Paths with
+ * cherry-picked fields only count when one of those fields differs.
+ */
+export const getDifferingPaths = (
+  selectedPaths: string[],
+  results: ComparisonResult[],
+  sourceInstanceId: string,
+  targetInstanceId: string,
+  fieldSelections: Record<string, string[]> = {}
+): string[] =>
+  selectedPaths.filter(path => {
+    const result = results.find(r => r.path === path);
+    if (!result) return false;
+    const sourceValue = result.values[sourceInstanceId];
+    const targetValue = result.values[targetInstanceId];
+    const fields = fieldSelections[path];
+    if (fields?.length && targetValue !== 'MISSING') {
+      return fields.some(field => stableStringify(getFieldValue(sourceValue, field)) !== stableStringify(getFieldValue(targetValue, field)));
+    }
+    return stableStringify(sourceValue) !== stableStringify(targetValue);
+  });
+
+const setValueAtPath = (obj: Record<string, unknown>, path: string, value: unknown) => {
+  const parts = path.split('.');
+  let current = obj;
+  parts.slice(0, -1).forEach(part => {
+    if (!current[part] || typeof current[part] !== 'object') current[part] = {};
+    current = current[part] as Record<string, unknown>;
+  });
+  current[parts[parts.length - 1]] = value;
+};
+
+/**
+ * Of the given item ids, the one a comparison path belongs to: the path is
+ * the id itself or starts with it. Ids may contain dots, so the longest
+ * match wins.
+ */
+const findPathItemId = (itemIds: string[], path: string): string | undefined =>
+  itemIds
+    .filter(id => path === id || path.startsWith(`${id}.`))
+    .sort((a, b) => b.length - a.length)[0];
+
+/**
+ * The target's existing item with the cherry-picked fields taken from the
+ * source item, so the target keeps its values of every other field.
+ */
+export const mergeCherryPickedFields = (
+  sourceItem: Record<string, unknown>,
+  targetItem: Record<string, unknown>,
+  fields: string[]
+): Record<string, unknown> => {
+  const merged = clone(targetItem);
+  fields.forEach(field => setValueAtPath(merged, field, clone(getValueAtPath(sourceItem, field))));
+  return merged;
+};
+
+/**
+ * Build the request body for migrating the selected results from the source
+ * instance. Settings and code tables post whole items, array types with an
+ * identifier post their response fields, anything else posts the selected
+ * paths as a nested object.
+ */
+export const buildMigrationPlan = (selection: MigrationSelection): { plan?: MigrationPlan; error?: MigrationPlanError } => {
+  const { comparisonType, customTypes, sourceData, selectedPaths } = selection;
+
+  // Settings and code tables are always posted in array format
+  if (isSettingsType(comparisonType) || isCodeTableType(comparisonType)) {
+    if (!Array.isArray(sourceData)) {
+      return { error: { title: 'Invalid Settings Data', description: 'Settings data should be in array format' } };
+    }
+    const sourceArray = sourceData as Record<string, unknown>[];
+    const isCodeTable = isCodeTableType(comparisonType);
+    const codeTableStrategy = selection.codeTableStrategy || 'upsert';
+    if (isCodeTable && codeTableStrategy !== 'upsert' && !Array.isArray(selection.targetData)) {
+      return {
+        error: {
+          title: 'Target Data Required',
+          description: `Fetch the target instance to apply the "${CODE_TABLE_STRATEGIES[codeTableStrategy].label}" strategy`,
+        },
+      };
+    }
+    const selectedItems = isSettingsType(comparisonType)
+      ? buildSettingItems(sourceArray, selectedPaths)
+      : isCodeTable ? buildCodeTableItems(sourceArray, selectedPaths, codeTableStrategy, (selection.targetData || []) as Record<string, unknown>[]) : [];
+
+    if (selectedItems.length === 0) {
+      return { error: { title: 'No Data to Migrate', description: 'No matching settings found for migration' } };
+    }
+    return {
+      plan: {
+        kind: isCodeTable ? 'codeTable' : 'settings',
+        comparisonType,
+        body: { Data: selectedItems },
+        itemCount: selectedItems.length,
+        itemLabel: isCodeTable ? 'code table item(s)' : 'settings',
+        ...(isCodeTable ? { codeTableStrategy } : {}),
+      },
+    };
+  }
+
+  const customType = customTypes?.find(type => type.id === comparisonType);
+  const isArrayBasedData = Array.isArray(sourceData);
+  const hasFeatureToggleStructure = isArrayBasedData &&
+    (sourceData as unknown[]).length > 0 &&
+    typeof (sourceData as unknown[])[0] === 'object' &&
+    'FeatureName' in ((sourceData as unknown[])[0] as Record<string, unknown>);
+
+  const shouldUseResponseFieldFiltering =
+    (customType && customType.responseFields && customType.responseFields.length > 0) ||
+    comparisonType === 'featureToggle' ||
+    hasFeatureToggleStructure;
+
+  if (shouldUseResponseFieldFiltering) {
+    if (!sourceData) {
+      return { error: { title: 'No Source Data', description: 'Source instance has no data available' } };
+    }
+
+    let responseFields: string[] = [];
+    let identifierField: string | undefined;
+    if (customType && customType.responseFields && customType.responseFields.length > 0) {
+      responseFields = customType.responseFields;
+      identifierField = customType.identifierField;
+    } else {
+      responseFields = FEATURE_TOGGLE_RESPONSE_FIELDS;
+      identifierField = 'FeatureName';
+    }
+
+    if (identifierField && isArrayBasedData) {
+      // Paths are an item's identifier, optionally followed by a field, e.g. "EnableInfoProtectionTrace.CurrentValue"
+      const sourceArray = sourceData as Record<string, unknown>[];
+      const selectedItems: Record<string, unknown>[] = [];
+      const fieldSelections = selection.fieldSelections || {};
+      const hasCherryPicks = selectedPaths.some(path => fieldSelections[path]?.length);
+      if (hasCherryPicks && !Array.isArray(selection.targetData)) {
+        return { error: { title: 'Target Data Required', description: 'Fetch the target instance before cherry-picking fields into its items' } };
+      }
+      const targetArray = (selection.targetData || []) as Record<string, unknown>[];
+      const getId = (item: Record<string, unknown>) => getItemId(item, identifierField!);
+      const sourceIds = sourceArray.map(getId);
+
+      // Picked fields of every selected item, in selection order
+      const pickedFields = new Map<string, string[]>();
+      selectedPaths.forEach(path => {
+        const identifier = findPathItemId(sourceIds, path);
+        if (identifier === undefined) return;
+        pickedFields.set(identifier, [...(pickedFields.get(identifier) || []), ...(fieldSelections[path] || [])]);
+      });
+
+      for (const [identifier, fields] of pickedFields) {
+        const sourceItem = sourceArray[sourceIds.indexOf(identifier)];
+        if (fields.length > 0) {
+          const targetItem = targetArray.find(item => getId(item) === identifier);
+          if (!targetItem) {
+            return {
+              error: {
+                title: 'Item Not Found on Target',
+                description: `The target has no item "${identifier}" to cherry-pick fields into; select the whole item instead`,
+              },
+            };
+          }
+          // Cherry-pick: post the target's item with only the chosen fields replaced
+          selectedItems.push(mergeCherryPickedFields(sourceItem, targetItem, fields));
+        } else {
+          const filteredItem = filterObjectFields(sourceItem, responseFields);
+          if (Object.keys(filteredItem).length > 0) {
+            selectedItems.push(filteredItem);
+          }
+        }
+      }
+      if (selectedItems.length === 0) {
+        return { error: { title: 'No Data to Migrate', description: 'No matching data found for the selected response fields' } };
+      }
+      return {
+        plan: {
+          kind: 'items',
+          comparisonType,
+          body: { Data: selectedItems },
+          itemCount: selectedItems.length,
+          itemLabel: 'item(s)',
+          identifierField,
+        },
+      };
+    }
+
+    const pathObject = buildPathObject(selection);
+    if (pathObject.error) return { error: pathObject.error };
+    const filteredData = filterObjectFields(pathObject.data, responseFields);
+    if (Object.keys(filteredData).length === 0) {
+      return { error: { title: 'No Data to Migrate', description: 'No matching data found for the selected response fields' } };
+    }
+    return {
+      plan: { kind: 'object', comparisonType, body: { Data: filteredData }, itemCount: selectedPaths.length, itemLabel: 'field(s)' },
+    };
+  }
+
+  // Built-in and custom types without response fields post the selected paths
+  const { data: migrationData, error: pathError } = buildPathObject(selection);
+  if (pathError) return { error: pathError };
+  if (Object.keys(migrationData).length === 0) {
+    return { error: { title: 'No Data to Migrate', description: 'No valid data found in source instance for selected settings' } };
+  }
+  return {
+    plan: { kind: 'object', comparisonType, body: { Data: migrationData }, itemCount: selectedPaths.length, itemLabel: 'settings' },
+  };
+};
+
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const deepMerge = (target: Record<string, unknown>, patch: Record<string, unknown>) => {
+  Object.entries(patch).forEach(([key, value]) => {
+    if (isPlainObject(value) && isPlainObject(target[key])) {
+      deepMerge(target[key] as Record<string, unknown>, value);
+    } else {
+      target[key] = clone(value);
+    }
+  });
+  return target;
+};
+
+/**
+ * The target's data as it would look after the save endpoint applied the
+ * plan: items are matched by identity and replaced (settings), upserted per
+ * record with DeleteKeys removed (code tables) or merged field by field;
+ * objects are deep merged.
+ */
+export const simulateMigration = (plan: MigrationPlan, targetData: unknown): unknown => {
+  const data = plan.body.Data;
+
+  if (plan.kind === 'object') {
+    return deepMerge(isPlainObject(targetData) ? clone(targetData) : {}, data as Record<string, unknown>);
+  }
+
+  const targetArray = Array.isArray(targetData) ? clone(targetData) as Record<string, unknown>[] : [];
+  const items = data as Record<string, unknown>[];
+
+  if (plan.kind === 'settings') {
+    items.forEach(item => {
+      const key = getSettingScopeKey(item as unknown as SettingItem);
+      const index = targetArray.findIndex(existing => getSettingScopeKey(existing as unknown as SettingItem) === key);
+      if (index === -1) targetArray.push(clone(item));
+      else targetArray[index] = clone(item);
+    });
+  } else if (plan.kind === 'codeTable') {
+    items.forEach(item => {
+      const table = item as unknown as CodeTableLike;
+      const existing = targetArray.find(t => t['Name'] === table.Name) as unknown as CodeTableLike | undefined;
+      if (!existing) {
+        targetArray.push(clone(item));
+        return;
+      }
+      const records = getCodeTableRecords(existing);
+      getCodeTableRecords(table).forEach(record => {
+        const index = records.findIndex(r => r.Key === record.Key);
+        if (index === -1) records.push(clone(record));
+        else records[index] = clone(record);
+      });
+      (table.DeleteKeys || []).forEach(key => {
+        const index = records.findIndex(r => r.Key === key);
+        if (index !== -1) records.splice(index, 1);
+      });
+      if (!Array.isArray(existing.CtData) && !Array.isArray(existing.ctdata)) existing.CtData = records;
+    });
+  } else {
+    items.forEach(item => {
+      const identity = getItemId(item, plan.identifierField!);
+      const existing = targetArray.find(t => getItemId(t, plan.identifierField!) === identity);
+      if (existing) deepMerge(existing, item);
+      else targetArray.push(clone(item));
+    });
+  }
+
+  return targetArray;
+};
+
+// Outcome of one posted item, read from the save endpoint's response
+export interface MigrationItemResult {
+  itemId: string;
+  succeeded: boolean;
+  error?: string;
+}
+
+/**
+ * Identifier of every item a batch plan posts, in payload order. Plans of
+ * kind 'object' post a single object and have no items.
+ */
+export const getPlanItemIds = (plan: MigrationPlan): string[] => {
+  if (plan.kind === 'object') return [];
+  const items = plan.body.Data as Record<string, unknown>[];
+  return items.map(item => {
+    if (plan.kind === 'settings') return getSettingScopeKey(item as unknown as SettingItem);
+    if (plan.kind === 'codeTable') return String(item['Name']);
+    return getItemId(item, plan.identifierField!);
+  });
+};
+
+// The plan restricted to the given items, e.g. to retry the ones that failed
+export const selectPlanItems = (plan: MigrationPlan, itemIds: string[]): MigrationPlan => {
+  if (plan.kind === 'object') return plan;
+  const wanted = new Set(itemIds);
+  const ids = getPlanItemIds(plan);
+  const items = (plan.body.Data as unknown[]).filter((_, index) => wanted.has(ids[index]));
+  return { ...plan, body: { Data: items }, itemCount: items.length };
+};
+
+// Item of a batch plan a selected comparison path belongs to
+const getPathItemId = (plan: MigrationPlan, itemIds: string[], path: string) => {
+  if (plan.kind === 'codeTable') return /\.\d+$/.test(path) ? path.substring(0, path.lastIndexOf('.')) : path;
+  if (plan.kind === 'items') return findPathItemId(itemIds, path);
+  return path;
+};
+
+// The selected paths posted by the given plan, e.g. by one of its batches
+export const selectPlanPaths = (plan: MigrationPlan, paths: string[]): string[] => {
+  if (plan.kind === 'object') return paths;
+  const itemIds = getPlanItemIds(plan);
+  const wanted = new Set(itemIds);
+  return paths.filter(path => wanted.has(getPathItemId(plan, itemIds, path)));
+};
+
+// Batch plans of at most `batchSize` items each; 0 keeps a single batch
+export const splitMigrationPlan = (plan: MigrationPlan, batchSize: number): MigrationPlan[] => {
+  const items = plan.body.Data;
+  if (plan.kind === 'object' || !batchSize || !Array.isArray(items) || items.length <= batchSize) return [plan];
+
+  const batches: MigrationPlan[] = [];
+  for (let start = 0; start < items.length; start += batchSize) {
+    const batchItems = items.slice(start, start + batchSize);
+    batches.push({ ...plan, body: { Data: batchItems }, itemCount: batchItems.length });
+  }
+  return batches;
+};
+
+const SUCCESS_FIELDS = ['Success', 'IsSuccess', 'Succeeded', 'success', 'isSuccess', 'succeeded'];
+const ERROR_FIELDS = ['Error', 'ErrorMessage', 'error', 'errorMessage'];
+
+const getAtPath = (value: unknown, path: string) =>
+  path.split('.').filter(Boolean).reduce<unknown>(
+    (current, part) => (current && typeof current === 'object' ? (current as Record<string, unknown>)[part] : undefined),
+    value
+  );
+
+/**
+ * Per-item outcomes of a batch save. `resultPath` points at an array in the
+ * response with one entry per posted item, in payload order; an entry fails
+ * when a success flag is false or it carries an error message. Returns null
+ * when the type has no result path or the response has no such array.
+ */
+export const parseItemResults = (response: unknown, resultPath: string | undefined, itemIds: string[]): MigrationItemResult[] | null => {
+  if (!resultPath || itemIds.length === 0) return null;
+  const entries = getAtPath(response, resultPath);
+  if (!Array.isArray(entries)) return null;
+
+  return itemIds.map((itemId, index) => {
+    const entry = entries[index];
+    if (entry === undefined) {
+      return { itemId, succeeded: false, error: 'No result returned for this item' };
+    }
+    if (typeof entry === 'boolean') {
+      return entry ? { itemId, succeeded: true } : { itemId, succeeded: false, error: 'Rejected by the save endpoint' };
+    }
+    if (!entry || typeof entry !== 'object') return { itemId, succeeded: true };
+
+    const record = entry as Record<string, unknown>;
+    const errorField = ERROR_FIELDS.find(field => record[field]);
+    const successField = SUCCESS_FIELDS.find(field => field in record);
+    if (errorField || (successField && record[successField] === false)) {
+      return {
+        itemId,
+        succeeded: false,
+        error: errorField ? String(record[errorField]) : 'Rejected by the save endpoint',
+      };
+    }
+    return { itemId, succeeded: true };
+  });
+};
+
+export interface MigrationBackupData {
+  data: unknown; // Same shape as the plan's Data, holding the target's values
+  itemCount: number;
+  createdItems: string[]; // Touched items missing on the target; posting the backup cannot remove them
+}
+
+// Copy the keys of `shape` from `value`, noting keys the value does not have
+const pickShape = (value: Record<string, unknown>, shape: Record<string, unknown>, path: string, missing: string[]) => {
+  const picked: Record<string, unknown> = {};
+  Object.entries(shape).forEach(([key, shapeValue]) => {
+    const keyPath = path ? `${path}.${key}` : key;
+    if (!(key in value)) {
+      missing.push(keyPath);
+    } else if (isPlainObject(shapeValue) && isPlainObject(value[key])) {
+      picked[key] = pickShape(value[key] as Record<string, unknown>, shapeValue, keyPath, missing);
+    } else {
+      picked[key] = clone(value[key]);
+    }
+  });
+  return picked;
+};
+
+/**
+ * The target's current values of every item the plan touches, in the plan's
+ * own payload shape so posting them through the same save endpoint restores
+ * the target.
+ */
+export const buildMigrationBackup = (plan: MigrationPlan, targetData: unknown): MigrationBackupData => {
+  const createdItems: string[] = [];
+
+  if (plan.kind === 'object') {
+    const data = pickShape(isPlainObject(targetData) ? targetData : {}, plan.body.Data as Record<string, unknown>, '', createdItems);
+    return { data, itemCount: plan.itemCount - createdItems.length, createdItems };
+  }
+
+  const targetArray = Array.isArray(targetData) ? targetData as Record<string, unknown>[] : [];
+  const items = plan.body.Data as Record<string, unknown>[];
+  const backupItems: Record<string, unknown>[] = [];
+
+  if (plan.kind === 'settings') {
+    items.forEach(item => {
+      const key = getSettingScopeKey(item as unknown as SettingItem);
+      const existing = targetArray.find(t => getSettingScopeKey(t as unknown as SettingItem) === key);
+      if (existing) backupItems.push(clone(existing));
+      else createdItems.push(key);
+    });
+  } else if (plan.kind === 'codeTable') {
+    items.forEach(item => {
+      const table = item as unknown as CodeTableLike;
+      const existing = targetArray.find(t => t['Name'] === table.Name) as unknown as CodeTableLike | undefined;
+      const existingRecords = existing ? getCodeTableRecords(existing) : [];
+      const captured: CodeTableRecordLike[] = [];
+      getCodeTableRecords(table).forEach(record => {
+        const current = existingRecords.find(r => r.Key === record.Key);
+        if (current) captured.push(clone(current));
+        else createdItems.push(`${table.Name}.${record.Key}`);
+      });
+      // Deleted records are posted back by the rollback
+      (table.DeleteKeys || []).forEach(key => {
+        const current = existingRecords.find(r => r.Key === key);
+        if (current) captured.push(clone(current));
+      });
+      if (captured.length > 0) backupItems.push({ Name: table.Name, CtData: captured });
+    });
+  } else {
+    items.forEach(item => {
+      const identity = getItemId(item, plan.identifierField!);
+      const existing = targetArray.find(t => getItemId(t, plan.identifierField!) === identity);
+      if (existing) backupItems.push(pickShape(existing, item, identity, createdItems));
+      else createdItems.push(identity);
+    });
+  }
+
+  return { data: backupItems, itemCount: backupItems.length, createdItems };
+};
+
+export const BEFORE_KEY = 'before';
+export const AFTER_KEY = 'after';
+
+/**
+ * Differences between the target's data before and after a migration, as
+ * comparison results keyed by BEFORE_KEY and AFTER_KEY. Every field counts,
+ * whatever the compared-field selection of the session was.
+ */
+export const diffMigration = (
+  comparisonType: string,
+  customTypes: CustomComparisonType[],
+  before: unknown,
+  after: unknown
+): ComparisonResult[] =>
+  runComparator(resolveComparator(comparisonType, customTypes), { [BEFORE_KEY]: before, [AFTER_KEY]: after }, {
+    instanceIds: [BEFORE_KEY, AFTER_KEY],
+    baseInstanceId: BEFORE_KEY,
+    normalize: createFieldNormalizer([], comparisonType),
+    arrayMatching: DEFAULT_ARRAY_MATCHING,
+    fieldSelections: { featureToggle: [...FEATURE_TOGGLE_COMPARABLE_FIELDS] },
+  });
@@ -0,0 +1,94 @@
+/**
+ * Value normalization applied before values are compared, so that cosmetic
+ * differences ("True" vs "true", "30" vs "30.0", reordered JSON) are not
+ * reported. Results keep the raw values; normalization only affects equality.
+ */
+import { globToRegExp } from '@/utils/ignoreRules';
+
+export type NormalizationStep = 'trim' | 'caseFold' | 'numeric' | 'boolean' | 'json' | 'url';
+
+export interface NormalizationRule {
+  id: string;
+  comparisonType: string; // Comparison type id, or '*' for every type
+  field: string; // Field or path pattern, wildcards allowed (e.g. Data, **.url)
+  steps: NormalizationStep[]; // Applied in order
+}
+
+export type FieldNormalizer = (field: string, value: unknown) => unknown;
+
+export const NORMALIZATION_STEPS: { value: NormalizationStep; label: string }[] = [
+  { value: 'trim', label: 'Trim whitespace' },
+  { value: 'caseFold', label: 'Ignore case' },
+  { value: 'numeric', label: 'Numeric coercion' },
+  { value: 'boolean', label: 'Boolean coercion' },
+  { value: 'json', label: 'Parse embedded JSON' },
+  { value: 'url', label: 'Normalize URLs' },
+];
+
+const TRUE_STRINGS = ['true', 'yes', 'on'];
+const FALSE_STRINGS = ['false', 'no', 'off'];
+
+const normalizeUrl = (text: string): string => {
+  try {
+    const url = new URL(text.trim());
+    url.searchParams.sort();
+    // URL already lower-cases protocol and host and drops default ports
+    const pathname = url.pathname.length > 1 ? url.pathname.replace(/\/+$/, '') : '';
+    return `${url.protocol}//${url.host}${pathname}${url.search}${url.hash}`;
+  } catch (error) {
+    return text;
+  }
+};
+
+const applyStep = (value: unknown, step: NormalizationStep): unknown => {
+  if (typeof value !== 'string') return value;
+
+  switch (step) {
+    case 'trim':
+      return value.trim();
+    case 'caseFold':
+      return value.toLowerCase();
+    case 'numeric': {
+      const trimmed = value.trim();
+      return trimmed !== '' && !Number.isNaN(Number(trimmed)) ? Number(trimmed) : value;
+    }
+    case 'boolean': {
+      const lowered = value.trim().toLowerCase();
+      if (TRUE_STRINGS.includes(lowered)) return true;
+      if (FALSE_STRINGS.includes(lowered)) return false;
+      return value;
+    }
+    case 'json': {
+      try {
+        // Parsed values are compared structurally, which canonicalizes key order
+        return JSON.parse(value);
+      } catch (error) {
+        return value;
+      }
+    }
+    case 'url':
+      return normalizeUrl(value);
+  }
+};
+
+export const normalizeValue = (value: unknown, steps: NormalizationStep[]): unknown =>
+  steps.reduce(applyStep, value);
+
+/**
+ * Build a normalizer for one comparison type. The first matching rule wins;
+ * fields without a rule are returned unchanged.
+ */
+export const createFieldNormalizer = (rules: NormalizationRule[], comparisonType: string): FieldNormalizer => {
+  const applicable = rules
+    .filter(rule => rule.steps.length > 0 && (rule.comparisonType === '*' || rule.comparisonType === comparisonType))
+    .map(rule => ({ rule, pattern: globToRegExp(rule.field) }));
+  const cache = new Map<string, NormalizationStep[] | null>();
+
+  return (field, value) => {
+    if (!cache.has(field)) {
+      cache.set(field, applicable.find(({ pattern }) => pattern.test(field))?.rule.steps ?? null);
+    }
+    const steps = cache.get(field);
+    return steps ? normalizeValue(value, steps) : value;
+  };
+};
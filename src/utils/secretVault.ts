@@ -0,0 +1,179 @@
+/**
+ * Passphrase-protected store for instance credentials. Secrets are kept in
+ * localStorage as one AES-GCM encrypted blob whose key is derived from the
+ * passphrase with PBKDF2; decrypted secrets only live in memory. The derived
+ * key is non-extractable. It is kept as a CryptoKey in IndexedDB, shared by
+ * all tabs; a sessionStorage marker holding no secret limits its use to tabs
+ * that unlocked the vault, so they stay unlocked across reloads while new
+ * tabs and browser sessions ask for the passphrase.
+ */
+import { deleteVaultKey, loadVaultKey, saveVaultKey } from '@/utils/indexedDbStorage';
+
+const VAULT_STORAGE_KEY = 'json-sync-diff-vault';
+const SESSION_MARKER_STORAGE_KEY = 'json-sync-diff-vault-unlocked';
+const LEGACY_SESSION_KEY_STORAGE_KEY = 'json-sync-diff-vault-key'; // Raw key bytes of earlier versions
+const PBKDF2_ITERATIONS = 310000;
+
+interface EncryptedVault {
+  version: 1;
+  salt: string; // Base64
+  iterations: number;
+  iv: string; // Base64, new for every write
+  ciphertext: string; // Base64 JSON of the secrets by id
+}
+
+export class VaultLockedError extends Error {
+  constructor(message = 'The secret vault is locked') {
+    super(message);
+    this.name = 'VaultLockedError';
+  }
+}
+
+// Set while unlocked
+let vaultKey: CryptoKey | null = null;
+let vaultSalt: Uint8Array | null = null;
+let secrets: Record<string, string> | null = null;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const loadEncryptedVault = (): EncryptedVault | null => {
+  try {
+    const stored = localStorage.getItem(VAULT_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    // Failed to load vault from localStorage
+    return null;
+  }
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false, // Never leaves WebCrypto; only the CryptoKey object is stored
+    ['encrypt', 'decrypt']
+  );
+};
+
+const decryptSecrets = async (vault: EncryptedVault, key: CryptoKey): Promise<Record<string, string>> => {
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(vault.iv) }, key, fromBase64(vault.ciphertext));
+  return JSON.parse(new TextDecoder().decode(plaintext));
+};
+
+const writeSecrets = async (nextSecrets: Record<string, string>) => {
+  if (!vaultKey || !vaultSalt) throw new VaultLockedError();
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    vaultKey,
+    new TextEncoder().encode(JSON.stringify(nextSecrets))
+  );
+  const vault: EncryptedVault = {
+    version: 1,
+    salt: toBase64(vaultSalt),
+    iterations: PBKDF2_ITERATIONS,
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+  localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(vault));
+  secrets = nextSecrets;
+};
+
+const rememberKeyForSession = async (key: CryptoKey) => {
+  try {
+    await saveVaultKey(key);
+    sessionStorage.setItem(SESSION_MARKER_STORAGE_KEY, 'true');
+  } catch (error) {
+    // Failed to keep the vault key for this session; the next page load asks again
+  }
+};
+
+const forgetSessionKey = async () => {
+  sessionStorage.removeItem(SESSION_MARKER_STORAGE_KEY);
+  try {
+    await deleteVaultKey();
+  } catch (error) {
+    // Failed to delete the stored key; without the session marker it is not used
+  }
+};
+
+const open = async (vault: EncryptedVault, key: CryptoKey) => {
+  secrets = await decryptSecrets(vault, key);
+  vaultKey = key;
+  vaultSalt = fromBase64(vault.salt);
+};
+
+export const hasVault = () => loadEncryptedVault() !== null;
+
+export const isVaultUnlocked = () => secrets !== null;
+
+export const getSecretIds = () => Object.keys(secrets || {});
+
+export const createVault = async (passphrase: string) => {
+  if (hasVault()) throw new Error('A secret vault already exists');
+  vaultSalt = crypto.getRandomValues(new Uint8Array(16));
+  vaultKey = await deriveKey(passphrase, vaultSalt, PBKDF2_ITERATIONS);
+  await writeSecrets({});
+  await rememberKeyForSession(vaultKey);
+};
+
+export const unlockVault = async (passphrase: string) => {
+  const vault = loadEncryptedVault();
+  if (!vault) throw new Error('No secret vault has been created');
+  const key = await deriveKey(passphrase, fromBase64(vault.salt), vault.iterations);
+  try {
+    await open(vault, key);
+  } catch (error) {
+    // AES-GCM rejects a key derived from the wrong passphrase
+    throw new Error('Incorrect passphrase');
+  }
+  await rememberKeyForSession(key);
+};
+
+// Unlock with the key kept earlier in this browser session; false when there is none
+export const restoreVaultSession = async () => {
+  sessionStorage.removeItem(LEGACY_SESSION_KEY_STORAGE_KEY);
+  const vault = loadEncryptedVault();
+  if (!vault) {
+    await forgetSessionKey();
+    return false;
+  }
+  // Other tabs may be using the stored key; this one stays locked without touching it
+  if (!sessionStorage.getItem(SESSION_MARKER_STORAGE_KEY)) return false;
+  try {
+    const key = await loadVaultKey();
+    if (!key) return false;
+    await open(vault, key);
+    return true;
+  } catch (error) {
+    // The vault was replaced since; forget the stale key
+    await forgetSessionKey();
+    return false;
+  }
+};
+
+export const lockVault = async () => {
+  vaultKey = null;
+  vaultSalt = null;
+  secrets = null;
+  await forgetSessionKey();
+};
+
+export const getSecret = (id: string): string | undefined => {
+  if (!secrets) throw new VaultLockedError();
+  return secrets[id];
+};
+
+// Add or replace secrets and remove others in one write; returns the ids of the stored values
+export const updateSecrets = async (values: Record<string, string>, removeIds: string[] = []) => {
+  if (!secrets) throw new VaultLockedError();
+  const nextSecrets = { ...secrets, ...values };
+  removeIds.forEach(id => delete nextSecrets[id]);
+  await writeSecrets(nextSecrets);
+  return Object.keys(values);
+};
+
+export const createSecretId = () => `secret-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
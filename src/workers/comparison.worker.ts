@@ -0,0 +1,21 @@
+/**
+ * Runs comparison jobs off the main thread. Cancellation terminates the
+ * worker, so a job never needs to check for it.
+ */
+import '@/utils/comparators/registrations';
+import { runComparisonJob } from '@/utils/comparators/pipeline';
+import type { ComparisonWorkerRequest, ComparisonWorkerResponse } from './comparisonWorkerClient';
+
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<ComparisonWorkerRequest>) => void) | null;
+  postMessage: (message: ComparisonWorkerResponse) => void;
+};
+
+workerScope.onmessage = (event) => {
+  try {
+    const outcome = runComparisonJob(event.data.job, progress => workerScope.postMessage({ type: 'progress', progress }));
+    workerScope.postMessage({ type: 'done', outcome });
+  } catch (error) {
+    workerScope.postMessage({ type: 'error', message: error instanceof Error ? error.message : 'Comparison failed' });
+  }
+};
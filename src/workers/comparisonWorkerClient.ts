@@ -0,0 +1,75 @@
+import { runComparisonJob } from '@/utils/comparators/pipeline';
+import type { ComparisonJob, ComparisonOutcome, ComparisonProgress } from '@/utils/comparators/pipeline';
+import { isComparatorAvailableInWorker } from '@/utils/comparators';
+
+export interface ComparisonWorkerRequest {
+  job: ComparisonJob;
+}
+
+export type ComparisonWorkerResponse =
+  | { type: 'progress'; progress: ComparisonProgress }
+  | { type: 'done'; outcome: ComparisonOutcome }
+  | { type: 'error'; message: string };
+
+export class ComparisonCancelledError extends Error {
+  constructor() {
+    super('Comparison cancelled');
+    this.name = 'ComparisonCancelledError';
+  }
+}
+
+/**
+ * Run a comparison job in a dedicated worker. Aborting the signal terminates
+ * the worker immediately. Environments without Worker support, and types
+ * whose comparator was registered outside registrations.ts, run the job on
+ * the current thread.
+ */
+export const runComparisonInWorker = (
+  job: ComparisonJob,
+  onProgress: (progress: ComparisonProgress) => void,
+  signal?: AbortSignal
+): Promise<ComparisonOutcome> => {
+  if (signal?.aborted) {
+    return Promise.reject(new ComparisonCancelledError());
+  }
+
+  if (typeof Worker === 'undefined' || !isComparatorAvailableInWorker(job.comparisonType)) {
+    return new Promise(resolve => resolve(runComparisonJob(job, onProgress)));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./comparison.worker.ts', import.meta.url), { type: 'module' });
+
+    const handleAbort = () => {
+      worker.terminate();
+      reject(new ComparisonCancelledError());
+    };
+    const finish = () => {
+      signal?.removeEventListener('abort', handleAbort);
+      worker.terminate();
+    };
+
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<ComparisonWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.progress);
+      } else if (message.type === 'done') {
+        finish();
+        resolve(message.outcome);
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Comparison worker failed'));
+    };
+
+    const request: ComparisonWorkerRequest = { job };
+    worker.postMessage(request);
+  });
+};